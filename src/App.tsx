@@ -1,23 +1,55 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import Layout from './components/Layout';
+import { AuthProvider } from './components/auth/AuthProvider';
+import { RequireAuth } from './components/auth/RequireAuth';
+import { useProfile } from './hooks/useAuth';
+import SignInPage from './routes/SignInPage';
 import PatientDailyEntryPage from './routes/PatientDailyEntryPage';
 import PatientTrackerPage from './routes/PatientTrackerPage';
+import PatientAssessmentPage from './routes/PatientAssessmentPage';
+import ClinicianPatientsPage from './routes/ClinicianPatientsPage';
+import ClinicianRegimenPage from './routes/ClinicianRegimenPage';
 import ClinicianTrackerPage from './routes/ClinicianTrackerPage';
 import ClinicianDailyEntryPage from './routes/ClinicianDailyEntryPage';
+import ClinicianPatientSettingsPage from './routes/ClinicianPatientSettingsPage';
+
+// Send each role to its own landing page
+function HomeRedirect() {
+  const profile = useProfile();
+
+  if (profile.role === 'patient') {
+    return <Navigate to="/patient/daily" replace />;
+  }
+
+  return <Navigate to="/clinician/patients" replace />;
+}
 
 function App() {
   return (
-    <BrowserRouter>
-      <Routes>
-        <Route path="/" element={<Layout />}>
-          <Route index element={<Navigate to="/patient/daily" replace />} />
-          <Route path="patient/daily" element={<PatientDailyEntryPage />} />
-          <Route path="patient/tracker" element={<PatientTrackerPage />} />
-          <Route path="clinician/tracker/:patientId" element={<ClinicianTrackerPage />} />
-          <Route path="clinician/daily/:patientId/:date?" element={<ClinicianDailyEntryPage />} />
-        </Route>
-      </Routes>
-    </BrowserRouter>
+    <AuthProvider>
+      <BrowserRouter>
+        <Routes>
+          <Route path="sign-in" element={<SignInPage />} />
+          <Route element={<RequireAuth />}>
+            <Route path="/" element={<Layout />}>
+              <Route index element={<HomeRedirect />} />
+              <Route element={<RequireAuth role="patient" />}>
+                <Route path="patient/daily" element={<PatientDailyEntryPage />} />
+                <Route path="patient/tracker" element={<PatientTrackerPage />} />
+                <Route path="patient/assessment" element={<PatientAssessmentPage />} />
+              </Route>
+              <Route element={<RequireAuth role="clinician" />}>
+                <Route path="clinician/patients" element={<ClinicianPatientsPage />} />
+                <Route path="clinician/tracker/:patientId" element={<ClinicianTrackerPage />} />
+                <Route path="clinician/daily/:patientId/:date?" element={<ClinicianDailyEntryPage />} />
+                <Route path="clinician/regimen/:patientId" element={<ClinicianRegimenPage />} />
+                <Route path="clinician/settings/:patientId" element={<ClinicianPatientSettingsPage />} />
+              </Route>
+            </Route>
+          </Route>
+        </Routes>
+      </BrowserRouter>
+    </AuthProvider>
   );
 }
 
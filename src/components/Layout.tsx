@@ -1,13 +1,16 @@
-import { Link, Outlet, useLocation } from 'react-router-dom';
-import { useState } from 'react';
-
-// Dev patient ID from seed data
-const DEV_PATIENT_ID = '11111111-1111-1111-1111-111111111111';
+import { Link, Outlet, useLocation, useMatch } from 'react-router-dom';
+import { useAuth, useProfile } from '../hooks/useAuth';
 
 export default function Layout() {
-  const [role, setRole] = useState<'patient' | 'clinician'>('patient');
+  const profile = useProfile();
+  const { signOut } = useAuth();
+  const role = profile.role;
   const location = useLocation();
 
+  // Patient the clinician is currently viewing, if any
+  const patientMatch = useMatch('/clinician/:view/:patientId/*');
+  const patientId = patientMatch?.params.patientId;
+
   const isActive = (path: string) => {
     return location.pathname === path;
   };
@@ -44,56 +47,88 @@ export default function Layout() {
                     >
                       Tracker
                     </Link>
-                  </>
-                ) : (
-                  <>
                     <Link
-                      to={`/clinician/tracker/${DEV_PATIENT_ID}`}
+                      to="/patient/assessment"
                       className={`inline-flex items-center px-3 py-2 text-sm font-medium rounded-md ${
-                        location.pathname.startsWith('/clinician/tracker')
+                        isActive('/patient/assessment')
                           ? 'text-blue-700 bg-blue-50'
                           : 'text-gray-700 hover:text-gray-900 hover:bg-gray-50'
                       }`}
                     >
-                      Patient Tracker
+                      Assessment
                     </Link>
+                  </>
+                ) : (
+                  <>
                     <Link
-                      to={`/clinician/daily/${DEV_PATIENT_ID}`}
+                      to="/clinician/patients"
                       className={`inline-flex items-center px-3 py-2 text-sm font-medium rounded-md ${
-                        location.pathname.startsWith('/clinician/daily')
+                        isActive('/clinician/patients')
                           ? 'text-blue-700 bg-blue-50'
                           : 'text-gray-700 hover:text-gray-900 hover:bg-gray-50'
                       }`}
                     >
-                      Daily Entry
+                      Patients
                     </Link>
+                    {patientId && (
+                      <>
+                        <Link
+                          to={`/clinician/tracker/${patientId}`}
+                          className={`inline-flex items-center px-3 py-2 text-sm font-medium rounded-md ${
+                            location.pathname.startsWith('/clinician/tracker')
+                              ? 'text-blue-700 bg-blue-50'
+                              : 'text-gray-700 hover:text-gray-900 hover:bg-gray-50'
+                          }`}
+                        >
+                          Patient Tracker
+                        </Link>
+                        <Link
+                          to={`/clinician/daily/${patientId}`}
+                          className={`inline-flex items-center px-3 py-2 text-sm font-medium rounded-md ${
+                            location.pathname.startsWith('/clinician/daily')
+                              ? 'text-blue-700 bg-blue-50'
+                              : 'text-gray-700 hover:text-gray-900 hover:bg-gray-50'
+                          }`}
+                        >
+                          Daily Entry
+                        </Link>
+                        <Link
+                          to={`/clinician/regimen/${patientId}`}
+                          className={`inline-flex items-center px-3 py-2 text-sm font-medium rounded-md ${
+                            location.pathname.startsWith('/clinician/regimen')
+                              ? 'text-blue-700 bg-blue-50'
+                              : 'text-gray-700 hover:text-gray-900 hover:bg-gray-50'
+                          }`}
+                        >
+                          Regimen
+                        </Link>
+                        <Link
+                          to={`/clinician/settings/${patientId}`}
+                          className={`inline-flex items-center px-3 py-2 text-sm font-medium rounded-md ${
+                            location.pathname.startsWith('/clinician/settings')
+                              ? 'text-blue-700 bg-blue-50'
+                              : 'text-gray-700 hover:text-gray-900 hover:bg-gray-50'
+                          }`}
+                        >
+                          Settings
+                        </Link>
+                      </>
+                    )}
                   </>
                 )}
               </div>
             </div>
-            <div className="flex items-center">
-              <div className="flex space-x-2 bg-gray-100 rounded-lg p-1">
-                <button
-                  onClick={() => setRole('patient')}
-                  className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${
-                    role === 'patient'
-                      ? 'bg-white text-gray-900 shadow-sm'
-                      : 'text-gray-600 hover:text-gray-900'
-                  }`}
-                >
-                  Patient
-                </button>
-                <button
-                  onClick={() => setRole('clinician')}
-                  className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${
-                    role === 'clinician'
-                      ? 'bg-white text-gray-900 shadow-sm'
-                      : 'text-gray-600 hover:text-gray-900'
-                  }`}
-                >
-                  Clinician
-                </button>
+            <div className="flex items-center space-x-4">
+              <div className="text-right">
+                <div className="text-sm font-medium text-gray-900">{profile.full_name}</div>
+                <div className="text-xs text-gray-500 capitalize">{role}</div>
               </div>
+              <button
+                onClick={signOut}
+                className="px-3 py-1 text-sm font-medium rounded-md text-gray-600 hover:text-gray-900 hover:bg-gray-100"
+              >
+                Sign Out
+              </button>
             </div>
           </div>
         </div>
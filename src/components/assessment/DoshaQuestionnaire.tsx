@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import type { Dosha, DoshaAssessmentKind } from '../../types/db';
+import { ASSESSMENT_LABELS, ASSESSMENT_QUESTIONS, DOSHAS } from '../../lib/dosha';
+
+// Every question must be answered. Options do not name their dosha, so answers are not
+// steered towards a result.
+export function DoshaQuestionnaire({
+  kind,
+  onSubmit,
+  onCancel,
+}: {
+  kind: DoshaAssessmentKind;
+  onSubmit: (answers: Record<string, Dosha>, notes?: string) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const questions = ASSESSMENT_QUESTIONS[kind];
+  const [answers, setAnswers] = useState<Record<string, Dosha>>({});
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const answered = questions.filter((q) => answers[q.key]).length;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (answered < questions.length) {
+      setError('Please answer every question');
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(answers, notes.trim() || undefined);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save assessment');
+      console.error('Failed to save dosha assessment:', err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white border rounded-lg p-4 space-y-4">
+      <div>
+        <h3 className="font-semibold text-lg">{ASSESSMENT_LABELS[kind]}</h3>
+        <p className="text-sm text-gray-600">
+          {kind === 'prakriti'
+            ? 'Choose what has been true for you for most of your life, not just lately.'
+            : 'Choose what best describes you over the last two weeks.'}
+        </p>
+      </div>
+
+      {questions.map((question, index) => (
+        <fieldset key={question.key}>
+          <legend className="text-sm font-medium mb-1">
+            {index + 1}. {question.text}
+          </legend>
+          <div className="space-y-1">
+            {DOSHAS.map((dosha) => (
+              <label key={dosha} className="flex items-center space-x-2 text-sm">
+                <input
+                  type="radio"
+                  name={question.key}
+                  checked={answers[question.key] === dosha}
+                  onChange={() => setAnswers({ ...answers, [question.key]: dosha })}
+                />
+                <span>{question.options[dosha]}</span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      ))}
+
+      <div>
+        <label className="block text-sm font-medium mb-1">Notes (optional)</label>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={2}
+          className="w-full px-3 py-2 border rounded text-sm"
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-between items-center">
+        <span className="text-sm text-gray-600">
+          {answered}/{questions.length} answered
+        </span>
+        <div className="flex space-x-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1 border rounded text-sm hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            {submitting ? 'Saving...' : 'Submit'}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,126 @@
+import { format, parseISO } from 'date-fns';
+import type { Dosha, DoshaAssessment } from '../../types/db';
+import { DOSHAS, DOSHA_LABELS, doshaPercentages, doshaType } from '../../lib/dosha';
+
+const DOSHA_STYLES: Record<Dosha, { bar: string; stroke: string; fill: string }> = {
+  vata: { bar: 'bg-sky-400', stroke: 'stroke-sky-500', fill: 'fill-sky-600' },
+  pitta: { bar: 'bg-orange-400', stroke: 'stroke-orange-500', fill: 'fill-orange-600' },
+  kapha: { bar: 'bg-emerald-400', stroke: 'stroke-emerald-600', fill: 'fill-emerald-700' },
+};
+
+// Chart geometry (SVG user units)
+const WIDTH = 480;
+const HEIGHT = 140;
+const PADDING = { top: 10, right: 12, bottom: 20, left: 36 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+// One assessment as a bar per dosha, with its share of the answers and the resulting type
+export function DoshaScoreBars({ assessment }: { assessment: DoshaAssessment }) {
+  const percentages = doshaPercentages(assessment);
+
+  return (
+    <div className="space-y-1">
+      <div className="text-sm font-medium">{doshaType(assessment)}</div>
+      {DOSHAS.map((dosha) => (
+        <div key={dosha} className="flex items-center gap-2 text-xs">
+          <span className="w-10 text-gray-600">{DOSHA_LABELS[dosha]}</span>
+          <div className="flex-1 bg-gray-100 rounded h-3">
+            <div
+              className={`h-3 rounded ${DOSHA_STYLES[dosha].bar}`}
+              style={{ width: `${percentages[dosha]}%` }}
+            />
+          </div>
+          <span className="w-8 text-right">{percentages[dosha]}%</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Vikriti shares per dosha across check-ins (oldest first), against the Prakriti baseline
+// drawn as dashed lines, so drift away from the constitution stands out
+export function DoshaTrendChart({
+  vikriti,
+  prakriti,
+}: {
+  vikriti: DoshaAssessment[];
+  prakriti?: DoshaAssessment;
+}) {
+  if (vikriti.length === 0) return null;
+
+  const step = vikriti.length > 1 ? PLOT_WIDTH / (vikriti.length - 1) : 0;
+  const x = (i: number) => PADDING.left + (vikriti.length > 1 ? i * step : PLOT_WIDTH / 2);
+  const y = (percent: number) => PADDING.top + ((100 - percent) / 100) * PLOT_HEIGHT;
+  const points = vikriti.map((assessment) => doshaPercentages(assessment));
+  const baseline = prakriti && doshaPercentages(prakriti);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full max-w-lg">
+      {/* Axes */}
+      {[0, 50, 100].map((percent) => (
+        <g key={percent}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(percent)} y2={y(percent)} className="stroke-gray-200" />
+          <text x={PADDING.left - 4} y={y(percent) + 3} textAnchor="end" className="fill-gray-500 text-[10px]">
+            {percent}%
+          </text>
+        </g>
+      ))}
+      {vikriti.map((assessment, i) => (
+        <text key={assessment.id} x={x(i)} y={HEIGHT - 6} textAnchor="middle" className="fill-gray-500 text-[10px]">
+          {format(parseISO(assessment.completed_at), 'MMM d')}
+        </text>
+      ))}
+
+      {DOSHAS.map((dosha) => (
+        <g key={dosha}>
+          {/* Prakriti baseline */}
+          {baseline && (
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(baseline[dosha])}
+              y2={y(baseline[dosha])}
+              strokeDasharray="4 3"
+              className={DOSHA_STYLES[dosha].stroke}
+            >
+              <title>
+                Prakriti {DOSHA_LABELS[dosha]}: {baseline[dosha]}%
+              </title>
+            </line>
+          )}
+
+          {/* Vikriti check-ins */}
+          <polyline
+            points={points.map((p, i) => `${x(i)},${y(p[dosha])}`).join(' ')}
+            fill="none"
+            strokeWidth={1.5}
+            className={DOSHA_STYLES[dosha].stroke}
+          />
+          {points.map((p, i) => (
+            <circle key={vikriti[i].id} cx={x(i)} cy={y(p[dosha])} r={3} className={DOSHA_STYLES[dosha].fill}>
+              <title>
+                {format(parseISO(vikriti[i].completed_at), 'MMM d, yyyy')} · {DOSHA_LABELS[dosha]}: {p[dosha]}%
+              </title>
+            </circle>
+          ))}
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+// Colour key for the bars and trend lines
+export function DoshaLegend() {
+  return (
+    <div className="flex gap-3 text-xs">
+      {DOSHAS.map((dosha) => (
+        <span key={dosha} className="flex items-center gap-1">
+          <span className={`inline-block w-3 h-3 rounded ${DOSHA_STYLES[dosha].bar}`} />
+          {DOSHA_LABELS[dosha]}
+        </span>
+      ))}
+      <span className="text-gray-500">Dashed: Prakriti baseline</span>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { format, parseISO } from 'date-fns';
+import type { DoshaAssessment } from '../../types/db';
+import { ASSESSMENT_LABELS, isVikritiDue, latestAssessment } from '../../lib/dosha';
+import { DoshaLegend, DoshaScoreBars, DoshaTrendChart } from './DoshaScores';
+
+// Latest Prakriti and Vikriti scores for the clinician, with the Vikriti trend across check-ins
+export function DoshaSummary({ assessments }: { assessments: DoshaAssessment[] }) {
+  if (assessments.length === 0) {
+    return (
+      <div className="bg-white border rounded-lg p-4 mb-4">
+        <h3 className="font-semibold mb-1">Dosha</h3>
+        <p className="text-sm text-gray-500 italic">No dosha assessments yet</p>
+      </div>
+    );
+  }
+
+  const prakriti = latestAssessment(assessments, 'prakriti');
+  const vikriti = assessments.filter((a) => a.kind === 'vikriti');
+  const latestVikriti = vikriti.at(-1);
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  return (
+    <div className="bg-white border rounded-lg p-4 mb-4">
+      <h3 className="font-semibold mb-3">Dosha</h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {([
+          ['prakriti', prakriti],
+          ['vikriti', latestVikriti],
+        ] as const).map(([kind, latest]) => (
+          <div key={kind}>
+            <div className="text-xs text-gray-600 mb-1">
+              {ASSESSMENT_LABELS[kind]}
+              {latest && ` · ${format(parseISO(latest.completed_at), 'MMM d, yyyy')}`}
+            </div>
+            {latest ? (
+              <DoshaScoreBars assessment={latest} />
+            ) : (
+              <p className="text-sm text-gray-500 italic">Not taken yet</p>
+            )}
+            {kind === 'vikriti' && latest && isVikritiDue(assessments, today) && (
+              <p className="text-xs text-yellow-700 mt-1">Check-in due</p>
+            )}
+          </div>
+        ))}
+        <div>
+          <div className="text-xs text-gray-600 mb-1">Vikriti trend ({vikriti.length} check-ins)</div>
+          {vikriti.length > 0 ? (
+            <>
+              <DoshaTrendChart vikriti={vikriti} prakriti={prakriti} />
+              <DoshaLegend />
+            </>
+          ) : (
+            <p className="text-sm text-gray-500 italic">No check-ins yet</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
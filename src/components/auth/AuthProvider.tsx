@@ -0,0 +1,71 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '../../lib/supabaseClient';
+import { getProfile, signOut as apiSignOut } from '../../lib/api/auth';
+import { AuthContext } from '../../hooks/useAuth';
+import type { Profile } from '../../types/db';
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // User whose profile is loaded; later events for the same user refresh it without unmounting the routes
+  const profileUserId = useRef<string | null>(null);
+
+  // Track the auth session; fires INITIAL_SESSION on subscribe
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, newSession) => {
+      setSession(newSession);
+
+      if (!newSession) {
+        profileUserId.current = null;
+        setProfile(null);
+        setError(null);
+        setLoading(false);
+        return;
+      }
+
+      // Token refreshes keep the same user, so the profile is still valid
+      if (event === 'TOKEN_REFRESHED') return;
+
+      const userChanged = newSession.user.id !== profileUserId.current;
+      if (userChanged) setLoading(true);
+
+      // Defer the profile fetch: Supabase calls inside this callback can deadlock
+      setTimeout(async () => {
+        try {
+          const data = await getProfile(newSession.user.id);
+          profileUserId.current = data ? newSession.user.id : null;
+          setProfile(data);
+          setError(data ? null : 'No profile found for this account');
+        } catch (err) {
+          console.error('Error fetching profile:', err);
+          // A failed refresh keeps the profile already loaded for this user
+          if (!userChanged) return;
+          profileUserId.current = null;
+          setProfile(null);
+          setError(err instanceof Error ? err.message : 'Failed to load profile');
+        } finally {
+          if (userChanged) setLoading(false);
+        }
+      }, 0);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const signOut = useCallback(async () => {
+    try {
+      await apiSignOut();
+    } catch (err) {
+      console.error('Failed to sign out:', err);
+    }
+  }, []);
+
+  return (
+    <AuthContext.Provider value={{ session, profile, loading, error, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
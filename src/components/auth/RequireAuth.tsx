@@ -0,0 +1,42 @@
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useAuth } from '../../hooks/useAuth';
+import type { Profile } from '../../types/db';
+
+/**
+ * Route guard for signed-in users
+ * Redirects to sign-in when signed out, and home when the role does not match
+ */
+export function RequireAuth({ role }: { role?: Profile['role'] }) {
+  const { session, profile, loading, error } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="text-center py-12">
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Navigate to="/sign-in" replace state={{ from: location.pathname }} />;
+  }
+
+  if (!profile) {
+    return (
+      <div className="p-6">
+        <div className="text-center py-12">
+          <p className="text-red-600">Error: {error || 'No profile found for this account'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (role && profile.role !== role) {
+    return <Navigate to="/" replace />;
+  }
+
+  return <Outlet />;
+}
@@ -0,0 +1,132 @@
+// Shared daily entry layout for the patient page, the tracker overlay and the clinician page
+import type { DailyEntryBundle, DailySectionKey, DailySectionSetting } from '../../types/db';
+import { dailySectionLabel, isSectionLogged } from '../../lib/dailySections';
+import {
+  SleepSection,
+  EarlyMorningSection,
+  FoodFluidSection,
+  BowelSection,
+  ExerciseSection,
+  EnergySection,
+  VitalsSection,
+  MedicationsSection,
+  SymptomsSection,
+  CustomFieldsSection,
+  CycleSection,
+  RegimenSection,
+} from './Sections';
+
+// Editable / read-only label shown under a daily entry heading
+export function EditWindowStatus({
+  readOnly,
+  editable,
+  editWindowDays,
+}: {
+  readOnly?: boolean;
+  editable: boolean;
+  editWindowDays: number;
+}) {
+  if (readOnly) {
+    return <span className="text-blue-600 font-medium">👁️ Read-Only (Clinician View)</span>;
+  }
+  if (editable) {
+    return <span className="text-green-600 font-medium">✓ Editable</span>;
+  }
+  return <span className="text-gray-500">Read-only (outside {editWindowDays}-day edit window)</span>;
+}
+
+// Props every section component accepts
+type SectionComponent = React.ComponentType<{
+  data: DailyEntryBundle;
+  editable?: boolean;
+  onRefresh?: () => void | Promise<void>;
+}>;
+
+const SECTION_COMPONENTS: Record<DailySectionKey, SectionComponent> = {
+  sleep: SleepSection,
+  early_morning: EarlyMorningSection,
+  food_fluid: FoodFluidSection,
+  bowel: BowelSection,
+  exercise: ExerciseSection,
+  energy: EnergySection,
+  vitals: VitalsSection,
+  medications: MedicationsSection,
+  symptoms: SymptomsSection,
+  custom: CustomFieldsSection,
+  cycle: CycleSection,
+  regimen: RegimenSection,
+};
+
+// Required sections for the day, ticked off once something is logged in them
+function RequiredSectionsStatus({
+  bundle,
+  sections,
+}: {
+  bundle: DailyEntryBundle;
+  sections: DailySectionSetting[];
+}) {
+  const required = sections.filter((section) => section.required);
+  if (required.length === 0) return null;
+
+  const loggedCount = required.filter((section) => isSectionLogged(section.key, bundle)).length;
+
+  return (
+    <div className="border rounded-lg p-4 bg-white">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold">Required Sections</h3>
+        <span className="text-sm text-gray-600">
+          {loggedCount} of {required.length} logged
+        </span>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {required.map(({ key }) => {
+          const logged = isSectionLogged(key, bundle);
+          return (
+            <a
+              key={key}
+              href={`#section-${key}`}
+              className={`px-2 py-0.5 rounded text-sm ${
+                logged ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+              }`}
+            >
+              {logged ? '✓' : '○'} {dailySectionLabel(key)}
+            </a>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// The patient's sections for one day, in their configured order (see resolveDailySections).
+// Sections only offer editing when editable (clinicians can still reply to regimen notes),
+// and onRefresh reloads the bundle after a change
+export function DailyEntrySections({
+  bundle,
+  sections,
+  editable,
+  onRefresh,
+}: {
+  bundle: DailyEntryBundle;
+  sections: DailySectionSetting[];
+  editable: boolean;
+  onRefresh?: () => void | Promise<void>;
+}) {
+  if (sections.length === 0) {
+    return <p className="text-gray-500 text-sm italic">No daily entry sections are enabled.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <RequiredSectionsStatus bundle={bundle} sections={sections} />
+      {sections.map(({ key }) => {
+        const SectionContent = SECTION_COMPONENTS[key];
+        return (
+          <section key={key} id={`section-${key}`}>
+            <SectionContent data={bundle} editable={editable} onRefresh={onRefresh} />
+          </section>
+        );
+      })}
+    </div>
+  );
+}
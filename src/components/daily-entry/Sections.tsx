@@ -1,11 +1,56 @@
 // Daily Entry Section Components
 import { useState, useCallback, useEffect } from 'react';
-import type { DailyEntryBundle } from '../../types/db';
+import type {
+  BowelCompleteness,
+  BowelEase,
+  BowelMovement,
+  BowelUrgency,
+  CustomField,
+  CustomFieldValue,
+  DailyEntryBundle,
+  DigestionCheckin,
+  DigestionRating,
+  DoseSlot,
+  FoodEvent,
+  Guna,
+  Rasa,
+  RegimenFormulationIntake,
+  StoolColor,
+} from '../../types/db';
+import { doseSlotLabel, formulationSlots } from '../../lib/regimen';
+import { customValueColumns, customValueOf, formatCustomValue } from '../../lib/customFields';
+import {
+  GUNA_LABELS,
+  GUNA_PAIRS,
+  RASAS,
+  countRasas,
+  rasaLabel,
+  sameTags,
+  toggleGuna,
+  toggleRasa,
+} from '../../lib/foodTags';
+import {
+  BOWEL_COMPLETENESS,
+  BOWEL_EASE,
+  BOWEL_URGENCY,
+  BRISTOL_NORMAL_RANGE,
+  BRISTOL_TYPES,
+  STOOL_COLORS,
+  bristolLabel,
+  describeBowelMovement,
+} from '../../lib/bowel';
+import { DIGESTION_QUESTIONS, answeredQuestions, isDigestionConcern } from '../../lib/digestion';
+import type { CustomValue } from '../../lib/customFields';
+import { useProfile } from '../../hooks/useAuth';
 import {
   upsertSleepBlock,
   upsertEarlyMorning,
   addFoodEvent,
   deleteFoodEvent,
+  addSavedFood,
+  updateSavedFoodTags,
+  upsertDigestionCheckin,
+  deleteDigestionCheckin,
   upsertFluidTotals,
   addBowelMovement,
   deleteBowelMovement,
@@ -18,16 +63,30 @@ import {
   deleteMedicationIntake,
   addSymptomLog,
   deleteSymptomLog,
+  upsertCustomFieldValue,
+  deleteCustomFieldValue,
   upsertCycleLog,
   getOrCreateCycleLog,
   getCycleSavedSymptoms,
   addCycleSymptom,
   addCycleComment,
+  addClinicianCycleComment,
+  markCycleCommentsRead,
   upsertFormulationIntake,
   upsertTreatmentCompletion,
-  upsertRegimenNote,
+  addRegimenNoteMessage,
+  markRegimenNotesRead,
 } from '../../lib/api/dailyEntry';
 
+// Key for one formulation dose slot in intake state ('daily' when it has no slots)
+const intakeKey = (formulationId: string, slot?: DoseSlot) => `${formulationId}:${slot || 'daily'}`;
+
+const findFormulationIntake = (
+  intakes: RegimenFormulationIntake[],
+  formulationId: string,
+  slot?: DoseSlot
+) => intakes.find((i) => i.regimen_formulation_id === formulationId && (i.slot || undefined) === slot);
+
 // Reusable section wrapper
 function Section({ title, children }: { title: string; children: React.ReactNode }) {
   return (
@@ -43,6 +102,137 @@ function NoData({ message }: { message: string }) {
   return <p className="text-gray-500 text-sm italic">{message}</p>;
 }
 
+// One message in a patient-clinician thread (regimen notes, cycle comments)
+interface ThreadMessage {
+  id: string;
+  author_type: 'patient' | 'clinician';
+  author_id?: string;
+  author?: { full_name?: string };
+  body: string;
+  read_at?: string;
+  created_at: string;
+}
+
+// Patient-clinician thread, oldest message first. The other party's unread messages get a
+// "New" badge and are marked read (markRead is called with threadId) once shown.
+function MessageThread({
+  title,
+  threadId,
+  messages,
+  canPost,
+  emptyMessage,
+  placeholder,
+  markRead,
+  post,
+  onRefresh,
+}: {
+  title: string;
+  threadId: string;
+  messages: ThreadMessage[];
+  canPost: boolean;
+  emptyMessage: string;
+  placeholder: string;
+  markRead: (threadId: string) => Promise<void>;
+  post: (body: string) => Promise<unknown>;
+  onRefresh?: () => void;
+}) {
+  const profile = useProfile();
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const isUnread = (message: ThreadMessage) =>
+    message.author_type !== profile.role && !message.read_at;
+  const hasUnread = messages.some(isUnread);
+
+  // Viewing the thread marks the other party's messages read; "New" badges stay until reload
+  useEffect(() => {
+    if (!hasUnread) return;
+    markRead(threadId).catch((error) => {
+      console.error(`Failed to mark ${title.toLowerCase()} read:`, error);
+    });
+  }, [hasUnread, threadId, markRead, title]);
+
+  const authorLabel = (message: ThreadMessage) => {
+    if (message.author_id === profile.id) return 'You';
+    return message.author?.full_name || (message.author_type === 'clinician' ? 'Clinician' : 'Patient');
+  };
+
+  const handleSend = async () => {
+    const body = draft.trim();
+    if (!body) return;
+
+    setSending(true);
+    try {
+      await post(body);
+      setDraft('');
+      onRefresh?.();
+    } catch (error) {
+      console.error(`Failed to send ${title.toLowerCase()}:`, error);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (messages.length === 0 && !canPost) return null;
+
+  return (
+    <div className="pt-4 border-t">
+      <h4 className="font-medium text-sm mb-2">{title}:</h4>
+      {messages.length === 0 && <NoData message={emptyMessage} />}
+      <div className="space-y-2">
+        {messages.map((message) => (
+          <div
+            key={message.id}
+            className={`text-sm p-2 rounded ${message.author_type === 'clinician' ? 'bg-blue-50' : 'bg-gray-50'}`}
+          >
+            <div className="flex items-center gap-2 text-xs text-gray-600">
+              <span className="font-medium">{authorLabel(message)}</span>
+              <span
+                className={`px-1.5 py-0.5 rounded ${
+                  message.author_type === 'clinician' ? 'bg-blue-100 text-blue-800' : 'bg-gray-200 text-gray-700'
+                }`}
+              >
+                {message.author_type === 'clinician' ? 'Clinician' : 'Patient'}
+              </span>
+              <span>
+                {new Date(message.created_at).toLocaleString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit',
+                })}
+              </span>
+              {isUnread(message) && (
+                <span className="px-1.5 py-0.5 bg-blue-600 text-white rounded">New</span>
+              )}
+            </div>
+            <p className="text-gray-700 mt-1 whitespace-pre-wrap">{message.body}</p>
+          </div>
+        ))}
+      </div>
+
+      {canPost && (
+        <div className="mt-2 space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={placeholder}
+            className="w-full px-3 py-2 text-sm border rounded"
+            rows={2}
+          />
+          <button
+            onClick={handleSend}
+            disabled={sending || !draft.trim()}
+            className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            {sending ? 'Sending...' : profile.role === 'clinician' ? 'Reply' : 'Send'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ============================================================================
 // DAILY TRACKING SECTIONS
 // ============================================================================
@@ -353,6 +543,244 @@ export function EarlyMorningSection({ data, editable }: { data: DailyEntryBundle
   );
 }
 
+// A food's taste and quality tags
+function FoodTags({ food }: { food: Pick<FoodEvent, 'rasas' | 'gunas'> }) {
+  if (food.rasas.length === 0 && food.gunas.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {food.rasas.map((rasa) => (
+        <span key={rasa} className="px-1.5 py-0.5 bg-amber-100 text-amber-800 rounded text-xs">
+          {rasaLabel(rasa)}
+        </span>
+      ))}
+      {food.gunas.map((guna) => (
+        <span key={guna} className="px-1.5 py-0.5 bg-gray-200 text-gray-700 rounded text-xs">
+          {GUNA_LABELS[guna]}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+// Toggle buttons for a food's tastes and qualities; one quality per opposing pair
+function FoodTagPicker({
+  rasas,
+  gunas,
+  onChange,
+}: {
+  rasas: Rasa[];
+  gunas: Guna[];
+  onChange: (tags: { rasas: Rasa[]; gunas: Guna[] }) => void;
+}) {
+  const tagClass = (selected: boolean) =>
+    `px-2 py-0.5 border rounded text-xs ${
+      selected ? 'bg-amber-600 text-white border-amber-600' : 'bg-white hover:bg-gray-100'
+    }`;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-xs text-gray-600 w-16">Tastes:</span>
+        {RASAS.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => onChange({ rasas: toggleRasa(rasas, value), gunas })}
+            className={tagClass(rasas.includes(value))}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-xs text-gray-600 w-16">Qualities:</span>
+        {GUNA_PAIRS.map((pair) => (
+          <span key={pair.join('-')} className="flex gap-0.5 mr-1">
+            {pair.map((guna) => (
+              <button
+                key={guna}
+                type="button"
+                onClick={() => onChange({ rasas, gunas: toggleGuna(gunas, guna) })}
+                className={tagClass(gunas.includes(guna))}
+              >
+                {GUNA_LABELS[guna]}
+              </button>
+            ))}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Add-food form; remember saves the food to the patient's list, or updates the chosen saved
+// food's default tags
+const EMPTY_FOOD = {
+  meal_type: 'breakfast' as const,
+  time: '',
+  description: '',
+  saved_food_id: '',
+  rasas: [] as Rasa[],
+  gunas: [] as Guna[],
+  remember: false,
+};
+
+// How many of the day's foods carry each of the six tastes, and which tastes are missing
+function TasteBalance({ foods }: { foods: FoodEvent[] }) {
+  const tagged = foods.filter((food) => food.rasas.length > 0);
+  if (tagged.length === 0) return null;
+
+  const counts = countRasas(tagged);
+  const missing = RASAS.filter(({ value }) => counts[value] === 0);
+
+  return (
+    <div className="mb-3">
+      <div className="text-xs text-gray-600 mb-1">
+        Taste balance ({tagged.length} of {foods.length} foods tagged)
+      </div>
+      <div className="grid grid-cols-6 gap-1">
+        {RASAS.map(({ value, label }) => (
+          <div
+            key={value}
+            className={`rounded p-1 text-center text-xs ${
+              counts[value] > 0 ? 'bg-amber-100 text-amber-900' : 'bg-gray-100 text-gray-400'
+            }`}
+          >
+            <div>{label}</div>
+            <div className="font-medium">{counts[value]}</div>
+          </div>
+        ))}
+      </div>
+      {missing.length > 0 && (
+        <div className="text-xs text-gray-500 mt-1">
+          Missing today: {missing.map(({ label }) => label).join(', ')}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// A meal's digestion check-in, flagging moderate discomfort or little hunger or energy
+function DigestionCheckinChips({ checkin }: { checkin?: DigestionCheckin }) {
+  if (!checkin) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {answeredQuestions(checkin).map(({ question, value }) => (
+        <span
+          key={question.key}
+          className={`px-1.5 py-0.5 rounded text-xs ${
+            isDigestionConcern(question, value) ? 'bg-orange-100 text-orange-800' : 'bg-green-50 text-green-800'
+          }`}
+        >
+          {question.label}: {question.levels[value]}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+// Ratings of a check-in, with null for the questions it leaves unanswered
+const checkinRatings = (checkin?: DigestionCheckin) =>
+  Object.fromEntries(
+    DIGESTION_QUESTIONS.map(({ key }) => [key, checkin?.[key] ?? null])
+  ) as Record<DigestionRating, number | null>;
+
+// Post-meal check-in. Ratings are drafted locally and saved together on "Done", since saving
+// refreshes the entry; clicking the chosen level again clears it and clearing every rating
+// removes the check-in.
+function DigestionCheckinForm({
+  event,
+  checkin,
+  onRefresh,
+}: {
+  event: FoodEvent;
+  checkin?: DigestionCheckin;
+  onRefresh?: () => void | Promise<void>;
+}) {
+  const [open, setOpen] = useState(false);
+  const [ratings, setRatings] = useState(() => checkinRatings(checkin));
+  const [saving, setSaving] = useState(false);
+
+  const handleOpen = () => {
+    setRatings(checkinRatings(checkin));
+    setOpen(true);
+  };
+
+  const handleRate = (rating: DigestionRating, value: number) => {
+    setRatings((current) => ({ ...current, [rating]: current[rating] === value ? null : value }));
+  };
+
+  const handleDone = useCallback(async () => {
+    setSaving(true);
+    try {
+      if (Object.values(ratings).every((r) => r === null)) {
+        if (checkin) await deleteDigestionCheckin(checkin.id);
+      } else {
+        await upsertDigestionCheckin({
+          food_event_id: event.id,
+          daily_entry_id: event.daily_entry_id,
+          patient_id: event.patient_id,
+          ...ratings,
+        });
+      }
+      setOpen(false);
+      if (onRefresh) await onRefresh();
+    } catch (error) {
+      console.error('Failed to save digestion check-in:', error);
+    } finally {
+      setSaving(false);
+    }
+  }, [ratings, checkin, event.id, event.daily_entry_id, event.patient_id, onRefresh]);
+
+  if (!open) {
+    return (
+      <button
+        onClick={handleOpen}
+        className="text-blue-600 hover:text-blue-800 text-xs mt-1"
+      >
+        {checkin ? 'Edit digestion check-in' : 'How did this digest?'}
+      </button>
+    );
+  }
+
+  return (
+    <div className="border rounded p-2 bg-gray-50 mt-1 space-y-1">
+      {DIGESTION_QUESTIONS.map((question) => (
+        <div key={question.key} className="flex flex-wrap items-center gap-1">
+          <span className="text-xs text-gray-600 w-24">{question.label}:</span>
+          {question.levels.map((level, value) => (
+            <button
+              key={level}
+              onClick={() => handleRate(question.key, value)}
+              className={`px-2 py-0.5 border rounded text-xs ${
+                ratings[question.key] === value
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white hover:bg-gray-100'
+              }`}
+            >
+              {level}
+            </button>
+          ))}
+        </div>
+      ))}
+      <div className="flex items-center space-x-3">
+        <button
+          onClick={handleDone}
+          disabled={saving}
+          className="text-blue-600 hover:text-blue-800 text-xs disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Done'}
+        </button>
+        <button onClick={() => setOpen(false)} className="text-gray-600 hover:text-gray-800 text-xs">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
 export function FoodFluidSection({
   data,
   editable,
@@ -364,6 +792,8 @@ export function FoodFluidSection({
 }) {
   const foodEvents = data.foodEvents;
   const fluidTotals = data.fluidTotals;
+  const checkinFor = (foodEventId: string) =>
+    data.digestionCheckins.find((c) => c.food_event_id === foodEventId);
 
   // Helper to extract time from ISO string (in local timezone)
   const toTime = (isoString: string | undefined) => {
@@ -380,11 +810,10 @@ export function FoodFluidSection({
     total_other_oz: fluidTotals?.total_other_oz?.toString() || '',
   });
 
-  const [newFood, setNewFood] = useState({
-    meal_type: 'breakfast' as const,
-    time: '',
-    description: '',
-  });
+  const [newFood, setNewFood] = useState(EMPTY_FOOD);
+  const savedFood = data.savedFoods.find((food) => food.id === newFood.saved_food_id);
+  const tagsChanged =
+    !!savedFood && (!sameTags(savedFood.rasas, newFood.rasas) || !sameTags(savedFood.gunas, newFood.gunas));
 
   // Helper to safely parse number, returns undefined for invalid input
   const parseNumber = (value: string): number | undefined => {
@@ -416,23 +845,39 @@ export function FoodFluidSection({
         ? new Date(`${data.dailyEntry.date}T${newFood.time}`).toISOString()
         : undefined;
 
+      let savedFoodId = newFood.saved_food_id || undefined;
+      if (newFood.remember && !savedFood) {
+        const saved = await addSavedFood({
+          patient_id: data.dailyEntry.patient_id,
+          label: newFood.description,
+          rasas: newFood.rasas,
+          gunas: newFood.gunas,
+        });
+        savedFoodId = saved.id;
+      } else if (newFood.remember && savedFood && tagsChanged) {
+        await updateSavedFoodTags(savedFood.id, { rasas: newFood.rasas, gunas: newFood.gunas });
+      }
+
       await addFoodEvent({
         daily_entry_id: data.dailyEntry.id,
         patient_id: data.dailyEntry.patient_id,
         meal_type: newFood.meal_type,
         time: timestamp,
         description: newFood.description,
+        saved_food_id: savedFoodId,
+        rasas: newFood.rasas,
+        gunas: newFood.gunas,
       });
 
       // Reset form
-      setNewFood({ meal_type: 'breakfast', time: '', description: '' });
+      setNewFood(EMPTY_FOOD);
 
       // Refresh data without losing unsaved changes
       if (onRefresh) await onRefresh();
     } catch (error) {
       console.error('Failed to add food event:', error);
     }
-  }, [newFood, data.dailyEntry.id, data.dailyEntry.patient_id, data.dailyEntry.date, onRefresh]);
+  }, [newFood, savedFood, tagsChanged, data.dailyEntry.id, data.dailyEntry.patient_id, data.dailyEntry.date, onRefresh]);
 
   const handleDeleteFood = useCallback(async (id: string) => {
     try {
@@ -451,6 +896,7 @@ export function FoodFluidSection({
           {/* Food Events */}
           <div>
             <h4 className="font-medium text-sm mb-2">Meals & Snacks:</h4>
+            <TasteBalance foods={foodEvents} />
             {foodEvents.length > 0 && (
               <div className="space-y-2 mb-3">
                 {foodEvents.map((event) => (
@@ -465,6 +911,9 @@ export function FoodFluidSection({
                       {event.description && (
                         <div className="text-gray-700">{event.description}</div>
                       )}
+                      <FoodTags food={event} />
+                      <DigestionCheckinChips checkin={checkinFor(event.id)} />
+                      <DigestionCheckinForm event={event} checkin={checkinFor(event.id)} onRefresh={onRefresh} />
                     </div>
                     <button
                       onClick={() => handleDeleteFood(event.id)}
@@ -498,13 +947,57 @@ export function FoodFluidSection({
                   className="w-32 px-2 py-1 border rounded text-sm"
                 />
               </div>
+              {data.savedFoods.length > 0 && (
+                <select
+                  value={newFood.saved_food_id}
+                  onChange={(e) => {
+                    // A saved food fills in its label and default tags
+                    const food = data.savedFoods.find((f) => f.id === e.target.value);
+                    setNewFood(
+                      food
+                        ? {
+                            ...newFood,
+                            saved_food_id: food.id,
+                            description: food.label,
+                            rasas: food.rasas,
+                            gunas: food.gunas,
+                            remember: false,
+                          }
+                        : { ...newFood, saved_food_id: '' }
+                    );
+                  }}
+                  className="w-full px-2 py-1 border rounded text-sm"
+                >
+                  <option value="">From my foods...</option>
+                  {data.savedFoods.map((food) => (
+                    <option key={food.id} value={food.id}>{food.label}</option>
+                  ))}
+                </select>
+              )}
               <input
                 type="text"
                 value={newFood.description}
-                onChange={(e) => setNewFood({ ...newFood, description: e.target.value })}
+                onChange={(e) => setNewFood({ ...newFood, description: e.target.value, saved_food_id: '' })}
                 placeholder="What did you eat?"
                 className="w-full px-2 py-1 border rounded text-sm"
               />
+              <FoodTagPicker
+                rasas={newFood.rasas}
+                gunas={newFood.gunas}
+                onChange={(tags) => setNewFood({ ...newFood, ...tags })}
+              />
+              {(!savedFood || tagsChanged) && (
+                <label className="flex items-center space-x-2 text-xs text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={newFood.remember}
+                    onChange={(e) => setNewFood({ ...newFood, remember: e.target.checked })}
+                  />
+                  <span>
+                    {savedFood ? `Use these tags for ${savedFood.label} from now on` : 'Save to my foods'}
+                  </span>
+                </label>
+              )}
               <button
                 onClick={handleAddFood}
                 className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
@@ -560,6 +1053,7 @@ export function FoodFluidSection({
           {foodEvents.length > 0 ? (
             <div className="mb-4">
               <h4 className="font-medium text-sm mb-2">Meals & Snacks:</h4>
+              <TasteBalance foods={foodEvents} />
               <div className="space-y-2">
                 {foodEvents.map((event) => (
                   <div key={event.id} className="text-sm pl-3 border-l-2 border-blue-200">
@@ -572,6 +1066,8 @@ export function FoodFluidSection({
                     {event.description && (
                       <div className="text-gray-700">{event.description}</div>
                     )}
+                    <FoodTags food={event} />
+                    <DigestionCheckinChips checkin={checkinFor(event.id)} />
                   </div>
                 ))}
               </div>
@@ -612,6 +1108,46 @@ export function FoodFluidSection({
   );
 }
 
+// Add-movement form; empty strings and unticked boxes are left out of the saved row
+const EMPTY_MOVEMENT = {
+  time: '',
+  details: '',
+  bristol_type: null as number | null,
+  color: '' as StoolColor | '',
+  ease: '' as BowelEase | '',
+  urgency: '' as BowelUrgency | '',
+  completeness: '' as BowelCompleteness | '',
+  mucus: false,
+  undigested_food: false,
+};
+
+// A movement's structured fields; type 3-4 on the Bristol scale shows green, others amber
+function BowelMovementChips({ movement }: { movement: BowelMovement }) {
+  const labels = describeBowelMovement(movement);
+  if (labels.length === 0) return null;
+
+  const [normalMin, normalMax] = BRISTOL_NORMAL_RANGE;
+  const bristolNormal =
+    !!movement.bristol_type && movement.bristol_type >= normalMin && movement.bristol_type <= normalMax;
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {labels.map((label, index) => (
+        <span
+          key={label}
+          className={`px-1.5 py-0.5 rounded text-xs ${
+            index === 0 && movement.bristol_type
+              ? bristolNormal ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'
+              : 'bg-gray-200 text-gray-700'
+          }`}
+        >
+          {label}
+        </span>
+      ))}
+    </div>
+  );
+}
+
 export function BowelSection({
   data,
   editable,
@@ -623,13 +1159,18 @@ export function BowelSection({
 }) {
   const movements = data.bowelMovements;
 
-  const [newMovement, setNewMovement] = useState({
-    time: '',
-    details: '',
-  });
+  const [newMovement, setNewMovement] = useState(EMPTY_MOVEMENT);
+  const hasStructuredFields =
+    newMovement.bristol_type !== null ||
+    !!newMovement.color ||
+    !!newMovement.ease ||
+    !!newMovement.urgency ||
+    !!newMovement.completeness ||
+    newMovement.mucus ||
+    newMovement.undigested_food;
 
   const handleAddMovement = useCallback(async () => {
-    if (!newMovement.details) return;
+    if (!newMovement.details && !hasStructuredFields) return;
 
     try {
       const timestamp = newMovement.time
@@ -640,15 +1181,22 @@ export function BowelSection({
         daily_entry_id: data.dailyEntry.id,
         patient_id: data.dailyEntry.patient_id,
         time: timestamp,
-        details: newMovement.details,
+        details: newMovement.details || undefined,
+        bristol_type: newMovement.bristol_type,
+        color: newMovement.color || null,
+        ease: newMovement.ease || null,
+        urgency: newMovement.urgency || null,
+        completeness: newMovement.completeness || null,
+        mucus: newMovement.mucus || null,
+        undigested_food: newMovement.undigested_food || null,
       });
 
-      setNewMovement({ time: '', details: '' });
+      setNewMovement(EMPTY_MOVEMENT);
       if (onRefresh) await onRefresh();
     } catch (error) {
       console.error('Failed to add bowel movement:', error);
     }
-  }, [newMovement, data.dailyEntry.id, data.dailyEntry.patient_id, data.dailyEntry.date, onRefresh]);
+  }, [newMovement, hasStructuredFields, data.dailyEntry.id, data.dailyEntry.patient_id, data.dailyEntry.date, onRefresh]);
 
   const handleDeleteMovement = useCallback(async (id: string) => {
     try {
@@ -673,6 +1221,7 @@ export function BowelSection({
                         {new Date(movement.time).toLocaleTimeString()}
                       </div>
                     )}
+                    <BowelMovementChips movement={movement} />
                     {movement.details && (
                       <div className="text-gray-700">{movement.details}</div>
                     )}
@@ -695,11 +1244,101 @@ export function BowelSection({
               onChange={(e) => setNewMovement({ ...newMovement, time: e.target.value })}
               className="w-32 px-2 py-1 border rounded text-sm"
             />
+            <div>
+              <div className="flex items-center gap-1">
+                <span className="text-xs text-gray-600 mr-1">Bristol type:</span>
+                {BRISTOL_TYPES.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    type="button"
+                    title={label}
+                    onClick={() =>
+                      setNewMovement({
+                        ...newMovement,
+                        bristol_type: newMovement.bristol_type === value ? null : value,
+                      })
+                    }
+                    className={`w-7 py-0.5 border rounded text-xs ${
+                      newMovement.bristol_type === value
+                        ? 'bg-green-600 text-white border-green-600'
+                        : 'bg-white hover:bg-gray-100'
+                    }`}
+                  >
+                    {value}
+                  </button>
+                ))}
+              </div>
+              {newMovement.bristol_type !== null && (
+                <div className="text-xs text-gray-500 mt-1">{bristolLabel(newMovement.bristol_type)}</div>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                value={newMovement.color}
+                onChange={(e) => setNewMovement({ ...newMovement, color: e.target.value as StoolColor | '' })}
+                className="px-2 py-1 border rounded text-sm"
+              >
+                <option value="">Color...</option>
+                {STOOL_COLORS.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <select
+                value={newMovement.ease}
+                onChange={(e) => setNewMovement({ ...newMovement, ease: e.target.value as BowelEase | '' })}
+                className="px-2 py-1 border rounded text-sm"
+              >
+                <option value="">Ease...</option>
+                {BOWEL_EASE.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <select
+                value={newMovement.urgency}
+                onChange={(e) => setNewMovement({ ...newMovement, urgency: e.target.value as BowelUrgency | '' })}
+                className="px-2 py-1 border rounded text-sm"
+              >
+                <option value="">Urgency...</option>
+                {BOWEL_URGENCY.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <select
+                value={newMovement.completeness}
+                onChange={(e) =>
+                  setNewMovement({ ...newMovement, completeness: e.target.value as BowelCompleteness | '' })
+                }
+                className="px-2 py-1 border rounded text-sm"
+              >
+                <option value="">Completeness...</option>
+                {BOWEL_COMPLETENESS.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex gap-4 text-xs text-gray-700">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={newMovement.mucus}
+                  onChange={(e) => setNewMovement({ ...newMovement, mucus: e.target.checked })}
+                />
+                <span>Mucus</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={newMovement.undigested_food}
+                  onChange={(e) => setNewMovement({ ...newMovement, undigested_food: e.target.checked })}
+                />
+                <span>Undigested food</span>
+              </label>
+            </div>
             <input
               type="text"
               value={newMovement.details}
               onChange={(e) => setNewMovement({ ...newMovement, details: e.target.value })}
-              placeholder="Details (e.g., Normal consistency)"
+              placeholder="Details (optional)"
               className="w-full px-2 py-1 border rounded text-sm"
             />
             <button
@@ -723,6 +1362,7 @@ export function BowelSection({
                       {new Date(movement.time).toLocaleTimeString()}
                     </div>
                   )}
+                  <BowelMovementChips movement={movement} />
                   {movement.details && (
                     <div className="text-gray-700">{movement.details}</div>
                   )}
@@ -1541,10 +2181,254 @@ export function SymptomsSection({
   );
 }
 
+// ============================================================================
+// CUSTOM FIELDS SECTION
+// ============================================================================
+
+// Input for one custom field. Choices and yes/no save on click, scales on release and
+// numbers and text on blur; clearing the input removes the day's value.
+function CustomFieldInput({
+  field,
+  value,
+  onSave,
+}: {
+  field: CustomField;
+  value?: CustomFieldValue;
+  onSave: (field: CustomField, value: CustomValue | undefined) => Promise<void>;
+}) {
+  const current = value ? customValueOf(value) : undefined;
+  const [draft, setDraft] = useState(current === undefined ? '' : String(current));
+
+  // A scale saves the slider position, so releasing it on its starting value still logs it
+  const saveDraft = (raw = draft) => {
+    if (raw === (current === undefined ? '' : String(current))) return;
+    if (raw.trim() === '') {
+      onSave(field, undefined);
+    } else if (field.field_type === 'text') {
+      onSave(field, raw.trim());
+    } else if (!Number.isNaN(Number(raw))) {
+      onSave(field, Number(raw));
+    }
+  };
+
+  switch (field.field_type) {
+    case 'scale': {
+      const min = field.scale_min ?? 0;
+      const max = field.scale_max ?? 10;
+      return (
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <label className="text-sm font-medium">
+              {field.label}: {current === undefined ? 'not logged' : `${current}/${max}`}
+            </label>
+            {current !== undefined && (
+              <button
+                onClick={() => onSave(field, undefined)}
+                className="text-red-600 hover:text-red-800 text-xs"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+          <input
+            type="range"
+            min={min}
+            max={max}
+            value={draft === '' ? min : draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onMouseUp={(e) => saveDraft(e.currentTarget.value)}
+            onTouchEnd={(e) => saveDraft(e.currentTarget.value)}
+            className={`w-full ${current === undefined ? 'opacity-50' : ''}`}
+          />
+        </div>
+      );
+    }
+    case 'boolean':
+      return (
+        <div className="flex justify-between items-center">
+          <span className="text-sm font-medium">{field.label}</span>
+          <div className="flex space-x-1">
+            {[true, false].map((option) => (
+              <button
+                key={String(option)}
+                onClick={() => onSave(field, current === option ? undefined : option)}
+                className={`px-3 py-1 border rounded text-sm ${
+                  current === option ? 'bg-blue-600 text-white border-blue-600' : 'hover:bg-gray-50'
+                }`}
+              >
+                {option ? 'Yes' : 'No'}
+              </button>
+            ))}
+          </div>
+        </div>
+      );
+    case 'number':
+      return (
+        <div className="flex justify-between items-center">
+          <label className="text-sm font-medium">{field.label}</label>
+          <div className="flex items-center space-x-2">
+            <input
+              type="number"
+              step="any"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onBlur={() => saveDraft()}
+              className="w-28 px-2 py-1 border rounded text-sm"
+            />
+            {field.unit && <span className="text-sm text-gray-600">{field.unit}</span>}
+          </div>
+        </div>
+      );
+    case 'choice':
+      return (
+        <div className="flex justify-between items-center">
+          <label className="text-sm font-medium">{field.label}</label>
+          <select
+            value={current === undefined ? '' : String(current)}
+            onChange={(e) => onSave(field, e.target.value || undefined)}
+            className="px-2 py-1 border rounded text-sm"
+          >
+            <option value="">—</option>
+            {(field.choices || []).map((choice) => (
+              <option key={choice} value={choice}>{choice}</option>
+            ))}
+          </select>
+        </div>
+      );
+    case 'text':
+      return (
+        <div>
+          <label className="block text-sm font-medium mb-1">{field.label}</label>
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={() => saveDraft()}
+            className="w-full px-2 py-1 border rounded text-sm"
+          />
+        </div>
+      );
+  }
+}
+
+// Fields the patient's clinician defined for them. Archived fields are only listed on days
+// that already have a value for them.
+export function CustomFieldsSection({
+  data,
+  editable,
+  onRefresh
+}: {
+  data: DailyEntryBundle;
+  editable?: boolean;
+  onRefresh?: () => void | Promise<void>;
+}) {
+  const values = data.customFieldValues;
+  const valueFor = (fieldId: string) => values.find((v) => v.custom_field_id === fieldId);
+  const fields = data.customFields.filter((field) => !field.archived_at || valueFor(field.id));
+
+  const handleSave = useCallback(async (field: CustomField, value: CustomValue | undefined) => {
+    const existing = values.find((v) => v.custom_field_id === field.id);
+    try {
+      if (value === undefined) {
+        if (existing) await deleteCustomFieldValue(existing.id);
+      } else {
+        await upsertCustomFieldValue({
+          daily_entry_id: data.dailyEntry.id,
+          patient_id: data.dailyEntry.patient_id,
+          custom_field_id: field.id,
+          ...customValueColumns(field, value),
+        });
+      }
+      if (onRefresh) await onRefresh();
+    } catch (error) {
+      console.error('Failed to save custom field value:', error);
+    }
+  }, [values, data.dailyEntry.id, data.dailyEntry.patient_id, onRefresh]);
+
+  // Nothing to ask for until the clinician defines a field
+  if (fields.length === 0) return null;
+
+  return (
+    <Section title="Custom Fields">
+      {editable ? (
+        <div className="space-y-4">
+          {fields.map((field) => (
+            <CustomFieldInput
+              key={field.id}
+              field={field}
+              value={valueFor(field.id)}
+              onSave={handleSave}
+            />
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          {fields.map((field) => {
+            const value = valueFor(field.id);
+            return (
+              <div key={field.id}>
+                <span className="text-gray-600">{field.label}:</span>
+                <span className="font-medium ml-2">
+                  {formatCustomValue(field, value ? customValueOf(value) : undefined)}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Section>
+  );
+}
+
 // ============================================================================
 // CYCLE TRACKING SECTION
 // ============================================================================
 
+// Comments on a cycle day: clinicians annotate the patient's day and the patient responds.
+// Patients comment on their cycle log while the entry is editable; linked clinicians can always
+// comment, and their first comment on a day without cycle data creates its cycle log.
+function CycleCommentThread({
+  data,
+  editable,
+  onRefresh,
+}: {
+  data: DailyEntryBundle;
+  editable: boolean;
+  onRefresh?: () => void;
+}) {
+  const profile = useProfile();
+  const cycleLog = data.cycleLog;
+  if (!cycleLog && profile.role !== 'clinician') return null;
+
+  return (
+    <MessageThread
+      title="Comments"
+      // Without a cycle log there are no comments to mark read
+      threadId={cycleLog?.id ?? ''}
+      messages={data.cycleComments.map(({ text, ...comment }) => ({ ...comment, body: text }))}
+      canPost={profile.role === 'clinician' || editable}
+      emptyMessage="No comments yet"
+      placeholder={
+        profile.role === 'clinician'
+          ? 'Add a note on this cycle day...'
+          : 'Respond to your clinician...'
+      }
+      markRead={markCycleCommentsRead}
+      post={(body) =>
+        profile.role === 'clinician'
+          ? addClinicianCycleComment(data.dailyEntry.id, body)
+          : addCycleComment({
+              cycle_log_id: cycleLog!.id,
+              author_type: profile.role,
+              author_id: profile.id,
+              text: body,
+            })
+      }
+      onRefresh={onRefresh}
+    />
+  );
+}
+
 export function CycleSection({
   data,
   editable,
@@ -1555,7 +2439,7 @@ export function CycleSection({
   onRefresh?: () => void;
 }) {
   const cycleLog = data.cycleLog;
-  const comments = data.cycleComments;
+  const cycleDay = cycleLog?.cycle_day_manual ? cycleLog.cycle_day : data.computedCycleDay;
 
   // Helper to generate key from label
   const generateKey = (label: string) => {
@@ -1568,7 +2452,8 @@ export function CycleSection({
 
   // Form data state
   const [formData, setFormData] = useState({
-    cycle_day: cycleLog?.cycle_day || '',
+    cycle_day: cycleLog?.cycle_day_manual ? cycleLog.cycle_day ?? '' : '',
+    cycle_day_manual: cycleLog?.cycle_day_manual || false,
     physical_symptom_keys: cycleLog?.physical_symptom_keys || [],
     emotional_symptom_keys: cycleLog?.emotional_symptom_keys || [],
     bleeding_quantity: cycleLog?.bleeding_quantity || '',
@@ -1602,6 +2487,10 @@ export function CycleSection({
   // Autosave handler
   const handleSave = useCallback(async (updates?: Partial<typeof formData>) => {
     const dataToSave = updates || formData;
+    // Only a manual override is stored; otherwise the day is computed from period starts
+    const cycleDay = dataToSave.cycle_day_manual && dataToSave.cycle_day
+      ? parseInt(String(dataToSave.cycle_day))
+      : null;
     try {
       if (!cycleLog) {
         // Create new cycle log
@@ -1611,7 +2500,8 @@ export function CycleSection({
           daily_entry_id: data.dailyEntry.id,
           patient_id: data.dailyEntry.patient_id,
           ...dataToSave,
-          cycle_day: dataToSave.cycle_day ? parseInt(String(dataToSave.cycle_day)) : undefined,
+          cycle_day: cycleDay,
+          cycle_day_manual: cycleDay !== null,
           blood_volume: dataToSave.blood_volume ? String(dataToSave.blood_volume) : undefined,
         });
       } else {
@@ -1620,7 +2510,8 @@ export function CycleSection({
           daily_entry_id: data.dailyEntry.id,
           patient_id: data.dailyEntry.patient_id,
           ...dataToSave,
-          cycle_day: dataToSave.cycle_day ? parseInt(String(dataToSave.cycle_day)) : undefined,
+          cycle_day: cycleDay,
+          cycle_day_manual: cycleDay !== null,
           blood_volume: dataToSave.blood_volume ? String(dataToSave.blood_volume) : undefined,
         });
       }
@@ -1681,18 +2572,49 @@ export function CycleSection({
     <Section title="Cycle Tracking">
       {editable ? (
         <div className="space-y-4">
-          {/* Cycle Day Input */}
+          {/* Cycle Day: computed from logged period starts unless overridden */}
           <div>
             <label className="block text-sm font-medium mb-1">Cycle Day</label>
-            <input
-              type="number"
-              min="1"
-              value={formData.cycle_day}
-              onChange={(e) => setFormData({ ...formData, cycle_day: e.target.value })}
-              onBlur={() => handleSave()}
-              placeholder="Enter cycle day (1-40)"
-              className="w-32 px-3 py-2 border rounded text-sm"
-            />
+            {formData.cycle_day_manual ? (
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min="1"
+                  value={formData.cycle_day}
+                  onChange={(e) => setFormData({ ...formData, cycle_day: e.target.value })}
+                  onBlur={() => handleSave()}
+                  autoFocus
+                  className="w-32 px-3 py-2 border rounded text-sm"
+                />
+                <span className="px-2 py-1 bg-yellow-100 text-yellow-800 rounded text-xs">Manual</span>
+                <button
+                  onClick={() => {
+                    const updated = { ...formData, cycle_day: '', cycle_day_manual: false };
+                    setFormData(updated);
+                    handleSave(updated);
+                  }}
+                  className="text-sm text-blue-600 hover:underline"
+                >
+                  Use computed day
+                </button>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 text-sm">
+                <span className={data.computedCycleDay ? '' : 'text-gray-500 italic'}>
+                  {data.computedCycleDay
+                    ? `Day ${data.computedCycleDay}`
+                    : 'Log the first day of bleeding to start counting'}
+                </span>
+                <button
+                  onClick={() =>
+                    setFormData({ ...formData, cycle_day: data.computedCycleDay ?? '', cycle_day_manual: true })
+                  }
+                  className="text-blue-600 hover:underline"
+                >
+                  Override
+                </button>
+              </div>
+            )}
           </div>
 
           {/* Physical Symptoms Checkboxes */}
@@ -1843,31 +2765,19 @@ export function CycleSection({
             </div>
           </div>
 
-          {/* Comments (read-only for now) */}
-          {comments.length > 0 && (
-            <div className="pt-3 border-t">
-              <h4 className="font-medium text-sm mb-2">Comments:</h4>
-              <div className="space-y-2">
-                {comments.map((comment) => (
-                  <div key={comment.id} className="text-sm bg-gray-50 p-2 rounded">
-                    <div className="font-medium text-xs text-gray-600">
-                      {comment.author_type === 'patient' ? 'You' : 'Clinician'}
-                    </div>
-                    <div className="text-gray-700">{comment.text}</div>
-                  </div>
-                ))}
-              </div>
-            </div>
-          )}
+          <CycleCommentThread data={data} editable onRefresh={onRefresh} />
         </div>
       ) : (
         <>
           {cycleLog && (
             <div className="space-y-4">
               {/* Cycle Day */}
-              {cycleLog.cycle_day && (
+              {cycleDay && (
                 <div className="text-sm">
-                  <span className="font-medium">Cycle Day:</span> {cycleLog.cycle_day}
+                  <span className="font-medium">Cycle Day:</span> {cycleDay}
+                  {cycleLog.cycle_day_manual && (
+                    <span className="ml-2 px-2 py-0.5 bg-yellow-100 text-yellow-800 rounded text-xs">Manual</span>
+                  )}
                 </div>
               )}
 
@@ -1913,25 +2823,11 @@ export function CycleSection({
                   {cycleLog.mucus && <div className="text-gray-600">Mucus present</div>}
                 </div>
               )}
-
-              {/* Comments */}
-              {comments.length > 0 && (
-                <div className="pt-3 border-t">
-                  <h4 className="font-medium text-sm mb-2">Comments:</h4>
-                  <div className="space-y-2">
-                    {comments.map((comment) => (
-                      <div key={comment.id} className="text-sm bg-gray-50 p-2 rounded">
-                        <div className="font-medium text-xs text-gray-600">
-                          {comment.author_type === 'patient' ? 'You' : 'Clinician'}
-                        </div>
-                        <div className="text-gray-700">{comment.text}</div>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              )}
             </div>
           )}
+
+          {/* Shown without a cycle log too, so clinicians can annotate any day */}
+          <CycleCommentThread data={data} editable={false} onRefresh={onRefresh} />
         </>
       )}
     </Section>
@@ -1942,6 +2838,46 @@ export function CycleSection({
 // FORMULATIONS & TREATMENTS SECTION
 // ============================================================================
 
+// Per-day conversation about the regimen between patient and clinician.
+// Patients post while the entry is editable; linked clinicians can always reply.
+function RegimenNoteThread({
+  data,
+  editable,
+  onRefresh,
+}: {
+  data: DailyEntryBundle;
+  editable: boolean;
+  onRefresh?: () => void;
+}) {
+  const profile = useProfile();
+
+  return (
+    <MessageThread
+      title="Notes"
+      threadId={data.dailyEntry.id}
+      messages={data.regimenNoteThread}
+      canPost={profile.role === 'clinician' || editable}
+      emptyMessage="No notes yet"
+      placeholder={
+        profile.role === 'clinician'
+          ? 'Reply to the patient...'
+          : 'Add your notes about formulations and treatments...'
+      }
+      markRead={markRegimenNotesRead}
+      post={(body) =>
+        addRegimenNoteMessage({
+          daily_entry_id: data.dailyEntry.id,
+          patient_id: data.dailyEntry.patient_id,
+          author_type: profile.role,
+          author_id: profile.id,
+          body,
+        })
+      }
+      onRefresh={onRefresh}
+    />
+  );
+}
+
 export function RegimenSection({
   data,
   editable,
@@ -1955,17 +2891,18 @@ export function RegimenSection({
   const formulationIntakes = data.formulationIntakes;
   const treatments = data.regimenTreatments;
   const treatmentCompletions = data.treatmentCompletions;
-  const regimenNotes = data.regimenNotes;
 
   // State for formulation intakes
   const [intakeState, setIntakeState] = useState<Record<string, { status: string; notes: string }>>(() => {
     const initial: Record<string, { status: string; notes: string }> = {};
     formulations.forEach((f) => {
-      const existing = formulationIntakes.find((i) => i.regimen_formulation_id === f.id);
-      initial[f.id] = {
-        status: existing?.status || '',
-        notes: existing?.notes || '',
-      };
+      formulationSlots(f).forEach((slot) => {
+        const existing = findFormulationIntake(formulationIntakes, f.id, slot);
+        initial[intakeKey(f.id, slot)] = {
+          status: existing?.status || '',
+          notes: existing?.notes || '',
+        };
+      });
     });
     return initial;
   });
@@ -1983,18 +2920,17 @@ export function RegimenSection({
     return initial;
   });
 
-  // State for regimen note
-  const [regimenNote, setRegimenNote] = useState(regimenNotes?.note || '');
-
   // Sync intakeState when bundle changes
   useEffect(() => {
     const initial: Record<string, { status: string; notes: string }> = {};
     formulations.forEach((f) => {
-      const existing = formulationIntakes.find((i) => i.regimen_formulation_id === f.id);
-      initial[f.id] = {
-        status: existing?.status || '',
-        notes: existing?.notes || '',
-      };
+      formulationSlots(f).forEach((slot) => {
+        const existing = findFormulationIntake(formulationIntakes, f.id, slot);
+        initial[intakeKey(f.id, slot)] = {
+          status: existing?.status || '',
+          notes: existing?.notes || '',
+        };
+      });
     });
     setIntakeState(initial);
   }, [formulations, formulationIntakes]);
@@ -2012,20 +2948,17 @@ export function RegimenSection({
     setCompletionState(initial);
   }, [treatments, treatmentCompletions]);
 
-  // Sync regimenNote when bundle changes
-  useEffect(() => {
-    setRegimenNote(regimenNotes?.note || '');
-  }, [regimenNotes]);
-
-  // Handler for formulation intake status change
-  const handleIntakeStatusChange = useCallback(async (formulationId: string, status: 'taken' | 'skipped' | 'partial') => {
-    const currentNotes = intakeState[formulationId]?.notes;
-    setIntakeState((prev) => ({ ...prev, [formulationId]: { ...prev[formulationId], status } }));
+  // Handler for formulation intake status change (one dose slot)
+  const handleIntakeStatusChange = useCallback(async (formulationId: string, slot: DoseSlot | undefined, status: 'taken' | 'skipped' | 'partial') => {
+    const key = intakeKey(formulationId, slot);
+    const currentNotes = intakeState[key]?.notes;
+    setIntakeState((prev) => ({ ...prev, [key]: { ...prev[key], status } }));
     try {
-      const existing = formulationIntakes.find((i) => i.regimen_formulation_id === formulationId);
+      const existing = findFormulationIntake(formulationIntakes, formulationId, slot);
       await upsertFormulationIntake({
         id: existing?.id,
         regimen_formulation_id: formulationId,
+        slot,
         daily_entry_id: data.dailyEntry.id,
         patient_id: data.dailyEntry.patient_id,
         status,
@@ -2038,19 +2971,22 @@ export function RegimenSection({
   }, [formulationIntakes, data.dailyEntry.id, data.dailyEntry.patient_id, intakeState, onRefresh]);
 
   // Handler for formulation intake notes change
-  const handleIntakeNotesChange = useCallback(async (formulationId: string, notes: string) => {
-    setIntakeState((prev) => ({ ...prev, [formulationId]: { ...prev[formulationId], notes } }));
+  const handleIntakeNotesChange = useCallback(async (formulationId: string, slot: DoseSlot | undefined, notes: string) => {
+    const key = intakeKey(formulationId, slot);
+    setIntakeState((prev) => ({ ...prev, [key]: { ...prev[key], notes } }));
   }, []);
 
-  const handleIntakeNotesBlur = useCallback(async (formulationId: string) => {
-    const currentStatus = intakeState[formulationId]?.status;
+  const handleIntakeNotesBlur = useCallback(async (formulationId: string, slot: DoseSlot | undefined) => {
+    const key = intakeKey(formulationId, slot);
+    const currentStatus = intakeState[key]?.status;
     const statusToSend = currentStatus === '' ? undefined : currentStatus as 'taken' | 'skipped' | 'partial' | undefined;
-    const currentNotes = intakeState[formulationId]?.notes;
+    const currentNotes = intakeState[key]?.notes;
     try {
-      const existing = formulationIntakes.find((i) => i.regimen_formulation_id === formulationId);
+      const existing = findFormulationIntake(formulationIntakes, formulationId, slot);
       await upsertFormulationIntake({
         id: existing?.id,
         regimen_formulation_id: formulationId,
+        slot,
         daily_entry_id: data.dailyEntry.id,
         patient_id: data.dailyEntry.patient_id,
         status: statusToSend,
@@ -2107,21 +3043,6 @@ export function RegimenSection({
     }
   }, [treatmentCompletions, data.dailyEntry.id, data.dailyEntry.patient_id, completionState, onRefresh]);
 
-  // Handler for regimen note
-  const handleRegimenNoteBlur = useCallback(async () => {
-    try {
-      await upsertRegimenNote({
-        id: regimenNotes?.id,
-        daily_entry_id: data.dailyEntry.id,
-        patient_id: data.dailyEntry.patient_id,
-        note: regimenNote || undefined,
-      });
-      onRefresh?.();
-    } catch (error) {
-      console.error('Failed to update regimen note:', error);
-    }
-  }, [regimenNote, regimenNotes?.id, data.dailyEntry.id, data.dailyEntry.patient_id, onRefresh]);
-
   if (!editable) {
     // Read-only view
     return (
@@ -2130,20 +3051,20 @@ export function RegimenSection({
           <div className="mb-6">
             <h4 className="font-medium mb-3">Formulations:</h4>
             <div className="space-y-3">
-              {formulations.map((formulation) => {
-                const intake = formulationIntakes.find(
-                  (i) => i.regimen_formulation_id === formulation.id
-                );
-                return (
-                  <div key={formulation.id} className="border-l-2 border-teal-300 pl-3">
-                    <div className="font-medium text-sm">{formulation.name}</div>
-                    <div className="text-xs text-gray-600 space-y-1">
-                      {formulation.when_label && <div>When: {formulation.when_label}</div>}
-                      {formulation.dose && <div>Dose: {formulation.dose}</div>}
-                      {formulation.with_text && <div>With: {formulation.with_text}</div>}
-                    </div>
-                    {intake && (
-                      <div className="mt-1">
+              {formulations.map((formulation) => (
+                <div key={formulation.id} className="border-l-2 border-teal-300 pl-3">
+                  <div className="font-medium text-sm">{formulation.name}</div>
+                  <div className="text-xs text-gray-600 space-y-1">
+                    {formulation.when_label && <div>When: {formulation.when_label}</div>}
+                    {formulation.dose && <div>Dose: {formulation.dose}</div>}
+                    {formulation.with_text && <div>With: {formulation.with_text}</div>}
+                  </div>
+                  {formulationSlots(formulation).map((slot) => {
+                    const intake = findFormulationIntake(formulationIntakes, formulation.id, slot);
+                    if (!intake) return null;
+                    return (
+                      <div key={intakeKey(formulation.id, slot)} className="mt-1">
+                        {slot && <span className="text-xs text-gray-700 mr-2">{doseSlotLabel(slot)}:</span>}
                         <span className={`text-xs px-2 py-1 rounded ${
                           intake.status === 'taken' ? 'bg-green-100 text-green-800' :
                           intake.status === 'skipped' ? 'bg-red-100 text-red-800' :
@@ -2153,10 +3074,10 @@ export function RegimenSection({
                         </span>
                         {intake.notes && <p className="text-xs text-gray-600 mt-1">{intake.notes}</p>}
                       </div>
-                    )}
-                  </div>
-                );
-              })}
+                    );
+                  })}
+                </div>
+              ))}
             </div>
           </div>
         )}
@@ -2195,25 +3116,7 @@ export function RegimenSection({
           </div>
         )}
 
-        {regimenNotes && (
-          <div className="pt-4 border-t">
-            <h4 className="font-medium text-sm mb-2">Notes:</h4>
-            {regimenNotes.note && (
-              <div className="text-sm mb-2">
-                <span className="font-medium text-gray-600">Your note:</span>
-                <p className="text-gray-700 mt-1">{regimenNotes.note}</p>
-              </div>
-            )}
-            {regimenNotes.reply && (
-              <div className="text-sm bg-blue-50 p-2 rounded">
-                <span className="font-medium text-gray-600">
-                  Reply from {regimenNotes.reply_from}:
-                </span>
-                <p className="text-gray-700 mt-1">{regimenNotes.reply}</p>
-              </div>
-            )}
-          </div>
-        )}
+        <RegimenNoteThread data={data} editable={false} onRefresh={onRefresh} />
 
         {formulations.length === 0 && treatments.length === 0 && (
           <NoData message="No formulations or treatments configured" />
@@ -2239,49 +3142,66 @@ export function RegimenSection({
                   {formulation.with_text && <div>With: {formulation.with_text}</div>}
                 </div>
 
-                {/* Status buttons */}
-                <div className="flex gap-2 mb-2">
-                  <button
-                    onClick={() => handleIntakeStatusChange(formulation.id, 'taken')}
-                    className={`px-3 py-1 text-xs rounded ${
-                      intakeState[formulation.id]?.status === 'taken'
-                        ? 'bg-green-600 text-white'
-                        : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                    }`}
-                  >
-                    Taken
-                  </button>
-                  <button
-                    onClick={() => handleIntakeStatusChange(formulation.id, 'partial')}
-                    className={`px-3 py-1 text-xs rounded ${
-                      intakeState[formulation.id]?.status === 'partial'
-                        ? 'bg-yellow-600 text-white'
-                        : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                    }`}
-                  >
-                    Partial
-                  </button>
-                  <button
-                    onClick={() => handleIntakeStatusChange(formulation.id, 'skipped')}
-                    className={`px-3 py-1 text-xs rounded ${
-                      intakeState[formulation.id]?.status === 'skipped'
-                        ? 'bg-red-600 text-white'
-                        : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                    }`}
-                  >
-                    Skipped
-                  </button>
-                </div>
+                <div className="space-y-3">
+                  {formulationSlots(formulation).map((slot) => {
+                    const key = intakeKey(formulation.id, slot);
+                    const slotTime = formulation.dose_slots?.find((s) => s.slot === slot)?.time;
+                    return (
+                      <div key={key}>
+                        {slot && (
+                          <div className="text-xs font-medium text-gray-700 mb-1">
+                            {doseSlotLabel(slot)}
+                            {slotTime && <span className="text-gray-500 font-normal ml-1">{slotTime}</span>}
+                          </div>
+                        )}
+
+                        {/* Status buttons */}
+                        <div className="flex gap-2 mb-2">
+                          <button
+                            onClick={() => handleIntakeStatusChange(formulation.id, slot, 'taken')}
+                            className={`px-3 py-1 text-xs rounded ${
+                              intakeState[key]?.status === 'taken'
+                                ? 'bg-green-600 text-white'
+                                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                            }`}
+                          >
+                            Taken
+                          </button>
+                          <button
+                            onClick={() => handleIntakeStatusChange(formulation.id, slot, 'partial')}
+                            className={`px-3 py-1 text-xs rounded ${
+                              intakeState[key]?.status === 'partial'
+                                ? 'bg-yellow-600 text-white'
+                                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                            }`}
+                          >
+                            Partial
+                          </button>
+                          <button
+                            onClick={() => handleIntakeStatusChange(formulation.id, slot, 'skipped')}
+                            className={`px-3 py-1 text-xs rounded ${
+                              intakeState[key]?.status === 'skipped'
+                                ? 'bg-red-600 text-white'
+                                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                            }`}
+                          >
+                            Skipped
+                          </button>
+                        </div>
 
-                {/* Notes textarea */}
-                <textarea
-                  value={intakeState[formulation.id]?.notes || ''}
-                  onChange={(e) => handleIntakeNotesChange(formulation.id, e.target.value)}
-                  onBlur={() => handleIntakeNotesBlur(formulation.id)}
-                  placeholder="Optional notes..."
-                  className="w-full px-2 py-1 text-xs border rounded"
-                  rows={2}
-                />
+                        {/* Notes textarea */}
+                        <textarea
+                          value={intakeState[key]?.notes || ''}
+                          onChange={(e) => handleIntakeNotesChange(formulation.id, slot, e.target.value)}
+                          onBlur={() => handleIntakeNotesBlur(formulation.id, slot)}
+                          placeholder="Optional notes..."
+                          className="w-full px-2 py-1 text-xs border rounded"
+                          rows={slot ? 1 : 2}
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
               </div>
             ))}
           </div>
@@ -2350,28 +3270,7 @@ export function RegimenSection({
         </div>
       )}
 
-      {/* Regimen Notes */}
-      <div className="pt-4 border-t">
-        <h4 className="font-medium text-sm mb-2">Your Notes:</h4>
-        <textarea
-          value={regimenNote}
-          onChange={(e) => setRegimenNote(e.target.value)}
-          onBlur={handleRegimenNoteBlur}
-          placeholder="Add your notes about formulations and treatments..."
-          className="w-full px-3 py-2 text-sm border rounded"
-          rows={3}
-        />
-
-        {/* Clinician reply (read-only) */}
-        {regimenNotes?.reply && (
-          <div className="text-sm bg-blue-50 p-2 rounded mt-2">
-            <span className="font-medium text-gray-600">
-              Reply from {regimenNotes.reply_from}:
-            </span>
-            <p className="text-gray-700 mt-1">{regimenNotes.reply}</p>
-          </div>
-        )}
-      </div>
+      <RegimenNoteThread data={data} editable onRefresh={onRefresh} />
 
       {formulations.length === 0 && treatments.length === 0 && (
         <NoData message="No formulations or treatments configured" />
@@ -0,0 +1,227 @@
+// Clinician form for recording or editing a tongue and pulse observation
+import { useState } from 'react';
+import type { ClinicalObservation, Dosha } from '../../types/db';
+import { addClinicalObservation, updateClinicalObservation } from '../../lib/api/dailyEntry';
+import type { ClinicalObservationInput } from '../../lib/api/dailyEntry';
+import { DOSHAS, DOSHA_LABELS } from '../../lib/dosha';
+import {
+  PULSE_LEVELS,
+  PULSE_QUALITIES,
+  PULSE_STRENGTHS,
+  TONGUE_COATINGS,
+  TONGUE_COATING_COLORS,
+  TONGUE_COLORS,
+  TONGUE_CRACKS,
+} from '../../lib/observations';
+import { useProfile } from '../../hooks/useAuth';
+
+// Select and text values; an empty string leaves the field unrecorded
+interface ObservationFormValues {
+  observed_on: string;
+  tongue_coating: string;
+  tongue_coating_color: string;
+  tongue_color: string;
+  tongue_cracks: string;
+  pulse: Record<Dosha, string>;
+  pulse_rate: string;
+  pulse_strength: string;
+  notes: string;
+}
+
+const toFormValues = (observation: ClinicalObservation): ObservationFormValues => ({
+  observed_on: observation.observed_on,
+  tongue_coating: observation.tongue_coating ?? '',
+  tongue_coating_color: observation.tongue_coating_color ?? '',
+  tongue_color: observation.tongue_color ?? '',
+  tongue_cracks: observation.tongue_cracks ?? '',
+  pulse: {
+    vata: observation.vata_pulse?.toString() ?? '',
+    pitta: observation.pitta_pulse?.toString() ?? '',
+    kapha: observation.kapha_pulse?.toString() ?? '',
+  },
+  pulse_rate: observation.pulse_rate?.toString() ?? '',
+  pulse_strength: observation.pulse_strength ?? '',
+  notes: observation.notes ?? '',
+});
+
+const emptyForm = (date: string): ObservationFormValues => ({
+  observed_on: date,
+  tongue_coating: '',
+  tongue_coating_color: '',
+  tongue_color: '',
+  tongue_cracks: '',
+  pulse: { vata: '', pitta: '', kapha: '' },
+  pulse_rate: '',
+  pulse_strength: '',
+  notes: '',
+});
+
+// Observation columns from the form, or an error message
+const toObservationInput = (values: ObservationFormValues): ClinicalObservationInput | string => {
+  if (!values.observed_on) return 'Date is required';
+
+  const rate = values.pulse_rate.trim() === '' ? null : Number(values.pulse_rate);
+  if (rate !== null && (!Number.isInteger(rate) || rate < 20 || rate > 250)) {
+    return 'Pulse rate must be a whole number of beats per minute (20-250)';
+  }
+  const level = (value: string) => (value === '' ? null : Number(value));
+
+  return {
+    observed_on: values.observed_on,
+    tongue_coating: (values.tongue_coating || null) as ClinicalObservationInput['tongue_coating'],
+    tongue_coating_color: (values.tongue_coating_color || null) as ClinicalObservationInput['tongue_coating_color'],
+    tongue_color: (values.tongue_color || null) as ClinicalObservationInput['tongue_color'],
+    tongue_cracks: (values.tongue_cracks || null) as ClinicalObservationInput['tongue_cracks'],
+    vata_pulse: level(values.pulse.vata),
+    pitta_pulse: level(values.pulse.pitta),
+    kapha_pulse: level(values.pulse.kapha),
+    pulse_rate: rate,
+    pulse_strength: (values.pulse_strength || null) as ClinicalObservationInput['pulse_strength'],
+    notes: values.notes.trim() || null,
+  };
+};
+
+export function ObservationForm({
+  patientId,
+  observation,
+  defaultDate,
+  onSaved,
+  onCancel,
+}: {
+  patientId: string;
+  observation?: ClinicalObservation; // Set when editing
+  defaultDate: string; // YYYY-MM-DD, for a new observation
+  onSaved: () => Promise<void>;
+  onCancel: () => void;
+}) {
+  const profile = useProfile();
+  const [form, setForm] = useState(() => (observation ? toFormValues(observation) : emptyForm(defaultDate)));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input = toObservationInput(form);
+    if (typeof input === 'string') {
+      setError(input);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      if (observation) {
+        await updateClinicalObservation(observation.id, input);
+      } else {
+        await addClinicalObservation({ ...input, patient_id: patientId, clinician_id: profile.id });
+      }
+      await onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save observation');
+      console.error('Failed to save observation:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const select = (
+    label: string,
+    value: string,
+    options: { value: string; label: string }[],
+    onChange: (value: string) => void
+  ) => (
+    <label className="block text-xs text-gray-600">
+      {label}
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="block w-full mt-1 px-2 py-1 border rounded text-sm text-gray-900"
+      >
+        <option value="">Not recorded</option>
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="border rounded p-3 bg-gray-50 space-y-3">
+      <label className="block text-xs text-gray-600 w-40">
+        Date
+        <input
+          type="date"
+          value={form.observed_on}
+          onChange={(e) => setForm({ ...form, observed_on: e.target.value })}
+          className="block w-full mt-1 px-2 py-1 border rounded text-sm text-gray-900"
+        />
+      </label>
+
+      <div>
+        <h4 className="font-medium text-sm mb-1">Tongue</h4>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {select('Coating', form.tongue_coating, TONGUE_COATINGS, (v) => setForm({ ...form, tongue_coating: v }))}
+          {select('Coating color', form.tongue_coating_color, TONGUE_COATING_COLORS, (v) =>
+            setForm({ ...form, tongue_coating_color: v })
+          )}
+          {select('Body color', form.tongue_color, TONGUE_COLORS, (v) => setForm({ ...form, tongue_color: v }))}
+          {select('Cracks', form.tongue_cracks, TONGUE_CRACKS, (v) => setForm({ ...form, tongue_cracks: v }))}
+        </div>
+      </div>
+
+      <div>
+        <h4 className="font-medium text-sm mb-1">Pulse (nadi)</h4>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+          {DOSHAS.map((dosha) => (
+            <div key={dosha}>
+              {select(
+                `${DOSHA_LABELS[dosha]} (${PULSE_QUALITIES[dosha]})`,
+                form.pulse[dosha],
+                PULSE_LEVELS.map((label, level) => ({ value: String(level), label })),
+                (v) => setForm({ ...form, pulse: { ...form.pulse, [dosha]: v } })
+              )}
+            </div>
+          ))}
+          <label className="block text-xs text-gray-600">
+            Rate (bpm)
+            <input
+              type="number"
+              step="1"
+              value={form.pulse_rate}
+              onChange={(e) => setForm({ ...form, pulse_rate: e.target.value })}
+              className="block w-full mt-1 px-2 py-1 border rounded text-sm text-gray-900"
+            />
+          </label>
+          {select('Strength', form.pulse_strength, PULSE_STRENGTHS, (v) => setForm({ ...form, pulse_strength: v }))}
+        </div>
+      </div>
+
+      <textarea
+        value={form.notes}
+        onChange={(e) => setForm({ ...form, notes: e.target.value })}
+        placeholder="Notes"
+        rows={3}
+        className="w-full px-2 py-1 border rounded text-sm"
+      />
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1 border rounded text-sm hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : observation ? 'Save Observation' : 'Add Observation'}
+        </button>
+      </div>
+    </form>
+  );
+}
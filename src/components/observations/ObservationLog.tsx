@@ -0,0 +1,189 @@
+// Clinician panel for tongue and pulse observations: markers on a timeline over the tracker
+// range, the chosen observation's findings, and the form to record or edit one
+import { useState } from 'react';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { ClinicalObservation } from '../../types/db';
+import { deleteClinicalObservation } from '../../lib/api/dailyEntry';
+import { describePulse, describeTongue } from '../../lib/observations';
+import { useProfile } from '../../hooks/useAuth';
+import { ObservationForm } from './ObservationForm';
+
+// Timeline geometry (SVG user units)
+const WIDTH = 640;
+const HEIGHT = 44;
+const PADDING = { top: 8, right: 12, bottom: 16, left: 12 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const AXIS_Y = HEIGHT - PADDING.bottom - 6;
+
+// One marker per observation date in range; several observations on a day share a marker
+function ObservationTimeline({
+  observations,
+  fromDate,
+  toDate,
+  selectedDate,
+  onSelect,
+}: {
+  observations: ClinicalObservation[];
+  fromDate: string;
+  toDate: string;
+  selectedDate?: string;
+  onSelect: (observation: ClinicalObservation) => void;
+}) {
+  const firstDate = parseISO(fromDate);
+  const dayCount = Math.max(differenceInCalendarDays(parseISO(toDate), firstDate) + 1, 1);
+  const x = (date: string) =>
+    PADDING.left + ((differenceInCalendarDays(parseISO(date), firstDate) + 0.5) / dayCount) * PLOT_WIDTH;
+
+  // Latest observation of each day
+  const byDate = new Map(observations.map((o) => [o.observed_on, o]));
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full max-w-3xl">
+      <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={AXIS_Y} y2={AXIS_Y} className="stroke-gray-200" />
+      <text x={PADDING.left} y={HEIGHT - 4} textAnchor="start" className="fill-gray-500 text-[10px]">
+        {fromDate.slice(5)}
+      </text>
+      <text x={WIDTH - PADDING.right} y={HEIGHT - 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+        {toDate.slice(5)}
+      </text>
+      {[...byDate.entries()].map(([date, observation]) => (
+        <g key={date} onClick={() => onSelect(observation)} className="cursor-pointer">
+          <line x1={x(date)} x2={x(date)} y1={PADDING.top + 6} y2={AXIS_Y} className="stroke-teal-300" />
+          <circle
+            cx={x(date)}
+            cy={PADDING.top + 6}
+            r={5}
+            className={date === selectedDate ? 'fill-teal-700' : 'fill-teal-500'}
+          >
+            <title>
+              {date}: {[...describeTongue(observation), ...describePulse(observation)].join(', ') || 'Notes only'}
+            </title>
+          </circle>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+export function ObservationLog({
+  patientId,
+  observations,
+  fromDate,
+  toDate,
+  onChange,
+}: {
+  patientId: string;
+  observations: ClinicalObservation[]; // Oldest first
+  fromDate: string;
+  toDate: string;
+  onChange: () => Promise<void>;
+}) {
+  const profile = useProfile();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // 'new' while recording an observation, or the observation being edited
+  const [editing, setEditing] = useState<ClinicalObservation | 'new' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const inRange = observations.filter((o) => o.observed_on >= fromDate && o.observed_on <= toDate);
+  const selected = observations.find((o) => o.id === selectedId);
+  const sameDay = selected ? observations.filter((o) => o.observed_on === selected.observed_on) : [];
+
+  const handleSaved = async () => {
+    setEditing(null);
+    await onChange();
+  };
+
+  const handleDelete = async (observation: ClinicalObservation) => {
+    setError(null);
+    try {
+      await deleteClinicalObservation(observation.id);
+      setSelectedId(null);
+      await onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete observation');
+      console.error('Failed to delete observation:', err);
+    }
+  };
+
+  return (
+    <div className="bg-white border rounded-lg p-4 mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <div>
+          <h3 className="font-semibold">Tongue &amp; Pulse Observations</h3>
+          <p className="text-xs text-gray-500">
+            Clinicians only. {inRange.length} in this range; click a marker to see the findings.
+          </p>
+        </div>
+        {!editing && (
+          <button
+            onClick={() => setEditing('new')}
+            className="px-3 py-1 border rounded text-sm hover:bg-gray-50"
+          >
+            + Record Observation
+          </button>
+        )}
+      </div>
+
+      {fromDate && toDate && (
+        <ObservationTimeline
+          observations={inRange}
+          fromDate={fromDate}
+          toDate={toDate}
+          selectedDate={selected?.observed_on}
+          onSelect={(observation) => setSelectedId(observation.id)}
+        />
+      )}
+
+      {editing && (
+        <ObservationForm
+          key={editing === 'new' ? 'new' : editing.id}
+          patientId={patientId}
+          observation={editing === 'new' ? undefined : editing}
+          defaultDate={format(new Date(), 'yyyy-MM-dd')}
+          onSaved={handleSaved}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {!editing && sameDay.map((observation) => {
+        const tongue = describeTongue(observation);
+        const pulse = describePulse(observation);
+        return (
+          <div key={observation.id} className="border rounded p-3 mt-2 text-sm space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">{format(parseISO(observation.observed_on), 'MMM d, yyyy')}</span>
+              {observation.clinician_id === profile.id && (
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => setEditing(observation)}
+                    className="text-blue-600 hover:text-blue-800 text-sm"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(observation)}
+                    className="text-red-600 hover:text-red-800 text-sm"
+                  >
+                    Delete
+                  </button>
+                </div>
+              )}
+            </div>
+            {tongue.length > 0 && (
+              <div>
+                <span className="text-gray-600">Tongue:</span> {tongue.join(', ')}
+              </div>
+            )}
+            {pulse.length > 0 && (
+              <div>
+                <span className="text-gray-600">Pulse:</span> {pulse.join(', ')}
+              </div>
+            )}
+            {observation.notes && <div className="text-gray-700 whitespace-pre-wrap">{observation.notes}</div>}
+          </div>
+        );
+      })}
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+import { useState } from 'react';
+import type { FormulationDoseSlot, TreatmentScheduleType } from '../../types/db';
+import { DOSE_SLOTS } from '../../lib/regimen';
+
+export type RegimenKind = 'formulation' | 'treatment';
+
+// Text fields are strings where empty means "not set"
+export interface RegimenFormValues {
+  name: string;
+  when_label: string;
+  dose: string;
+  with_text: string;
+  body_region: string;
+  start_date: string;
+  stop_date: string;
+  instructions: string;
+  dose_slots: FormulationDoseSlot[];
+  schedule_type: TreatmentScheduleType;
+  times_per_week: string;
+  weekdays: number[];
+  interval_days: string;
+}
+
+const SCHEDULE_TYPES: { value: TreatmentScheduleType; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'times_per_week', label: 'Times per week' },
+  { value: 'weekdays', label: 'Specific weekdays' },
+  { value: 'every_n_days', label: 'Every N days' },
+];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Kind-specific text fields shown between name and dates
+const DETAIL_FIELDS: Record<
+  RegimenKind,
+  { key: 'when_label' | 'dose' | 'with_text' | 'body_region'; label: string; placeholder: string }[]
+> = {
+  formulation: [
+    { key: 'when_label', label: 'When', placeholder: 'with breakfast' },
+    { key: 'dose', label: 'Dose', placeholder: '2 capsules' },
+    { key: 'with_text', label: 'With', placeholder: 'warm water' },
+  ],
+  treatment: [
+    { key: 'when_label', label: 'When', placeholder: 'evening' },
+    { key: 'body_region', label: 'Body region', placeholder: 'lower abdomen' },
+  ],
+};
+
+export function RegimenItemForm({
+  kind,
+  initialValues,
+  submitLabel,
+  startDateLabel = 'Start date',
+  minStartDate,
+  onSubmit,
+  onCancel,
+}: {
+  kind: RegimenKind;
+  initialValues: RegimenFormValues;
+  submitLabel: string;
+  startDateLabel?: string;
+  minStartDate?: string;
+  onSubmit: (values: RegimenFormValues) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const [values, setValues] = useState<RegimenFormValues>(initialValues);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleDoseSlot = (slot: FormulationDoseSlot['slot']) => {
+    const selected = values.dose_slots.some((s) => s.slot === slot);
+    setValues({
+      ...values,
+      dose_slots: selected
+        ? values.dose_slots.filter((s) => s.slot !== slot)
+        : [...values.dose_slots, { slot }],
+    });
+  };
+
+  const toggleWeekday = (day: number) => {
+    setValues({
+      ...values,
+      weekdays: values.weekdays.includes(day)
+        ? values.weekdays.filter((d) => d !== day)
+        : [...values.weekdays, day].sort((a, b) => a - b),
+    });
+  };
+
+  const setDoseSlotTime = (slot: FormulationDoseSlot['slot'], time: string) => {
+    setValues({
+      ...values,
+      dose_slots: values.dose_slots.map((s) => (s.slot === slot ? { slot, time: time || undefined } : s)),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (values.stop_date && values.stop_date < values.start_date) {
+      setError(`Stop date cannot be before the ${startDateLabel.toLowerCase()}`);
+      return;
+    }
+    if (kind === 'treatment' && values.schedule_type === 'weekdays' && values.weekdays.length === 0) {
+      setError('Pick at least one weekday');
+      return;
+    }
+    if (minStartDate && values.start_date < minStartDate) {
+      setError(`${startDateLabel} cannot be before ${minStartDate}`);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit(values);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save');
+      console.error(`Failed to save ${kind}:`, err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="border rounded p-3 bg-gray-50 space-y-2">
+      <div>
+        <label className="block text-xs text-gray-600 mb-1">Name</label>
+        <input
+          type="text"
+          required
+          value={values.name}
+          onChange={(e) => setValues({ ...values, name: e.target.value })}
+          className="w-full px-2 py-1 border rounded text-sm"
+        />
+      </div>
+      <div className={`grid gap-2 ${kind === 'formulation' ? 'grid-cols-3' : 'grid-cols-2'}`}>
+        {DETAIL_FIELDS[kind].map(({ key, label, placeholder }) => (
+          <div key={key}>
+            <label className="block text-xs text-gray-600 mb-1">{label}</label>
+            <input
+              type="text"
+              value={values[key]}
+              onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+              placeholder={placeholder}
+              className="w-full px-2 py-1 border rounded text-sm"
+            />
+          </div>
+        ))}
+      </div>
+      {kind === 'formulation' && (
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">
+            Dose times (leave all unchecked for a single daily dose)
+          </label>
+          <div className="grid grid-cols-4 gap-2">
+            {DOSE_SLOTS.map(({ value, label }) => {
+              const doseSlot = values.dose_slots.find((s) => s.slot === value);
+              return (
+                <div key={value} className="space-y-1">
+                  <label className="flex items-center space-x-1 text-sm">
+                    <input type="checkbox" checked={!!doseSlot} onChange={() => toggleDoseSlot(value)} />
+                    <span>{label}</span>
+                  </label>
+                  {doseSlot && (
+                    <input
+                      type="time"
+                      value={doseSlot.time || ''}
+                      onChange={(e) => setDoseSlotTime(value, e.target.value)}
+                      className="w-full px-2 py-1 border rounded text-sm"
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+      {kind === 'treatment' && (
+        <div className="flex flex-wrap items-end gap-2">
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Schedule</label>
+            <select
+              value={values.schedule_type}
+              onChange={(e) => setValues({ ...values, schedule_type: e.target.value as TreatmentScheduleType })}
+              className="px-2 py-1 border rounded text-sm"
+            >
+              {SCHEDULE_TYPES.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          {values.schedule_type === 'times_per_week' && (
+            <input
+              type="number"
+              required
+              min={1}
+              max={7}
+              value={values.times_per_week}
+              onChange={(e) => setValues({ ...values, times_per_week: e.target.value })}
+              placeholder="Times"
+              className="w-20 px-2 py-1 border rounded text-sm"
+            />
+          )}
+          {values.schedule_type === 'every_n_days' && (
+            <input
+              type="number"
+              required
+              min={2}
+              value={values.interval_days}
+              onChange={(e) => setValues({ ...values, interval_days: e.target.value })}
+              placeholder="Days"
+              className="w-20 px-2 py-1 border rounded text-sm"
+            />
+          )}
+          {values.schedule_type === 'weekdays' && (
+            <div className="flex gap-1">
+              {WEEKDAYS.map((label, day) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => toggleWeekday(day)}
+                  className={`px-2 py-1 text-xs rounded ${
+                    values.weekdays.includes(day)
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">{startDateLabel}</label>
+          <input
+            type="date"
+            required
+            min={minStartDate}
+            value={values.start_date}
+            onChange={(e) => setValues({ ...values, start_date: e.target.value })}
+            className="w-full px-2 py-1 border rounded text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Stop date (optional)</label>
+          <input
+            type="date"
+            value={values.stop_date}
+            min={values.start_date}
+            onChange={(e) => setValues({ ...values, stop_date: e.target.value })}
+            className="w-full px-2 py-1 border rounded text-sm"
+          />
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs text-gray-600 mb-1">Instructions</label>
+        <textarea
+          value={values.instructions}
+          onChange={(e) => setValues({ ...values, instructions: e.target.value })}
+          rows={2}
+          className="w-full px-2 py-1 border rounded text-sm"
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600">Error: {error}</p>}
+
+      <div className="flex space-x-2">
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : submitLabel}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1 border rounded text-sm hover:bg-gray-100"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
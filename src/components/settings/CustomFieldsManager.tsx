@@ -0,0 +1,285 @@
+// Clinician editor for a patient's custom tracking fields: add, edit, archive and restore
+import { useState } from 'react';
+import type { CustomField, CustomFieldType } from '../../types/db';
+import { createCustomField, updateCustomField } from '../../lib/api/dailyEntry';
+import type { CustomFieldInput } from '../../lib/api/dailyEntry';
+import { CUSTOM_FIELD_TYPES, describeCustomField } from '../../lib/customFields';
+import { useProfile } from '../../hooks/useAuth';
+
+interface FieldFormValues {
+  id?: string; // Set when editing an existing field
+  label: string;
+  field_type: CustomFieldType;
+  scale_min: string;
+  scale_max: string;
+  unit: string;
+  choices: string; // Comma separated
+}
+
+const EMPTY_FORM: FieldFormValues = {
+  label: '',
+  field_type: 'scale',
+  scale_min: '0',
+  scale_max: '10',
+  unit: '',
+  choices: '',
+};
+
+const toFormValues = (field: CustomField): FieldFormValues => ({
+  id: field.id,
+  label: field.label,
+  field_type: field.field_type,
+  scale_min: field.scale_min?.toString() ?? '0',
+  scale_max: field.scale_max?.toString() ?? '10',
+  unit: field.unit ?? '',
+  choices: (field.choices || []).join(', '),
+});
+
+// Definition columns for the chosen type, or an error message
+const toFieldInput = (values: FieldFormValues): CustomFieldInput | string => {
+  const label = values.label.trim();
+  if (!label) return 'Label is required';
+
+  const input: CustomFieldInput = {
+    label,
+    field_type: values.field_type,
+    scale_min: null,
+    scale_max: null,
+    unit: null,
+    choices: null,
+  };
+  if (values.field_type === 'scale') {
+    const min = Number(values.scale_min);
+    const max = Number(values.scale_max);
+    if (!Number.isInteger(min) || !Number.isInteger(max) || min >= max) {
+      return 'Scale needs whole numbers with the minimum below the maximum';
+    }
+    input.scale_min = min;
+    input.scale_max = max;
+  }
+  if (values.field_type === 'number') {
+    input.unit = values.unit.trim() || null;
+  }
+  if (values.field_type === 'choice') {
+    const choices = [...new Set(values.choices.split(',').map((c) => c.trim()).filter(Boolean))];
+    if (choices.length < 2) return 'Choice fields need at least two choices';
+    input.choices = choices;
+  }
+  return input;
+};
+
+export function CustomFieldsManager({
+  patientId,
+  fields,
+  sectionShown,
+  onChange,
+}: {
+  patientId: string;
+  fields: CustomField[];
+  sectionShown: boolean; // Whether the Custom Fields section is in the patient's daily sections
+  onChange: () => Promise<void>;
+}) {
+  const profile = useProfile();
+  const [form, setForm] = useState<FieldFormValues | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeFields = fields.filter((f) => !f.archived_at);
+  const archivedFields = fields.filter((f) => f.archived_at);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    const input = toFieldInput(form);
+    if (typeof input === 'string') {
+      setError(input);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      if (form.id) {
+        // The type is fixed once values may have been logged against it
+        const { label, scale_min, scale_max, unit, choices } = input;
+        await updateCustomField(form.id, { label, scale_min, scale_max, unit, choices });
+      } else {
+        await createCustomField({ ...input, patient_id: patientId, created_by: profile.id });
+      }
+      setForm(null);
+      await onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save custom field');
+      console.error('Failed to save custom field:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setArchived = async (field: CustomField, archived: boolean) => {
+    setError(null);
+    try {
+      await updateCustomField(field.id, {
+        archived_at: archived ? new Date().toISOString() : null,
+      });
+      await onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update custom field');
+      console.error('Failed to archive custom field:', err);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {!sectionShown && activeFields.length > 0 && (
+        <p className="text-xs text-yellow-700">
+          The Custom Fields section is hidden in this patient's daily sections, so they are not asked
+          for these fields.
+        </p>
+      )}
+
+      {activeFields.length === 0 && !form && (
+        <p className="text-sm text-gray-500 italic">No custom fields</p>
+      )}
+      {activeFields.map((field) => (
+        <div key={field.id} className="flex items-center justify-between border rounded px-3 py-2">
+          <div>
+            <span className="text-sm font-medium">{field.label}</span>
+            <span className="text-xs text-gray-500 ml-2">{describeCustomField(field)}</span>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              type="button"
+              onClick={() => setForm(toFormValues(field))}
+              className="text-blue-600 hover:text-blue-800 text-sm"
+            >
+              Edit
+            </button>
+            <button
+              type="button"
+              onClick={() => setArchived(field, true)}
+              className="text-red-600 hover:text-red-800 text-sm"
+            >
+              Archive
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {form ? (
+        <form onSubmit={handleSubmit} className="border rounded p-3 bg-gray-50 space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={form.label}
+              onChange={(e) => setForm({ ...form, label: e.target.value })}
+              placeholder="Label (e.g., Joint stiffness)"
+              className="flex-1 px-2 py-1 border rounded text-sm"
+            />
+            <select
+              value={form.field_type}
+              onChange={(e) => setForm({ ...form, field_type: e.target.value as CustomFieldType })}
+              disabled={!!form.id}
+              className="px-2 py-1 border rounded text-sm disabled:bg-gray-100"
+            >
+              {CUSTOM_FIELD_TYPES.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          {form.field_type === 'scale' && (
+            <div className="flex items-center gap-2 text-sm">
+              <span>From</span>
+              <input
+                type="number"
+                step="1"
+                value={form.scale_min}
+                onChange={(e) => setForm({ ...form, scale_min: e.target.value })}
+                className="w-20 px-2 py-1 border rounded"
+              />
+              <span>to</span>
+              <input
+                type="number"
+                step="1"
+                value={form.scale_max}
+                onChange={(e) => setForm({ ...form, scale_max: e.target.value })}
+                className="w-20 px-2 py-1 border rounded"
+              />
+            </div>
+          )}
+          {form.field_type === 'number' && (
+            <input
+              type="text"
+              value={form.unit}
+              onChange={(e) => setForm({ ...form, unit: e.target.value })}
+              placeholder="Unit (optional, e.g., flashes, km)"
+              className="w-full px-2 py-1 border rounded text-sm"
+            />
+          )}
+          {form.field_type === 'choice' && (
+            <input
+              type="text"
+              value={form.choices}
+              onChange={(e) => setForm({ ...form, choices: e.target.value })}
+              placeholder="Choices, comma separated (e.g., None, Mild, Strong)"
+              className="w-full px-2 py-1 border rounded text-sm"
+            />
+          )}
+          {form.id && (
+            <p className="text-xs text-gray-500">The type cannot change once a field is created.</p>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => {
+                setForm(null);
+                setError(null);
+              }}
+              className="px-3 py-1 border rounded text-sm hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : form.id ? 'Save Field' : 'Add Field'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button
+            type="button"
+            onClick={() => setForm(EMPTY_FORM)}
+            className="px-3 py-1 border rounded text-sm hover:bg-gray-50"
+          >
+            + Add Field
+          </button>
+        </>
+      )}
+
+      {archivedFields.length > 0 && (
+        <div className="pt-2">
+          <div className="text-xs text-gray-600 mb-1">Archived fields (logged values are kept)</div>
+          <div className="flex flex-wrap gap-2">
+            {archivedFields.map((field) => (
+              <button
+                key={field.id}
+                type="button"
+                onClick={() => setArchived(field, false)}
+                className="px-2 py-0.5 border rounded text-sm text-gray-600 hover:bg-gray-50"
+              >
+                Restore {field.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+// Clinician editor for a patient's daily entry sections: shown or hidden, order and required
+import type { DailySectionKey, DailySectionSetting } from '../../types/db';
+import { DAILY_SECTIONS, dailySectionLabel } from '../../lib/dailySections';
+
+export function DailySectionsEditor({
+  sections,
+  cycleTrackingEnabled,
+  onChange,
+}: {
+  sections: DailySectionSetting[]; // Shown sections in order
+  cycleTrackingEnabled: boolean;
+  onChange: (sections: DailySectionSetting[]) => void;
+}) {
+  const hidden = DAILY_SECTIONS.filter(({ key }) => !sections.some((s) => s.key === key));
+
+  const move = (index: number, offset: number) => {
+    const next = [...sections];
+    const [section] = next.splice(index, 1);
+    next.splice(index + offset, 0, section);
+    onChange(next);
+  };
+
+  const setRequired = (key: DailySectionKey, required: boolean) =>
+    onChange(sections.map((s) => (s.key === key ? { ...s, required } : s)));
+
+  return (
+    <div className="space-y-2">
+      {sections.length === 0 && (
+        <p className="text-sm text-gray-500 italic">No sections shown</p>
+      )}
+      {sections.map(({ key, required }, index) => (
+        <div key={key} className="flex items-center justify-between border rounded px-3 py-2">
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-gray-500 w-5">{index + 1}.</span>
+            <span className="text-sm font-medium">{dailySectionLabel(key)}</span>
+            {key === 'cycle' && !cycleTrackingEnabled && (
+              <span className="text-xs text-gray-500">(hidden while cycle tracking is off)</span>
+            )}
+          </div>
+          <div className="flex items-center space-x-3">
+            <label className="flex items-center space-x-1 text-sm">
+              <input
+                type="checkbox"
+                checked={required}
+                onChange={(e) => setRequired(key, e.target.checked)}
+              />
+              <span>Required</span>
+            </label>
+            <button
+              type="button"
+              onClick={() => move(index, -1)}
+              disabled={index === 0}
+              className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+              aria-label={`Move ${dailySectionLabel(key)} up`}
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              onClick={() => move(index, 1)}
+              disabled={index === sections.length - 1}
+              className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+              aria-label={`Move ${dailySectionLabel(key)} down`}
+            >
+              ↓
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange(sections.filter((s) => s.key !== key))}
+              className="text-red-600 hover:text-red-800 text-sm"
+            >
+              Hide
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {hidden.length > 0 && (
+        <div className="pt-2">
+          <div className="text-xs text-gray-600 mb-1">Hidden sections</div>
+          <div className="flex flex-wrap gap-2">
+            {hidden.map(({ key, label }) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => onChange([...sections, { key, required: false }])}
+                className="px-2 py-0.5 border rounded text-sm text-gray-600 hover:bg-gray-50"
+              >
+                + {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import type { CycleGroup } from '../../lib/cycles';
+import { convertTemperature, detectThermalShift, temperatureUnit } from '../../lib/bbt';
+import type { BbtReading, TemperatureUnit } from '../../lib/bbt';
+
+// Chart geometry (SVG user units)
+const WIDTH = 640;
+const HEIGHT = 200;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 44 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+// One cycle's readings, by cycle day, against bleeding days and any detected shift
+function CycleBbtChart({
+  cycle,
+  readings,
+  unit,
+  maxDay,
+}: {
+  cycle: CycleGroup;
+  readings: BbtReading[];
+  unit: TemperatureUnit;
+  maxDay: number;
+}) {
+  const shift = detectThermalShift(readings, unit);
+
+  const temps = readings.map((r) => r.temperature);
+  const padding = unit === 'F' ? 0.2 : 0.1;
+  const minTemp = Math.min(...temps) - padding;
+  const maxTemp = Math.max(...temps) + padding;
+
+  const dayWidth = PLOT_WIDTH / maxDay;
+  const x = (cycleDay: number) => PADDING.left + (cycleDay - 0.5) * dayWidth;
+  const y = (temp: number) => PADDING.top + ((maxTemp - temp) / (maxTemp - minTemp)) * PLOT_HEIGHT;
+
+  const bleedingDays = [...cycle.days.entries()]
+    .filter(([, day]) => day.bleeding_quantity)
+    .map(([cycleDay]) => cycleDay);
+  const tempTicks = [0, 1, 2, 3].map((i) => minTemp + ((maxTemp - minTemp) * i) / 3);
+  const dayTicks = Array.from({ length: maxDay }, (_, i) => i + 1).filter((d) => d === 1 || d % 7 === 0);
+
+  return (
+    <div>
+      <div className="text-sm font-medium mb-1">
+        Cycle starting {cycle.startDate}
+        <span className="ml-2 text-xs font-normal text-gray-600">
+          {shift
+            ? `Thermal shift from day ${shift.firstHighDay} · probable ovulation around day ${shift.ovulationDay}`
+            : 'No sustained thermal shift detected'}
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full max-w-3xl">
+        {/* Bleeding days */}
+        {bleedingDays.map((cycleDay) => (
+          <rect
+            key={cycleDay}
+            x={x(cycleDay) - dayWidth / 2}
+            y={PADDING.top}
+            width={dayWidth}
+            height={PLOT_HEIGHT}
+            className="fill-red-100"
+          >
+            <title>Day {cycleDay}: bleeding</title>
+          </rect>
+        ))}
+
+        {/* Axes */}
+        {tempTicks.map((temp) => (
+          <g key={temp}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(temp)} y2={y(temp)} className="stroke-gray-200" />
+            <text x={PADDING.left - 4} y={y(temp) + 3} textAnchor="end" className="fill-gray-500 text-[10px]">
+              {temp.toFixed(unit === 'F' ? 1 : 2)}
+            </text>
+          </g>
+        ))}
+        {dayTicks.map((cycleDay) => (
+          <text key={cycleDay} x={x(cycleDay)} y={HEIGHT - 6} textAnchor="middle" className="fill-gray-500 text-[10px]">
+            {cycleDay}
+          </text>
+        ))}
+
+        {/* Coverline and probable ovulation */}
+        {shift && (
+          <>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(shift.coverline)}
+              y2={y(shift.coverline)}
+              strokeDasharray="4 3"
+              className="stroke-blue-400"
+            >
+              <title>Coverline {shift.coverline.toFixed(2)}°{unit}</title>
+            </line>
+            <line
+              x1={x(shift.ovulationDay) + dayWidth / 2}
+              x2={x(shift.ovulationDay) + dayWidth / 2}
+              y1={PADDING.top}
+              y2={PADDING.top + PLOT_HEIGHT}
+              strokeDasharray="2 2"
+              className="stroke-green-600"
+            >
+              <title>Probable ovulation around day {shift.ovulationDay}</title>
+            </line>
+          </>
+        )}
+
+        {/* Readings */}
+        <polyline
+          points={readings.map((r) => `${x(r.cycleDay)},${y(r.temperature)}`).join(' ')}
+          fill="none"
+          strokeWidth={1.5}
+          className="stroke-purple-500"
+        />
+        {readings.map((r) => (
+          <circle key={r.cycleDay} cx={x(r.cycleDay)} cy={y(r.temperature)} r={3} className="fill-purple-600">
+            <title>
+              Day {r.cycleDay}: {r.temperature.toFixed(2)}°{unit}
+            </title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+}
+
+// Basal body temperature by cycle day, one chart per cycle (newest first), with bleeding
+// days shaded and the 3-over-6 thermal shift marked. Readings are converted to one unit.
+export function BbtChart({ cycles }: { cycles: CycleGroup[] }) {
+  const logged = cycles.flatMap((cycle) =>
+    [...cycle.days.values()]
+      .filter((day) => day.early_am_temp !== undefined && day.early_am_temp !== null)
+      .map((day) => temperatureUnit(day.early_am_temp_unit, Number(day.early_am_temp)))
+  );
+  const loggedUnit: TemperatureUnit = logged.filter((u) => u === 'C').length > logged.length / 2 ? 'C' : 'F';
+  const [chosenUnit, setChosenUnit] = useState<TemperatureUnit | null>(null);
+  const unit = chosenUnit ?? loggedUnit;
+
+  if (logged.length === 0) return null;
+
+  const charts = cycles
+    .map((cycle) => ({
+      cycle,
+      readings: [...cycle.days.entries()]
+        .filter(([, day]) => day.early_am_temp !== undefined && day.early_am_temp !== null)
+        .sort(([a], [b]) => a - b)
+        .map(([cycleDay, day]) => {
+          const value = Number(day.early_am_temp);
+          return {
+            cycleDay,
+            temperature: convertTemperature(value, temperatureUnit(day.early_am_temp_unit, value), unit),
+          };
+        }),
+    }))
+    .filter(({ readings }) => readings.length > 0);
+  const maxDay = Math.max(...cycles.map((c) => Math.max(c.lastDay, c.length ?? 0)));
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Basal Body Temperature</h3>
+          <p className="text-xs text-gray-500">
+            Early-AM temperatures by cycle day; bleeding days shaded. Ovulation is marked where
+            three readings rise above the six before them (3-over-6 rule).
+          </p>
+        </div>
+        <div className="flex gap-1">
+          {(['F', 'C'] as TemperatureUnit[]).map((u) => (
+            <button
+              key={u}
+              onClick={() => setChosenUnit(u)}
+              className={`px-2 py-1 rounded text-sm ${
+                unit === u ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              °{u}
+            </button>
+          ))}
+        </div>
+      </div>
+      {charts.map(({ cycle, readings }) => (
+        <CycleBbtChart key={cycle.startDate} cycle={cycle} readings={readings} unit={unit} maxDay={maxDay} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { BRISTOL_NORMAL_RANGE, bristolLabel } from '../../lib/bowel';
+
+// Chart geometry (SVG user units)
+const WIDTH = 640;
+const HEIGHT = 140;
+const PADDING = { top: 10, right: 12, bottom: 20, left: 44 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+const TICKS = [1, 2, 3, 4, 5, 6, 7];
+
+interface BristolDay {
+  date: string; // YYYY-MM-DD
+  bristol_types: number[];
+}
+
+// Bristol stool types over the tracker range: a point per typed movement, a line through each
+// day's average, and the healthy range (types 3-4) shaded
+export function BristolTrend({
+  days,
+  onDayClick,
+}: {
+  days: BristolDay[];
+  onDayClick: (date: string) => void;
+}) {
+  const sorted = [...days].sort((a, b) => a.date.localeCompare(b.date));
+  const typedDays = sorted.filter((day) => day.bristol_types.length > 0);
+  if (typedDays.length === 0) return null;
+
+  const firstDate = parseISO(sorted[0].date);
+  const dayCount = differenceInCalendarDays(parseISO(sorted[sorted.length - 1].date), firstDate) + 1;
+
+  const dayWidth = PLOT_WIDTH / dayCount;
+  const x = (date: string) =>
+    PADDING.left + (differenceInCalendarDays(parseISO(date), firstDate) + 0.5) * dayWidth;
+  const y = (type: number) => PADDING.top + ((7 - type) / 6) * PLOT_HEIGHT;
+  const average = (types: number[]) => types.reduce((sum, t) => sum + t, 0) / types.length;
+  const [normalMin, normalMax] = BRISTOL_NORMAL_RANGE;
+
+  return (
+    <div className="border rounded-lg p-4">
+      <h3 className="font-semibold">Bristol Stool Trend</h3>
+      <p className="text-xs text-gray-500 mb-2">
+        Type 1 (hard) to 7 (watery) per bowel movement, healthy range shaded; click a point to open that day.
+      </p>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full max-w-3xl">
+        {/* Healthy range */}
+        <rect
+          x={PADDING.left}
+          y={y(normalMax)}
+          width={PLOT_WIDTH}
+          height={y(normalMin) - y(normalMax)}
+          className="fill-green-50"
+        />
+
+        {/* Axes */}
+        {TICKS.map((tick) => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} className="stroke-gray-200" />
+            <text x={PADDING.left - 4} y={y(tick) + 3} textAnchor="end" className="fill-gray-500 text-[10px]">
+              {tick}
+            </text>
+          </g>
+        ))}
+        <text x={x(sorted[0].date)} y={HEIGHT - 6} textAnchor="start" className="fill-gray-500 text-[10px]">
+          {sorted[0].date.slice(5)}
+        </text>
+        <text x={x(sorted[sorted.length - 1].date)} y={HEIGHT - 6} textAnchor="end" className="fill-gray-500 text-[10px]">
+          {sorted[sorted.length - 1].date.slice(5)}
+        </text>
+
+        {/* Daily average */}
+        <polyline
+          points={typedDays.map((day) => `${x(day.date)},${y(average(day.bristol_types))}`).join(' ')}
+          fill="none"
+          strokeWidth={1.5}
+          className="stroke-green-500"
+        />
+
+        {/* Movements */}
+        {typedDays.flatMap((day) =>
+          day.bristol_types.map((type, index) => (
+            <circle
+              key={`${day.date}-${index}`}
+              cx={x(day.date)}
+              cy={y(type)}
+              r={3}
+              onClick={() => onDayClick(day.date)}
+              className={`cursor-pointer ${
+                type >= normalMin && type <= normalMax ? 'fill-green-600' : 'fill-amber-600'
+              }`}
+            >
+              <title>
+                {day.date}: {bristolLabel(type)}
+              </title>
+            </circle>
+          ))
+        )}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { CustomField, CustomValues } from '../../types/db';
+import { chartValue, formatCustomValue, isChartable } from '../../lib/customFields';
+
+// Chart geometry (SVG user units)
+const WIDTH = 640;
+const HEIGHT = 120;
+const PADDING = { top: 10, right: 12, bottom: 20, left: 44 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+interface CustomFieldDay {
+  date: string; // YYYY-MM-DD
+  custom_values: CustomValues;
+}
+
+// Value range of the y axis: the scale itself, 0-1 for yes/no and the logged range for numbers
+const valueRange = (field: CustomField, values: number[]): [number, number] => {
+  if (field.field_type === 'scale') return [field.scale_min ?? 0, field.scale_max ?? 10];
+  if (field.field_type === 'boolean') return [0, 1];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return min === max ? [min - 1, max + 1] : [min, max];
+};
+
+// One field's logged values over the date range; gaps between logged days are left open
+function CustomFieldChart({
+  field,
+  days,
+  onDayClick,
+}: {
+  field: CustomField;
+  days: CustomFieldDay[];
+  onDayClick: (date: string) => void;
+}) {
+  const points = days
+    .map((day) => ({ date: day.date, raw: day.custom_values[field.id], value: chartValue(day.custom_values[field.id]) }))
+    .filter((p): p is { date: string; raw: CustomValues[string]; value: number } => p.value !== null);
+  if (points.length === 0) return null;
+
+  const firstDate = parseISO(days[0].date);
+  const dayCount = differenceInCalendarDays(parseISO(days[days.length - 1].date), firstDate) + 1;
+  const [minValue, maxValue] = valueRange(field, points.map((p) => p.value));
+
+  const dayWidth = PLOT_WIDTH / dayCount;
+  const x = (date: string) =>
+    PADDING.left + (differenceInCalendarDays(parseISO(date), firstDate) + 0.5) * dayWidth;
+  const y = (value: number) =>
+    PADDING.top + ((maxValue - value) / (maxValue - minValue)) * PLOT_HEIGHT;
+  const ticks = field.field_type === 'boolean' ? [0, 1] : [minValue, (minValue + maxValue) / 2, maxValue];
+
+  return (
+    <div>
+      <div className="text-sm font-medium mb-1">{field.label}</div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full max-w-3xl">
+        {/* Axes */}
+        {ticks.map((tick) => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} className="stroke-gray-200" />
+            <text x={PADDING.left - 4} y={y(tick) + 3} textAnchor="end" className="fill-gray-500 text-[10px]">
+              {field.field_type === 'boolean' ? (tick ? 'Yes' : 'No') : Number(tick.toFixed(1))}
+            </text>
+          </g>
+        ))}
+        <text x={x(days[0].date)} y={HEIGHT - 6} textAnchor="start" className="fill-gray-500 text-[10px]">
+          {days[0].date.slice(5)}
+        </text>
+        <text x={x(days[days.length - 1].date)} y={HEIGHT - 6} textAnchor="end" className="fill-gray-500 text-[10px]">
+          {days[days.length - 1].date.slice(5)}
+        </text>
+
+        {/* Values */}
+        <polyline
+          points={points.map((p) => `${x(p.date)},${y(p.value)}`).join(' ')}
+          fill="none"
+          strokeWidth={1.5}
+          className="stroke-amber-500"
+        />
+        {points.map((p) => (
+          <circle
+            key={p.date}
+            cx={x(p.date)}
+            cy={y(p.value)}
+            r={3}
+            onClick={() => onDayClick(p.date)}
+            className="fill-amber-600 cursor-pointer"
+          >
+            <title>
+              {p.date}: {formatCustomValue(field, p.raw)}
+            </title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+}
+
+// Trend lines for a patient's scale, number and yes/no custom fields over the tracker range.
+// Choice and text fields are listed per day in the lenses instead.
+export function CustomFieldTrends({
+  fields,
+  days,
+  onDayClick,
+}: {
+  fields: CustomField[];
+  days: CustomFieldDay[];
+  onDayClick: (date: string) => void;
+}) {
+  const sorted = [...days].sort((a, b) => a.date.localeCompare(b.date));
+  const charted = fields.filter(
+    (field) => isChartable(field) && sorted.some((day) => day.custom_values[field.id] !== undefined)
+  );
+  if (charted.length === 0) return null;
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div>
+        <h3 className="font-semibold">Custom Field Trends</h3>
+        <p className="text-xs text-gray-500">Logged values by day; click a point to open that day.</p>
+      </div>
+      {charted.map((field) => (
+        <CustomFieldChart key={field.id} field={field} days={sorted} onDayClick={onDayClick} />
+      ))}
+    </div>
+  );
+}
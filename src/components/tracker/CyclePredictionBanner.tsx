@@ -0,0 +1,43 @@
+import { format, parseISO } from 'date-fns';
+import type { CyclePrediction } from '../../lib/cycles';
+
+const formatDay = (date: string) => format(parseISO(date), 'MMM d');
+
+// Next-period and fertile-window estimate, always labelled as an estimate
+export function CyclePredictionBanner({ prediction }: { prediction: CyclePrediction }) {
+  const { nextPeriod, ovulation, fertileWindow } = prediction;
+
+  return (
+    <div className="border border-purple-200 bg-purple-50 rounded-lg p-4 text-sm">
+      <div className="flex items-center gap-2 mb-2">
+        <span className="px-2 py-0.5 bg-purple-200 text-purple-800 rounded text-xs font-medium">Estimate</span>
+        <span className="text-xs text-gray-600">Confidence: {prediction.confidence}</span>
+      </div>
+      <div>
+        <span className="font-medium">
+          {prediction.late ? 'Period expected by' : 'Next period'}:
+        </span>{' '}
+        around {formatDay(nextPeriod.likely)} ({formatDay(nextPeriod.earliest)} – {formatDay(nextPeriod.latest)})
+        {prediction.late && <span className="text-gray-600"> · later than estimated, log bleeding when it starts</span>}
+      </div>
+      {/* The ovulation estimate for a late period is already in the past */}
+      {!prediction.late && (
+        <div>
+          <span className="font-medium">Likely ovulation:</span> {formatDay(ovulation.earliest)} –{' '}
+          {formatDay(ovulation.latest)}
+          <span className="text-gray-600">
+            {' '}· fertile window {formatDay(fertileWindow.start)} – {formatDay(fertileWindow.end)}
+          </span>
+        </div>
+      )}
+      <p className="text-xs text-gray-500 mt-2">
+        {prediction.cyclesUsed === 0
+          ? 'Based on a typical 28-day cycle until a full cycle is logged.'
+          : `Based on ${prediction.cyclesUsed} logged ${prediction.cyclesUsed === 1 ? 'cycle' : 'cycles'} averaging ${prediction.averageLength} days${
+              prediction.variability !== undefined ? ` (±${prediction.variability})` : ''
+            }.`}{' '}
+        Estimates only - not a substitute for contraception or medical advice.
+      </p>
+    </div>
+  );
+}
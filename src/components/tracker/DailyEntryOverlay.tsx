@@ -1,6 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
-import { getDailyEntryBundle, getPatientConfig } from '../../lib/api/dailyEntry';
-import { differenceInCalendarDays } from 'date-fns';
+import { getDailyEntryBundle, getExistingDailyEntryBundle, getPatientConfig } from '../../lib/api/dailyEntry';
+import { canEditEntry } from '../../lib/editWindow';
+import type { DailyEntryBundle, PatientConfig } from '../../types/db';
+import { resolveDailySections } from '../../lib/dailySections';
+import { DailyEntrySections, EditWindowStatus } from '../daily-entry/DailyEntrySections';
 
 export function DailyEntryOverlay({
   patientId,
@@ -13,21 +16,20 @@ export function DailyEntryOverlay({
   onClose: () => void;
   readOnly?: boolean;
 }) {
-  const [bundle, setBundle] = useState<any>(null);
-  const [patientConfig, setPatientConfig] = useState<any>(null);
+  const [bundle, setBundle] = useState<DailyEntryBundle | null>(null);
+  const [patientConfig, setPatientConfig] = useState<PatientConfig | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const isEditable = !readOnly && patientConfig
-    ? differenceInCalendarDays(new Date(), new Date(date)) <= patientConfig.edit_window_days
-    : false;
+  const isEditable = canEditEntry(date, patientConfig, readOnly);
 
   const fetchData = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
+      // Read-only viewers cannot create the entry, so only load an existing one
       const [bundleData, configData] = await Promise.all([
-        getDailyEntryBundle(patientId, date),
+        readOnly ? getExistingDailyEntryBundle(patientId, date) : getDailyEntryBundle(patientId, date),
         getPatientConfig(patientId),
       ]);
       setBundle(bundleData);
@@ -38,7 +40,7 @@ export function DailyEntryOverlay({
     } finally {
       setLoading(false);
     }
-  }, [patientId, date]);
+  }, [patientId, date, readOnly]);
 
   useEffect(() => {
     fetchData();
@@ -52,15 +54,11 @@ export function DailyEntryOverlay({
             <h2 className="text-2xl font-bold">Daily Entry - {date}</h2>
             {patientConfig && (
               <p className="text-sm mt-1">
-                {readOnly ? (
-                  <span className="text-blue-600 font-medium">👁️ Read-Only (Clinician View)</span>
-                ) : isEditable ? (
-                  <span className="text-green-600 font-medium">✓ Editable</span>
-                ) : (
-                  <span className="text-gray-500">
-                    Read-only (outside {patientConfig.edit_window_days}-day edit window)
-                  </span>
-                )}
+                <EditWindowStatus
+                  readOnly={readOnly}
+                  editable={isEditable}
+                  editWindowDays={patientConfig.edit_window_days}
+                />
               </p>
             )}
           </div>
@@ -82,55 +80,18 @@ export function DailyEntryOverlay({
           </div>
         ) : bundle ? (
           <div className="p-6">
-            <p className="text-sm text-gray-600 mb-4">
-              Daily entry content integrated. All sections from PatientDailyEntryPage will be displayed here.
-              For now showing placeholder - full integration requires importing all section components.
-            </p>
-            <div className="space-y-4 text-sm">
-              <div className="border rounded p-3">
-                <h3 className="font-semibold mb-2">Energy Levels</h3>
-                <div className="grid grid-cols-2 gap-2 text-xs">
-                  {bundle.dailyEntry.energy_physical !== undefined && (
-                    <div>Physical: {bundle.dailyEntry.energy_physical}/10</div>
-                  )}
-                  {bundle.dailyEntry.energy_mental !== undefined && (
-                    <div>Mental: {bundle.dailyEntry.energy_mental}/10</div>
-                  )}
-                  {bundle.dailyEntry.energy_emotional !== undefined && (
-                    <div>Emotional: {bundle.dailyEntry.energy_emotional}/10</div>
-                  )}
-                  {bundle.dailyEntry.energy_drive !== undefined && (
-                    <div>Drive: {bundle.dailyEntry.energy_drive}/10</div>
-                  )}
-                </div>
-              </div>
-              <div className="border rounded p-3">
-                <h3 className="font-semibold mb-2">Activity Summary</h3>
-                <ul className="text-xs space-y-1">
-                  <li>Foods: {bundle.foodEvents.length}</li>
-                  <li>Bowel Movements: {bundle.bowelMovements.length}</li>
-                  <li>Exercise Events: {bundle.exerciseEvents.length}</li>
-                  <li>Vital Readings: {bundle.vitalReadings.length}</li>
-                  <li>Medications: {bundle.medicationIntakes.length}</li>
-                  <li>Symptoms: {bundle.symptomLogs.length}</li>
-                </ul>
-              </div>
-              {bundle.cycleLog && (
-                <div className="border rounded p-3">
-                  <h3 className="font-semibold mb-2">Cycle Tracking</h3>
-                  <p className="text-xs">Cycle log present for this date</p>
-                </div>
-              )}
-              <div className="border rounded p-3">
-                <h3 className="font-semibold mb-2">Regimen</h3>
-                <ul className="text-xs space-y-1">
-                  <li>Formulations: {bundle.regimenFormulations.length}</li>
-                  <li>Treatments: {bundle.regimenTreatments.length}</li>
-                </ul>
-              </div>
-            </div>
+            <DailyEntrySections
+              bundle={bundle}
+              editable={isEditable}
+              sections={resolveDailySections(patientConfig)}
+              onRefresh={fetchData}
+            />
           </div>
-        ) : null}
+        ) : (
+          <div className="p-6 text-center">
+            <p className="text-gray-600">No entry logged for this date.</p>
+          </div>
+        )}
       </div>
     </div>
   );
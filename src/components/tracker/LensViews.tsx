@@ -1,11 +1,104 @@
-import type { DailySummary, CycleDaySummary } from '../../types/db';
+import type {
+  CustomField,
+  CustomValues,
+  DailySummary,
+  CycleDaySummary,
+  WeeklyRasaCount,
+} from '../../types/db';
+import { formatAdherence } from '../../lib/adherence';
+import { CYCLE_PHASES, cyclePhase, groupCycles } from '../../lib/cycles';
+import type { CyclePhase, CyclePrediction } from '../../lib/cycles';
+import { CyclePredictionBanner } from './CyclePredictionBanner';
+import { BbtChart } from './BbtChart';
+import { CustomFieldTrends } from './CustomFieldTrends';
+import { TasteDistribution } from './TasteDistribution';
+import { BristolTrend } from './BristolTrend';
+import { formatCustomValue, visibleCustomFields } from '../../lib/customFields';
+import { DIGESTION_QUESTIONS, isDigestionConcern } from '../../lib/digestion';
 
-// Daily Lens View Component
+// Whether treatments were scheduled on a day, instead of a per-day percentage
+function TreatmentDueStatus({ due, done }: { due: number; done: number }) {
+  if (due === 0) {
+    return <span className="text-gray-500">Not due{done > 0 && ' · done'}</span>;
+  }
+
+  const allDone = done >= due;
+  return (
+    <span className={allDone ? 'text-green-700' : 'text-red-700'}>
+      Due · {Math.min(done, due)}/{due} done
+    </span>
+  );
+}
+
+// A day's custom field values as "Label: value" lines; fields not logged that day are left out
+function CustomValueList({ fields, values }: { fields: CustomField[]; values: CustomValues }) {
+  const logged = fields.filter((field) => values[field.id] !== undefined);
+  if (logged.length === 0) return <div className="text-gray-400">-</div>;
+
+  return (
+    <>
+      {logged.map((field) => (
+        <div key={field.id}>
+          {field.label}: {formatCustomValue(field, values[field.id])}
+        </div>
+      ))}
+    </>
+  );
+}
+
+// Average post-meal ratings for a day (out of 3), flagging moderate discomfort or little hunger
+// or energy; nothing when no meal was checked in on
+function DigestionSummaryRow({ summary }: { summary: DailySummary }) {
+  if (summary.digestion_checkins === 0) return null;
+
+  return (
+    <div className="mt-3 bg-orange-50 rounded p-2 text-xs flex flex-wrap gap-x-4 gap-y-1">
+      <span className="text-gray-600">
+        Digestion ({summary.digestion_checkins} of {summary.food_count} meals checked in)
+      </span>
+      {DIGESTION_QUESTIONS.map((question) => {
+        const average = summary[`avg_${question.key}`];
+        if (average === null) return null;
+        return (
+          <span
+            key={question.key}
+            className={isDigestionConcern(question, average) ? 'text-orange-800 font-medium' : ''}
+          >
+            {question.label}: {average}/3
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+// Marks a day with a clinician tongue and pulse observation
+function ObservationMarker() {
+  return (
+    <span
+      className="px-1.5 py-0.5 bg-teal-100 text-teal-800 rounded text-xs"
+      title="Tongue and pulse observation recorded"
+    >
+      Observation
+    </span>
+  );
+}
+
+// Daily Lens View Component (the cycle chip is left out while cycle tracking is off)
+// observationDates is only passed by the clinician tracker
 export function DailyLensView({
   summaries,
+  customFields,
+  rasaCounts,
+  cycleTrackingEnabled,
+  observationDates,
   onDayClick,
 }: {
   summaries: DailySummary[];
+  customFields: CustomField[];
+  rasaCounts: WeeklyRasaCount[];
+  cycleTrackingEnabled: boolean;
+  observationDates?: Set<string>;
   onDayClick: (date: string) => void;
 }) {
   if (summaries.length === 0) {
@@ -16,8 +109,14 @@ export function DailyLensView({
     );
   }
 
+  const fields = visibleCustomFields(customFields, summaries.map((s) => s.custom_values));
+
   return (
     <div className="space-y-6">
+      <CustomFieldTrends fields={fields} days={summaries} onDayClick={onDayClick} />
+      <TasteDistribution counts={rasaCounts} />
+      <BristolTrend days={summaries} onDayClick={onDayClick} />
+
       {summaries.map((summary) => (
         <div
           key={summary.date}
@@ -26,7 +125,10 @@ export function DailyLensView({
         >
           <div className="flex items-center justify-between mb-3">
             <div>
-              <h3 className="text-lg font-semibold">{summary.date}</h3>
+              <div className="flex items-center gap-2">
+                <h3 className="text-lg font-semibold">{summary.date}</h3>
+                {observationDates?.has(summary.date) && <ObservationMarker />}
+              </div>
               <p className="text-sm text-gray-600">
                 {(() => {
                   // Parse date as local to avoid timezone display issues
@@ -81,100 +183,246 @@ export function DailyLensView({
             <div className="bg-blue-50 rounded p-2">
               <div className="text-xs text-gray-600 mb-1">Adherence</div>
               <div className="text-xs space-y-1">
-                <div>💊 {summary.formulation_adherence_percent}%</div>
-                <div>🩺 {summary.treatment_adherence_percent}%</div>
+                <div>💊 {formatAdherence(summary.formulation_adherence_percent)}</div>
+                <div>
+                  🩺 <TreatmentDueStatus due={summary.treatments_due} done={summary.treatments_done} />
+                </div>
+                <div className="text-gray-500">Treatments, 7 days: {formatAdherence(summary.treatment_adherence_percent)}</div>
               </div>
             </div>
 
             {/* Cycle */}
-            <div className="bg-pink-50 rounded p-2">
-              <div className="text-xs text-gray-600 mb-1">Cycle</div>
-              <div className="text-xs">
-                {summary.has_cycle_log ? '✓ Logged' : '○ No log'}
+            {cycleTrackingEnabled && (
+              <div className="bg-pink-50 rounded p-2">
+                <div className="text-xs text-gray-600 mb-1">Cycle</div>
+                <div className="text-xs">
+                  {summary.has_cycle_log ? '✓ Logged' : '○ No log'}
+                </div>
               </div>
-            </div>
+            )}
+
+            {/* Custom fields */}
+            {fields.length > 0 && (
+              <div className="bg-amber-50 rounded p-2">
+                <div className="text-xs text-gray-600 mb-1">Custom</div>
+                <div className="text-xs space-y-1">
+                  <CustomValueList fields={fields} values={summary.custom_values} />
+                </div>
+              </div>
+            )}
           </div>
+
+          <DigestionSummaryRow summary={summary} />
         </div>
       ))}
     </div>
   );
 }
 
+// Background for a cycle day cell by phase
+const PHASE_STYLES: Record<CyclePhase, string> = {
+  menstrual: 'bg-red-50',
+  follicular: 'bg-white',
+  ovulatory: 'bg-green-50',
+  luteal: 'bg-purple-50',
+};
+
+const PHASE_LABELS: Record<CyclePhase, string> = {
+  menstrual: 'Menstrual',
+  follicular: 'Follicular',
+  ovulatory: 'Ovulatory',
+  luteal: 'Luteal',
+};
+
+const formatAverage = (value: number | null) => (value === null ? '-' : value.toFixed(1));
+
+// One logged day in the cycle grid
+function CycleDayCell({
+  day,
+  customFields,
+  observed,
+  onClick,
+}: {
+  day: CycleDaySummary;
+  customFields: CustomField[];
+  observed: boolean;
+  onClick: () => void;
+}) {
+  const customLogged = customFields.some((field) => day.custom_values[field.id] !== undefined);
+  const symptoms = [...(day.physical_symptom_keys || []), ...(day.emotional_symptom_keys || [])];
+
+  return (
+    <div onClick={onClick} className="cursor-pointer hover:underline" title={day.date}>
+      <div className="flex items-center gap-1 text-xs text-gray-500">
+        <span>{day.date.slice(5)}</span>
+        {day.cycle_day_manual && (
+          <span className="text-yellow-700" title="Cycle day entered by hand, not computed">
+            (manual)
+          </span>
+        )}
+        {day.unread_comments > 0 && (
+          <span className="px-1.5 py-0.5 bg-blue-600 text-white rounded" title="Unread cycle comments">
+            {day.unread_comments} new
+          </span>
+        )}
+        {observed && <ObservationMarker />}
+      </div>
+      {day.bleeding_quantity && (
+        <div className="text-xs text-red-700">
+          {day.bleeding_quantity} {day.blood_color && `(${day.blood_color})`}
+        </div>
+      )}
+      {symptoms.length > 0 && (
+        <div className="text-xs">{symptoms.map((key) => key.replace(/_/g, ' ')).join(', ')}</div>
+      )}
+      <div className="text-xs text-gray-600">
+        {day.energy_physical !== undefined && day.energy_physical !== null && `P:${day.energy_physical}`}
+        {day.energy_mental !== undefined && day.energy_mental !== null && ` M:${day.energy_mental}`}
+        {day.overall_mood !== undefined && day.overall_mood !== null && ` Mood:${day.overall_mood}`}
+      </div>
+      {customLogged && (
+        <div className="text-xs text-amber-800">
+          <CustomValueList fields={customFields} values={day.custom_values} />
+        </div>
+      )}
+    </div>
+  );
+}
+
 // Cycle Lens View Component
+// One column per cycle (newest first), rows aligned by cycle day so the same day can be
+// compared across cycles, with per-cycle length, bleed length and phase averages.
+// prediction is null when cycle tracking is off for the patient.
 export function CycleLensView({
   cycleData,
+  customFields,
+  prediction,
+  observationDates,
   onDayClick,
 }: {
   cycleData: CycleDaySummary[];
+  customFields: CustomField[];
+  prediction: CyclePrediction | null;
+  observationDates?: Set<string>;
   onDayClick: (date: string) => void;
 }) {
-  if (cycleData.length === 0) {
+  const cycles = groupCycles(cycleData);
+  const fields = visibleCustomFields(customFields, cycleData.map((d) => d.custom_values));
+
+  if (cycles.length === 0) {
     return (
-      <div className="text-center py-12">
-        <p className="text-gray-600">No cycle data found for selected date range.</p>
+      <div className="space-y-4">
+        {prediction && <CyclePredictionBanner prediction={prediction} />}
+        <div className="text-center py-12">
+          <p className="text-gray-600">No cycle data found for selected date range.</p>
+        </div>
       </div>
     );
   }
 
+  const uncounted = cycleData.filter((d) => !d.cycle_day).length;
+  const maxDay = Math.max(...cycles.map((c) => Math.max(c.lastDay, c.length ?? 0)));
+  const cycleDays = Array.from({ length: maxDay }, (_, i) => i + 1);
+
   return (
     <div className="space-y-4">
-      <p className="text-sm text-gray-600 mb-4">Cycle Lens: View organized by cycle day</p>
+      <p className="text-sm text-gray-600 mb-4">
+        Cycle Lens: one column per cycle, aligned by cycle day
+        {uncounted > 0 && ` (${uncounted} logged days before the first logged period are not shown)`}
+      </p>
+
+      {prediction && <CyclePredictionBanner prediction={prediction} />}
+
+      {/* Per-cycle statistics */}
       <div className="border rounded-lg overflow-x-auto">
         <table className="w-full text-sm">
           <thead className="bg-gray-50">
             <tr>
-              <th className="px-4 py-2 text-left">Date</th>
-              <th className="px-4 py-2 text-left">Cycle Day</th>
-              <th className="px-4 py-2 text-left">Bleeding</th>
-              <th className="px-4 py-2 text-left">Physical Symptoms</th>
-              <th className="px-4 py-2 text-left">Emotional Symptoms</th>
-              <th className="px-4 py-2 text-left">Energy</th>
-              <th className="px-4 py-2 text-left">Adherence</th>
+              <th className="px-4 py-2 text-left">Cycle starting</th>
+              {cycles.map((cycle) => (
+                <th key={cycle.startDate} className="px-4 py-2 text-left">{cycle.startDate}</th>
+              ))}
             </tr>
           </thead>
           <tbody>
-            {cycleData.map((day) => (
-              <tr
-                key={day.date}
-                onClick={() => onDayClick(day.date)}
-                className="border-t hover:bg-gray-50 cursor-pointer"
-              >
-                <td className="px-4 py-2">{day.date}</td>
-                <td className="px-4 py-2">{day.cycle_day || '-'}</td>
-                <td className="px-4 py-2">
-                  {day.bleeding_quantity ? (
-                    <span className="text-xs">
-                      {day.bleeding_quantity} {day.blood_color && `(${day.blood_color})`}
-                    </span>
-                  ) : (
-                    '-'
-                  )}
+            <tr className="border-t">
+              <td className="px-4 py-2 font-medium">Cycle length</td>
+              {cycles.map((cycle) => (
+                <td key={cycle.startDate} className="px-4 py-2">
+                  {cycle.length ? `${cycle.length} days` : `In progress (day ${cycle.lastDay})`}
                 </td>
-                <td className="px-4 py-2">
-                  {day.physical_symptom_keys && day.physical_symptom_keys.length > 0 ? (
-                    <span className="text-xs">{day.physical_symptom_keys.length} symptoms</span>
-                  ) : (
-                    '-'
-                  )}
-                </td>
-                <td className="px-4 py-2">
-                  {day.emotional_symptom_keys && day.emotional_symptom_keys.length > 0 ? (
-                    <span className="text-xs">{day.emotional_symptom_keys.length} symptoms</span>
-                  ) : (
-                    '-'
-                  )}
-                </td>
-                <td className="px-4 py-2">
-                  <div className="text-xs">
-                    {day.energy_physical !== undefined && `P:${day.energy_physical}`}
-                    {day.energy_mental !== undefined && ` M:${day.energy_mental}`}
-                  </div>
-                </td>
-                <td className="px-4 py-2">
-                  <div className="text-xs">
-                    {day.formulation_adherence_percent}% / {day.treatment_adherence_percent}%
-                  </div>
+              ))}
+            </tr>
+            <tr className="border-t">
+              <td className="px-4 py-2 font-medium">Bleed length</td>
+              {cycles.map((cycle) => (
+                <td key={cycle.startDate} className="px-4 py-2">
+                  {cycle.bleedLength !== undefined ? `${cycle.bleedLength} days` : '-'}
                 </td>
+              ))}
+            </tr>
+            {CYCLE_PHASES.map((phase) => (
+              <tr key={phase} className="border-t">
+                <td className="px-4 py-2 font-medium">{PHASE_LABELS[phase]} energy / mood</td>
+                {cycles.map((cycle) => (
+                  <td key={cycle.startDate} className="px-4 py-2">
+                    {formatAverage(cycle.phaseAverages[phase].energy)} /{' '}
+                    {formatAverage(cycle.phaseAverages[phase].mood)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Phase legend */}
+      <div className="flex gap-3 text-xs">
+        {CYCLE_PHASES.map((phase) => (
+          <span key={phase} className={`px-2 py-1 border rounded ${PHASE_STYLES[phase]}`}>
+            {PHASE_LABELS[phase]}
+          </span>
+        ))}
+      </div>
+
+      <BbtChart cycles={cycles} />
+
+      {/* Days aligned by cycle day */}
+      <div className="border rounded-lg overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left">Cycle Day</th>
+              {cycles.map((cycle) => (
+                <th key={cycle.startDate} className="px-4 py-2 text-left">{cycle.startDate}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {cycleDays.map((cycleDay) => (
+              <tr key={cycleDay} className="border-t align-top">
+                <td className="px-4 py-2 font-medium">{cycleDay}</td>
+                {cycles.map((cycle) => {
+                  const day = cycle.days.get(cycleDay);
+                  const inCycle = cycleDay <= (cycle.length ?? cycle.lastDay);
+                  return (
+                    <td
+                      key={cycle.startDate}
+                      className={`px-4 py-2 min-w-40 ${inCycle ? PHASE_STYLES[cyclePhase(cycleDay, cycle)] : 'bg-gray-50'}`}
+                    >
+                      {day ? (
+                        <CycleDayCell
+                          day={day}
+                          customFields={fields}
+                          observed={observationDates?.has(day.date) ?? false}
+                          onClick={() => onDayClick(day.date)}
+                        />
+                      ) : (
+                        inCycle && <span className="text-xs text-gray-400">-</span>
+                      )}
+                    </td>
+                  );
+                })}
               </tr>
             ))}
           </tbody>
@@ -185,11 +433,16 @@ export function CycleLensView({
 }
 
 // Combined Lens View Component
+// observationDates is only passed by the clinician tracker
 export function CombinedLensView({
   cycleData,
+  customFields,
+  observationDates,
   onDayClick,
 }: {
   cycleData: CycleDaySummary[];
+  customFields: CustomField[];
+  observationDates?: Set<string>;
   onDayClick: (date: string) => void;
 }) {
   if (cycleData.length === 0) {
@@ -218,7 +471,10 @@ export function CombinedLensView({
                 onClick={() => onDayClick(day.date)}
                 className="flex items-center gap-2 hover:bg-gray-50 p-2 rounded cursor-pointer"
               >
-                <span className="text-xs w-24">{day.date}</span>
+                <div className="w-24 flex flex-col items-start gap-1">
+                  <span className="text-xs">{day.date}</span>
+                  {observationDates?.has(day.date) && <ObservationMarker />}
+                </div>
                 <div className="flex-1 space-y-1">
                   {day.energy_physical !== undefined && (
                     <div className="flex items-center gap-1">
@@ -251,6 +507,7 @@ export function CombinedLensView({
         {/* Adherence Pattern */}
         <div className="border rounded-lg p-4">
           <h3 className="font-semibold mb-3">Adherence Pattern</h3>
+          <p className="text-xs text-gray-500 mb-2">Formulations taken, and whether treatments were due</p>
           <div className="space-y-2">
             {cycleData.map((day) => (
               <div
@@ -258,25 +515,41 @@ export function CombinedLensView({
                 onClick={() => onDayClick(day.date)}
                 className="flex items-center gap-2 hover:bg-gray-50 p-2 rounded cursor-pointer"
               >
-                <span className="text-xs w-24">{day.date}</span>
+                <div className="w-24 flex flex-col items-start gap-1">
+                  <span className="text-xs">{day.date}</span>
+                  {observationDates?.has(day.date) && <ObservationMarker />}
+                </div>
                 <div className="flex-1">
-                  <div
-                    className={`h-5 rounded ${
-                      day.formulation_adherence_percent >= 80
-                        ? 'bg-green-400'
-                        : day.formulation_adherence_percent >= 50
-                        ? 'bg-yellow-400'
-                        : 'bg-red-400'
-                    }`}
-                    style={{ width: `${day.formulation_adherence_percent}%` }}
-                  />
+                  {day.formulation_adherence_percent !== null && (
+                    <div
+                      className={`h-5 rounded ${
+                        day.formulation_adherence_percent >= 80
+                          ? 'bg-green-400'
+                          : day.formulation_adherence_percent >= 50
+                          ? 'bg-yellow-400'
+                          : 'bg-red-400'
+                      }`}
+                      style={{ width: `${day.formulation_adherence_percent}%` }}
+                    />
+                  )}
                 </div>
-                <span className="text-xs">{day.formulation_adherence_percent}%</span>
+                <span className="text-xs w-10">{formatAdherence(day.formulation_adherence_percent)}</span>
+                <span className="text-xs w-32">
+                  <TreatmentDueStatus due={day.treatments_due} done={day.treatments_done} />
+                </span>
               </div>
             ))}
           </div>
         </div>
       </div>
+
+      <BristolTrend days={cycleData} onDayClick={onDayClick} />
+
+      <CustomFieldTrends
+        fields={visibleCustomFields(customFields, cycleData.map((d) => d.custom_values))}
+        days={cycleData}
+        onDayClick={onDayClick}
+      />
     </div>
   );
 }
@@ -0,0 +1,75 @@
+import { format, parseISO } from 'date-fns';
+import type { Rasa, WeeklyRasaCount } from '../../types/db';
+import { RASAS } from '../../lib/foodTags';
+
+const RASA_STYLES: Record<Rasa, string> = {
+  sweet: 'bg-pink-300',
+  sour: 'bg-yellow-300',
+  salty: 'bg-sky-300',
+  pungent: 'bg-red-400',
+  bitter: 'bg-green-500',
+  astringent: 'bg-purple-300',
+};
+
+// Share of each taste among the week's tagged foods, one stacked bar per week (oldest first).
+// Ayurvedic advice is to include all six tastes, so weeks missing one are called out.
+export function TasteDistribution({ counts }: { counts: WeeklyRasaCount[] }) {
+  if (counts.length === 0) return null;
+
+  const weeks = [...new Set(counts.map((c) => c.week_start))].sort();
+  const weekCounts = (week: string) =>
+    Object.fromEntries(
+      RASAS.map(({ value }) => [
+        value,
+        counts.find((c) => c.week_start === week && c.rasa === value)?.food_count ?? 0,
+      ])
+    ) as Record<Rasa, number>;
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <div>
+        <h3 className="font-semibold">Weekly Taste Distribution</h3>
+        <p className="text-xs text-gray-500">
+          How often each of the six tastes was eaten, from foods tagged with their tastes.
+        </p>
+      </div>
+
+      {weeks.map((week) => {
+        const rasaCounts = weekCounts(week);
+        const total = RASAS.reduce((sum, { value }) => sum + rasaCounts[value], 0);
+        const missing = RASAS.filter(({ value }) => rasaCounts[value] === 0);
+        return (
+          <div key={week}>
+            <div className="flex justify-between text-xs mb-1">
+              <span className="font-medium">Week of {format(parseISO(week), 'MMM d')}</span>
+              {missing.length > 0 && (
+                <span className="text-gray-500">
+                  Missing: {missing.map(({ label }) => label).join(', ')}
+                </span>
+              )}
+            </div>
+            <div className="flex h-5 rounded overflow-hidden bg-gray-100">
+              {RASAS.filter(({ value }) => rasaCounts[value] > 0).map(({ value, label }) => (
+                <div
+                  key={value}
+                  className={RASA_STYLES[value]}
+                  style={{ width: `${(rasaCounts[value] / total) * 100}%` }}
+                  title={`${label}: ${rasaCounts[value]} (${Math.round((rasaCounts[value] / total) * 100)}%)`}
+                />
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap gap-3 text-xs">
+        {RASAS.map(({ value, label }) => (
+          <span key={value} className="flex items-center gap-1">
+            <span className={`inline-block w-3 h-3 rounded ${RASA_STYLES[value]}`} />
+            {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { createContext, useContext } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import type { Profile } from '../types/db';
+
+export interface AuthContextValue {
+  session: Session | null;
+  profile: Profile | null;
+  loading: boolean;
+  error: string | null;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+/**
+ * Hook for the current auth session and signed-in profile
+ * Must be used inside AuthProvider
+ */
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used inside AuthProvider');
+  }
+  return context;
+}
+
+/**
+ * Hook for the signed-in profile on role-guarded routes
+ * Throws if there is no profile, which RequireAuth already prevents
+ */
+export function useProfile(): Profile {
+  const { profile } = useAuth();
+  if (!profile) {
+    throw new Error('useProfile must be used inside a RequireAuth route');
+  }
+  return profile;
+}
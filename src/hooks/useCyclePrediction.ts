@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { getPeriodStarts } from '../lib/api/dailyEntry';
+import { predictCycle } from '../lib/cycles';
+import type { CyclePrediction } from '../lib/cycles';
+import type { PatientConfig } from '../types/db';
+
+/**
+ * Hook for a patient's next-period and fertile-window estimate
+ * null while loading, without enough data, or when cycle tracking is off for the patient
+ */
+export function useCyclePrediction(
+  patientId: string | undefined,
+  config: PatientConfig | null
+): CyclePrediction | null {
+  const enabled = !!patientId && !!config?.cycle_tracking_enabled;
+  const [prediction, setPrediction] = useState<CyclePrediction | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !patientId) return;
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+    getPeriodStarts(patientId, today)
+      .then((starts) => setPrediction(predictCycle(starts, today)))
+      .catch((error) => {
+        console.error('Failed to load cycle prediction:', error);
+      });
+  }, [enabled, patientId]);
+
+  return enabled ? prediction : null;
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import {
+  adherencePercent,
+  averageAdherence,
+  formatAdherence,
+  isActiveOn,
+  resolveRegimenVersions,
+} from './adherence';
+
+// The same cases check regimen_in_force in supabase/tests/rls_test.sql
+const ACTIVITY_CASES: { start_date: string | null; stop_date: string | null; date: string; active: boolean }[] = [
+  { start_date: null, stop_date: null, date: '2025-01-10', active: true },
+  { start_date: null, stop_date: '2025-01-10', date: '2025-01-10', active: true },
+  { start_date: null, stop_date: '2025-01-09', date: '2025-01-10', active: false },
+  { start_date: '2025-01-10', stop_date: null, date: '2025-01-10', active: true },
+  { start_date: '2025-01-11', stop_date: null, date: '2025-01-10', active: false },
+  { start_date: '2025-01-10', stop_date: '2025-01-10', date: '2025-01-10', active: true },
+  { start_date: '2025-01-01', stop_date: '2025-01-31', date: '2025-02-01', active: false },
+];
+
+describe('isActiveOn', () => {
+  it.each(ACTIVITY_CASES)(
+    'start $start_date, stop $stop_date on $date is $active',
+    ({ start_date, stop_date, date, active }) => {
+      expect(isActiveOn({ start_date, stop_date }, date)).toBe(active);
+    }
+  );
+
+  it('treats missing dates like null ones', () => {
+    expect(isActiveOn({}, '2025-01-10')).toBe(true);
+  });
+});
+
+describe('resolveRegimenVersions', () => {
+  // Lineage L revised on the 10th; lineage M stopped on the 5th
+  const versions = [
+    { id: 'l1', lineage_id: 'L', start_date: null, stop_date: '2025-01-09' },
+    { id: 'l2', lineage_id: 'L', start_date: '2025-01-10', stop_date: null },
+    { id: 'm1', lineage_id: 'M', start_date: '2025-01-01', stop_date: '2025-01-05' },
+  ];
+
+  it('picks the version in force before a revision', () => {
+    const { inForce, versionIds } = resolveRegimenVersions(versions, '2025-01-09');
+    expect(inForce.map((v) => v.id)).toEqual(['l1']);
+    expect(versionIds.get('l2')).toBe('l1');
+  });
+
+  it('maps older versions to the one in force after a revision', () => {
+    const { inForce, versionIds } = resolveRegimenVersions(versions, '2025-01-10');
+    expect(inForce.map((v) => v.id)).toEqual(['l2']);
+    expect(versionIds.get('l1')).toBe('l2');
+    expect(versionIds.get('l2')).toBe('l2');
+  });
+
+  it('leaves out lineages with no version in force', () => {
+    const { inForce, versionIds } = resolveRegimenVersions(versions, '2025-01-10');
+    expect(inForce.some((v) => v.lineage_id === 'M')).toBe(false);
+    expect(versionIds.has('m1')).toBe(false);
+  });
+
+  it('includes a lineage on its stop date', () => {
+    const { inForce } = resolveRegimenVersions(versions, '2025-01-05');
+    expect(inForce.map((v) => v.id)).toEqual(['l1', 'm1']);
+  });
+});
+
+describe('adherencePercent', () => {
+  it('is null when nothing was expected', () => {
+    expect(adherencePercent({ expected: 0, done: 0, partial: 0 })).toBeNull();
+  });
+
+  it('counts full doses', () => {
+    expect(adherencePercent({ expected: 2, done: 2, partial: 0 })).toBe(100);
+    expect(adherencePercent({ expected: 3, done: 0, partial: 0 })).toBe(0);
+  });
+
+  it('weights partial doses by half', () => {
+    expect(adherencePercent({ expected: 4, done: 2, partial: 2 })).toBe(75);
+    expect(adherencePercent({ expected: 2, done: 0, partial: 2 })).toBe(50);
+  });
+
+  it('rounds to a whole percent', () => {
+    expect(adherencePercent({ expected: 3, done: 0, partial: 1 })).toBe(17);
+  });
+});
+
+describe('averageAdherence', () => {
+  it('is null when no day had anything expected', () => {
+    expect(averageAdherence([])).toBeNull();
+    expect(averageAdherence([null, null])).toBeNull();
+  });
+
+  it('averages only the measured days', () => {
+    expect(averageAdherence([100, null, 50])).toBe(75);
+    expect(averageAdherence([0, null])).toBe(0);
+  });
+
+  it('rounds to a whole percent', () => {
+    expect(averageAdherence([33, 34])).toBe(34);
+  });
+});
+
+describe('formatAdherence', () => {
+  it('shows n/a for days with no regimen in force', () => {
+    expect(formatAdherence(null)).toBe('n/a');
+    expect(formatAdherence(0)).toBe('0%');
+  });
+});
@@ -0,0 +1,84 @@
+// Adherence rules shared by the tracker summaries, the roster and the daily entry regimen
+// Counts come from the database (regimen_adherence_range); percentages are computed here
+
+// A partially taken dose or partially completed session counts for half
+export const PARTIAL_WEIGHT = 0.5;
+
+// ============================================================================
+// DATE-RANGE ACTIVITY
+// ============================================================================
+
+export interface RegimenVersion {
+  id: string;
+  lineage_id: string;
+  start_date?: string | null;
+  stop_date?: string | null;
+}
+
+/**
+ * Whether a regimen item is in force on a date (YYYY-MM-DD)
+ * No start date means in force from the first entry; stop_date is the last day in force
+ * Mirrors SQL regimen_in_force, which the summary functions use so adherence is counted
+ * in the database; both are checked against the same cases
+ */
+export function isActiveOn(
+  item: Pick<RegimenVersion, 'start_date' | 'stop_date'>,
+  date: string
+): boolean {
+  const startOk = !item.start_date || item.start_date <= date;
+  const stopOk = !item.stop_date || item.stop_date >= date;
+  return startOk && stopOk;
+}
+
+/**
+ * Pick the versions in force on a date, and map every version id of those
+ * lineages to the in-force id so older intakes still count toward them
+ */
+export function resolveRegimenVersions<T extends RegimenVersion>(
+  versions: T[],
+  date: string
+): { inForce: T[]; versionIds: Map<string, string> } {
+  const inForce = versions.filter((v) => isActiveOn(v, date));
+
+  const inForceByLineage = new Map(inForce.map((v) => [v.lineage_id, v.id]));
+  const versionIds = new Map<string, string>();
+  versions.forEach((v) => {
+    const inForceId = inForceByLineage.get(v.lineage_id);
+    if (inForceId) versionIds.set(v.id, inForceId);
+  });
+
+  return { inForce, versionIds };
+}
+
+// ============================================================================
+// PERCENTAGES
+// ============================================================================
+
+// Doses or sessions expected, fully done and partially done (done + partial <= expected)
+export interface AdherenceCounts {
+  expected: number;
+  done: number;
+  partial: number;
+}
+
+/**
+ * Share of expected doses or sessions done, with partial ones weighted by PARTIAL_WEIGHT
+ * null when nothing was expected (no regimen in force), shown as "n/a" rather than 0%
+ */
+export function adherencePercent({ expected, done, partial }: AdherenceCounts): number | null {
+  if (expected <= 0) return null;
+  return Math.round(((done + partial * PARTIAL_WEIGHT) / expected) * 100);
+}
+
+/**
+ * Mean of the days that had something expected; null when none did
+ */
+export function averageAdherence(percents: (number | null)[]): number | null {
+  const measured = percents.filter((p): p is number => p !== null);
+  if (measured.length === 0) return null;
+  return Math.round(measured.reduce((sum, p) => sum + p, 0) / measured.length);
+}
+
+export function formatAdherence(percent: number | null): string {
+  return percent === null ? 'n/a' : `${percent}%`;
+}
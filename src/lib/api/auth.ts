@@ -0,0 +1,91 @@
+// Auth API - Sign-in/out and profile lookup for the signed-in user
+import { supabase, handleSupabaseError } from '../supabaseClient';
+import type { Profile } from '../../types/db';
+
+// ============================================================================
+// PROFILE
+// ============================================================================
+
+/**
+ * Get the profile for an auth user
+ * Returns null if the user has no profile row yet
+ */
+export async function getProfile(userId: string): Promise<Profile | null> {
+  try {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) handleSupabaseError(error, 'getProfile');
+    return (data as Profile) || null;
+  } catch (error) {
+    handleSupabaseError(error, 'getProfile');
+  }
+}
+
+// ============================================================================
+// SIGN IN / SIGN OUT
+// ============================================================================
+
+export async function signInWithPassword(email: string, password: string): Promise<void> {
+  try {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) handleSupabaseError(error, 'signInWithPassword');
+  } catch (error) {
+    handleSupabaseError(error, 'signInWithPassword');
+  }
+}
+
+/**
+ * Email a one-time sign-in link
+ * Only works for existing accounts; new patients sign up with a password
+ */
+export async function signInWithMagicLink(email: string): Promise<void> {
+  try {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        shouldCreateUser: false,
+        emailRedirectTo: window.location.origin,
+      },
+    });
+    if (error) handleSupabaseError(error, 'signInWithMagicLink');
+  } catch (error) {
+    handleSupabaseError(error, 'signInWithMagicLink');
+  }
+}
+
+/**
+ * Create a patient account
+ * The profile rows are created by the on_auth_user_created trigger
+ */
+export async function signUpWithPassword(params: {
+  email: string;
+  password: string;
+  full_name: string;
+}): Promise<void> {
+  try {
+    const { error } = await supabase.auth.signUp({
+      email: params.email,
+      password: params.password,
+      options: {
+        data: { full_name: params.full_name },
+        emailRedirectTo: window.location.origin,
+      },
+    });
+    if (error) handleSupabaseError(error, 'signUpWithPassword');
+  } catch (error) {
+    handleSupabaseError(error, 'signUpWithPassword');
+  }
+}
+
+export async function signOut(): Promise<void> {
+  try {
+    const { error } = await supabase.auth.signOut();
+    if (error) handleSupabaseError(error, 'signOut');
+  } catch (error) {
+    handleSupabaseError(error, 'signOut');
+  }
+}
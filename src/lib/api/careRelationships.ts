@@ -0,0 +1,58 @@
+// Care Relationships API - Which patients a clinician cares for
+import { supabase, handleSupabaseError } from '../supabaseClient';
+import type { CareRelationship, Profile, RosterPatient } from '../../types/db';
+
+// ============================================================================
+// ROSTER
+// ============================================================================
+
+/**
+ * Get every patient linked to a practitioner, with their most recent entry date
+ * Ended relationships are listed too; RLS hides their data, so they have no entry date
+ */
+export async function getPatientRoster(practitionerId: string): Promise<RosterPatient[]> {
+  try {
+    const { data: relationships, error: relationshipsError } = await supabase
+      .from('care_relationships')
+      .select('*')
+      .eq('practitioner_id', practitionerId);
+
+    if (relationshipsError) handleSupabaseError(relationshipsError, 'getPatientRoster');
+    if (!relationships || relationships.length === 0) return [];
+
+    const patientIds = relationships.map((r) => r.patient_id);
+
+    const { data: profiles, error: profilesError } = await supabase
+      .from('profiles')
+      .select('*')
+      .in('id', patientIds);
+
+    if (profilesError) handleSupabaseError(profilesError, 'getPatientRoster');
+
+    // One grouped row per patient keeps this cheap regardless of history length
+    const { data: lastEntries, error: lastEntriesError } = await supabase.rpc('get_last_entry_dates', {
+      p_patient_ids: patientIds,
+    });
+
+    if (lastEntriesError) handleSupabaseError(lastEntriesError, 'getPatientRoster');
+
+    const lastEntryDates = new Map<string, string>();
+    ((lastEntries || []) as { patient_id: string; last_entry_date: string }[]).forEach((row) =>
+      lastEntryDates.set(row.patient_id, row.last_entry_date)
+    );
+
+    const profileMap = new Map<string, Profile>();
+    (profiles || []).forEach((p) => profileMap.set(p.id, p as Profile));
+
+    return (relationships as CareRelationship[])
+      .filter((r) => profileMap.has(r.patient_id))
+      .map((relationship) => ({
+        relationship,
+        profile: profileMap.get(relationship.patient_id)!,
+        last_entry_date: lastEntryDates.get(relationship.patient_id),
+      }))
+      .sort((a, b) => a.profile.full_name.localeCompare(b.profile.full_name));
+  } catch (error) {
+    handleSupabaseError(error, 'getPatientRoster');
+  }
+}
@@ -1,11 +1,15 @@
 // Daily Entry API - Data access layer for fetching and updating daily tracking data
 import { supabase, handleSupabaseError } from '../supabaseClient';
+import { adherencePercent, resolveRegimenVersions } from '../adherence';
 import type {
   DailyEntry,
   DailyEntryBundle,
   SleepBlock,
   EarlyMorningEntry,
   FoodEvent,
+  SavedFood,
+  DigestionCheckin,
+  DigestionRating,
   DailyFluidTotals,
   BowelMovement,
   ExerciseEvent,
@@ -14,14 +18,26 @@ import type {
   SymptomLog,
   CycleLog,
   CycleComment,
+  CustomField,
+  CustomFieldValue,
+  DoshaAssessment,
+  ClinicalObservation,
   RegimenFormulation,
   RegimenFormulationIntake,
   RegimenTreatment,
   RegimenTreatmentCompletion,
-  RegimenNote,
+  RegimenNoteMessage,
   PatientConfig,
+  PatientProfile,
+  PatientSettingChange,
+  DailySummary,
+  CycleDaySummary,
+  WeeklyRasaCount,
 } from '../../types/db';
 
+// Thread messages and cycle comments come with their author's profile
+const THREAD_MESSAGE_SELECT = '*, author:profiles!author_id(id, role, full_name)';
+
 // ============================================================================
 // PATIENT CONFIG
 // ============================================================================
@@ -47,6 +63,95 @@ export async function getPatientConfig(patientId: string): Promise<PatientConfig
   }
 }
 
+// Config fields a linked clinician can change
+export type PatientConfigUpdate = Partial<
+  Pick<
+    PatientConfig,
+    'tracking_window_days' | 'edit_window_days' | 'cycle_tracking_enabled' | 'daily_sections'
+  >
+>;
+
+/**
+ * Update patient configuration (linked clinicians only)
+ * Each changed value is recorded in patient_setting_changes by the database
+ */
+export async function updatePatientConfig(
+  patientId: string,
+  updates: PatientConfigUpdate
+): Promise<PatientConfig> {
+  try {
+    const { data, error } = await supabase
+      .from('patient_configs')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('patient_id', patientId)
+      .select()
+      .single();
+
+    if (error) handleSupabaseError(error, 'updatePatientConfig');
+    return data as PatientConfig;
+  } catch (error) {
+    handleSupabaseError(error, 'updatePatientConfig');
+  }
+}
+
+/**
+ * Get patient profile (timezone)
+ */
+export async function getPatientProfile(patientId: string): Promise<PatientProfile> {
+  try {
+    const { data, error } = await supabase
+      .from('patient_profiles')
+      .select('*')
+      .eq('id', patientId)
+      .single();
+
+    if (error) handleSupabaseError(error, 'getPatientProfile');
+    return data as PatientProfile;
+  } catch (error) {
+    handleSupabaseError(error, 'getPatientProfile');
+  }
+}
+
+/**
+ * Update the patient's timezone (linked clinicians only); recorded like config changes
+ */
+export async function updatePatientProfile(
+  patientId: string,
+  updates: Pick<PatientProfile, 'timezone'>
+): Promise<PatientProfile> {
+  try {
+    const { data, error } = await supabase
+      .from('patient_profiles')
+      .update(updates)
+      .eq('id', patientId)
+      .select()
+      .single();
+
+    if (error) handleSupabaseError(error, 'updatePatientProfile');
+    return data as PatientProfile;
+  } catch (error) {
+    handleSupabaseError(error, 'updatePatientProfile');
+  }
+}
+
+/**
+ * Get the history of a patient's setting changes, newest first, with who made each one
+ */
+export async function getPatientSettingChanges(patientId: string): Promise<PatientSettingChange[]> {
+  try {
+    const { data, error } = await supabase
+      .from('patient_setting_changes')
+      .select('*, changed_by_profile:profiles!changed_by(id, role, full_name)')
+      .eq('patient_id', patientId)
+      .order('changed_at', { ascending: false });
+
+    if (error) handleSupabaseError(error, 'getPatientSettingChanges');
+    return (data || []) as PatientSettingChange[];
+  } catch (error) {
+    handleSupabaseError(error, 'getPatientSettingChanges');
+  }
+}
+
 // ============================================================================
 // DAILY ENTRY (anchor row)
 // ============================================================================
@@ -99,7 +204,7 @@ export async function getOrCreateDailyEntry(
 }
 
 /**
- * Update daily entry fields (energy, mood, reflection, cycle_day)
+ * Update daily entry fields (energy, mood, reflection)
  */
 export async function updateDailyEntry(params: {
   id: string;
@@ -109,7 +214,6 @@ export async function updateDailyEntry(params: {
   energy_drive?: number;
   overall_mood?: number;
   reflection?: string;
-  cycle_day?: number;
 }): Promise<void> {
   try {
     const { error } = await supabase
@@ -121,7 +225,6 @@ export async function updateDailyEntry(params: {
         energy_drive: params.energy_drive,
         overall_mood: params.overall_mood,
         reflection: params.reflection,
-        cycle_day: params.cycle_day,
       })
       .eq('id', params.id);
 
@@ -144,25 +247,69 @@ export async function getDailyEntryBundle(
   try {
     // First, get or create the daily entry
     const dailyEntry = await getOrCreateDailyEntry(patientId, date);
+    return await fetchBundleForEntry(patientId, dailyEntry);
+  } catch (error) {
+    handleSupabaseError(error, 'getDailyEntryBundle');
+    throw error;
+  }
+}
+
+/**
+ * Get the daily entry bundle for a date without creating the entry
+ * Used by read-only (clinician) views, which cannot write daily_entries
+ * Returns null if the patient has no entry for that date
+ */
+export async function getExistingDailyEntryBundle(
+  patientId: string,
+  date: string
+): Promise<DailyEntryBundle | null> {
+  try {
+    const { data: dailyEntry, error } = await supabase
+      .from('daily_entries')
+      .select('*')
+      .eq('patient_id', patientId)
+      .eq('date', date)
+      .maybeSingle();
+
+    if (error) handleSupabaseError(error, 'getExistingDailyEntryBundle');
+    if (!dailyEntry) return null;
 
+    return await fetchBundleForEntry(patientId, dailyEntry as DailyEntry);
+  } catch (error) {
+    handleSupabaseError(error, 'getExistingDailyEntryBundle');
+    throw error;
+  }
+}
+
+/**
+ * Fetch all logs, saved items, and regimen data hanging off a daily entry
+ */
+async function fetchBundleForEntry(
+  patientId: string,
+  dailyEntry: DailyEntry
+): Promise<DailyEntryBundle> {
+  try {
     // Fetch all related data in parallel
     const [
       sleepBlocksRes,
       earlyMorningRes,
       fluidTotalsRes,
       foodEventsRes,
+      digestionCheckinsRes,
       bowelMovementsRes,
       exerciseEventsRes,
       vitalReadingsRes,
       medicationIntakesRes,
       symptomLogsRes,
+      customFieldsRes,
+      customFieldValuesRes,
       cycleLogRes,
-      cycleCommentsRes,
+      computedCycleDayRes,
       regimenFormulationsRes,
       formulationIntakesRes,
       regimenTreatmentsRes,
       treatmentCompletionsRes,
-      regimenNotesRes,
+      regimenNoteThreadRes,
       savedFoodsRes,
       savedExercisesRes,
       savedMedsRes,
@@ -172,19 +319,22 @@ export async function getDailyEntryBundle(
       supabase.from('early_morning_entries').select('*').eq('daily_entry_id', dailyEntry.id).order('created_at', { ascending: false }).limit(1).maybeSingle(),
       supabase.from('daily_fluid_totals').select('*').eq('daily_entry_id', dailyEntry.id).maybeSingle(),
       supabase.from('food_events').select('*').eq('daily_entry_id', dailyEntry.id),
+      supabase.from('digestion_checkins').select('*').eq('daily_entry_id', dailyEntry.id),
       supabase.from('bowel_movements').select('*').eq('daily_entry_id', dailyEntry.id),
       supabase.from('exercise_events').select('*').eq('daily_entry_id', dailyEntry.id),
       supabase.from('vital_readings').select('*').eq('daily_entry_id', dailyEntry.id),
       supabase.from('medication_intakes').select('*').eq('daily_entry_id', dailyEntry.id),
       supabase.from('symptom_logs').select('*').eq('daily_entry_id', dailyEntry.id),
+      supabase.from('custom_fields').select('*').eq('patient_id', patientId).order('created_at'),
+      supabase.from('custom_field_values').select('*').eq('daily_entry_id', dailyEntry.id),
       supabase.from('cycle_logs').select('*').eq('daily_entry_id', dailyEntry.id).maybeSingle(),
-      supabase.from('cycle_comments').select('*').eq('cycle_log_id', dailyEntry.id), // Will be filtered after cycle_log fetch
+      supabase.rpc('computed_cycle_day', { p_patient_id: patientId, p_date: dailyEntry.date }),
       supabase.from('regimen_formulations').select('*').eq('patient_id', patientId),
       supabase.from('regimen_formulation_intakes').select('*').eq('daily_entry_id', dailyEntry.id),
       supabase.from('regimen_treatments').select('*').eq('patient_id', patientId),
       supabase.from('regimen_treatment_completions').select('*').eq('daily_entry_id', dailyEntry.id),
-      supabase.from('regimen_notes').select('*').eq('daily_entry_id', dailyEntry.id).maybeSingle(),
-      supabase.from('saved_foods').select('*').eq('patient_id', patientId),
+      supabase.from('regimen_note_messages').select(THREAD_MESSAGE_SELECT).eq('daily_entry_id', dailyEntry.id).order('created_at'),
+      supabase.from('saved_foods').select('*').eq('patient_id', patientId).order('label'),
       supabase.from('saved_exercises').select('*').eq('patient_id', patientId),
       supabase.from('saved_meds').select('*').eq('patient_id', patientId),
       supabase.from('saved_symptoms').select('*').eq('patient_id', patientId),
@@ -195,17 +345,21 @@ export async function getDailyEntryBundle(
     if (earlyMorningRes.error) handleSupabaseError(earlyMorningRes.error, 'getDailyEntryBundle - early_morning');
     if (fluidTotalsRes.error) handleSupabaseError(fluidTotalsRes.error, 'getDailyEntryBundle - fluid_totals');
     if (foodEventsRes.error) handleSupabaseError(foodEventsRes.error, 'getDailyEntryBundle - food_events');
+    if (digestionCheckinsRes.error) handleSupabaseError(digestionCheckinsRes.error, 'getDailyEntryBundle - digestion_checkins');
     if (bowelMovementsRes.error) handleSupabaseError(bowelMovementsRes.error, 'getDailyEntryBundle - bowel_movements');
     if (exerciseEventsRes.error) handleSupabaseError(exerciseEventsRes.error, 'getDailyEntryBundle - exercise_events');
     if (vitalReadingsRes.error) handleSupabaseError(vitalReadingsRes.error, 'getDailyEntryBundle - vital_readings');
     if (medicationIntakesRes.error) handleSupabaseError(medicationIntakesRes.error, 'getDailyEntryBundle - medication_intakes');
     if (symptomLogsRes.error) handleSupabaseError(symptomLogsRes.error, 'getDailyEntryBundle - symptom_logs');
+    if (customFieldsRes.error) handleSupabaseError(customFieldsRes.error, 'getDailyEntryBundle - custom_fields');
+    if (customFieldValuesRes.error) handleSupabaseError(customFieldValuesRes.error, 'getDailyEntryBundle - custom_field_values');
     if (cycleLogRes.error) handleSupabaseError(cycleLogRes.error, 'getDailyEntryBundle - cycle_log');
+    if (computedCycleDayRes.error) handleSupabaseError(computedCycleDayRes.error, 'getDailyEntryBundle - computed_cycle_day');
     if (regimenFormulationsRes.error) handleSupabaseError(regimenFormulationsRes.error, 'getDailyEntryBundle - regimen_formulations');
     if (formulationIntakesRes.error) handleSupabaseError(formulationIntakesRes.error, 'getDailyEntryBundle - formulation_intakes');
     if (regimenTreatmentsRes.error) handleSupabaseError(regimenTreatmentsRes.error, 'getDailyEntryBundle - regimen_treatments');
     if (treatmentCompletionsRes.error) handleSupabaseError(treatmentCompletionsRes.error, 'getDailyEntryBundle - treatment_completions');
-    if (regimenNotesRes.error) handleSupabaseError(regimenNotesRes.error, 'getDailyEntryBundle - regimen_notes');
+    if (regimenNoteThreadRes.error) handleSupabaseError(regimenNoteThreadRes.error, 'getDailyEntryBundle - regimen_note_messages');
     if (savedFoodsRes.error) handleSupabaseError(savedFoodsRes.error, 'getDailyEntryBundle - saved_foods');
     if (savedExercisesRes.error) handleSupabaseError(savedExercisesRes.error, 'getDailyEntryBundle - saved_exercises');
     if (savedMedsRes.error) handleSupabaseError(savedMedsRes.error, 'getDailyEntryBundle - saved_meds');
@@ -216,37 +370,53 @@ export async function getDailyEntryBundle(
     if (cycleLogRes.data) {
       const { data, error } = await supabase
         .from('cycle_comments')
-        .select('*')
-        .eq('cycle_log_id', cycleLogRes.data.id);
+        .select(THREAD_MESSAGE_SELECT)
+        .eq('cycle_log_id', cycleLogRes.data.id)
+        .order('created_at');
       if (error) handleSupabaseError(error, 'getDailyEntryBundle - cycle_comments');
-      cycleCommentsData = data || [];
+      cycleCommentsData = (data || []) as CycleComment[];
     }
 
+    // Only the regimen versions in force on this date; intakes logged against an
+    // earlier version of the same item are attached to the version now in force
+    const formulations = resolveRegimenVersions(regimenFormulationsRes.data || [], dailyEntry.date);
+    const treatments = resolveRegimenVersions(regimenTreatmentsRes.data || [], dailyEntry.date);
+
     return {
       dailyEntry,
       sleepBlocks: sleepBlocksRes.data || [],
       earlyMorning: earlyMorningRes.data || undefined,
       fluidTotals: fluidTotalsRes.data || undefined,
       foodEvents: foodEventsRes.data || [],
+      digestionCheckins: digestionCheckinsRes.data || [],
       bowelMovements: bowelMovementsRes.data || [],
       exerciseEvents: exerciseEventsRes.data || [],
       vitalReadings: vitalReadingsRes.data || [],
       medicationIntakes: medicationIntakesRes.data || [],
       symptomLogs: symptomLogsRes.data || [],
+      customFields: customFieldsRes.data || [],
+      customFieldValues: customFieldValuesRes.data || [],
       cycleLog: cycleLogRes.data || undefined,
+      computedCycleDay: (computedCycleDayRes.data as number | null) ?? undefined,
       cycleComments: cycleCommentsData,
-      regimenFormulations: regimenFormulationsRes.data || [],
-      formulationIntakes: formulationIntakesRes.data || [],
-      regimenTreatments: regimenTreatmentsRes.data || [],
-      treatmentCompletions: treatmentCompletionsRes.data || [],
-      regimenNotes: regimenNotesRes.data || undefined,
+      regimenFormulations: formulations.inForce,
+      formulationIntakes: (formulationIntakesRes.data || []).map((i) => ({
+        ...i,
+        regimen_formulation_id: formulations.versionIds.get(i.regimen_formulation_id) || i.regimen_formulation_id,
+      })),
+      regimenTreatments: treatments.inForce,
+      treatmentCompletions: (treatmentCompletionsRes.data || []).map((c) => ({
+        ...c,
+        regimen_treatment_id: treatments.versionIds.get(c.regimen_treatment_id) || c.regimen_treatment_id,
+      })),
+      regimenNoteThread: (regimenNoteThreadRes.data || []) as RegimenNoteMessage[],
       savedFoods: savedFoodsRes.data || [],
       savedExercises: savedExercisesRes.data || [],
       savedMeds: savedMedsRes.data || [],
       savedSymptoms: savedSymptomsRes.data || [],
     };
   } catch (error) {
-    handleSupabaseError(error, 'getDailyEntryBundle');
+    handleSupabaseError(error, 'fetchBundleForEntry');
     throw error;
   }
 }
@@ -313,6 +483,50 @@ export async function addFoodEvent(
   }
 }
 
+/**
+ * Save a food to the patient's list, with its default tags
+ */
+export async function addSavedFood(
+  data: Pick<SavedFood, 'patient_id' | 'label' | 'rasas' | 'gunas'> & { notes?: string }
+): Promise<SavedFood> {
+  try {
+    const { data: result, error } = await supabase
+      .from('saved_foods')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) handleSupabaseError(error, 'addSavedFood');
+    return result as SavedFood;
+  } catch (error) {
+    handleSupabaseError(error, 'addSavedFood');
+    throw error;
+  }
+}
+
+/**
+ * Change a saved food's default tags; foods already logged from it keep theirs
+ */
+export async function updateSavedFoodTags(
+  id: string,
+  tags: Pick<SavedFood, 'rasas' | 'gunas'>
+): Promise<SavedFood> {
+  try {
+    const { data: result, error } = await supabase
+      .from('saved_foods')
+      .update(tags)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) handleSupabaseError(error, 'updateSavedFoodTags');
+    return result as SavedFood;
+  } catch (error) {
+    handleSupabaseError(error, 'updateSavedFoodTags');
+    throw error;
+  }
+}
+
 export async function deleteFoodEvent(id: string): Promise<void> {
   try {
     const { error } = await supabase.from('food_events').delete().eq('id', id);
@@ -323,6 +537,41 @@ export async function deleteFoodEvent(id: string): Promise<void> {
   }
 }
 
+/**
+ * Record how a meal was digested, replacing any earlier check-in for it
+ */
+export async function upsertDigestionCheckin(
+  data: Pick<DigestionCheckin, 'food_event_id' | 'daily_entry_id' | 'patient_id'> &
+    Partial<Pick<DigestionCheckin, DigestionRating>>
+): Promise<DigestionCheckin> {
+  try {
+    const { data: result, error } = await supabase
+      .from('digestion_checkins')
+      .upsert(
+        { ...data, updated_at: new Date().toISOString() },
+        { onConflict: 'food_event_id' }
+      )
+      .select()
+      .single();
+
+    if (error) handleSupabaseError(error, 'upsertDigestionCheckin');
+    return result as DigestionCheckin;
+  } catch (error) {
+    handleSupabaseError(error, 'upsertDigestionCheckin');
+    throw error;
+  }
+}
+
+export async function deleteDigestionCheckin(id: string): Promise<void> {
+  try {
+    const { error } = await supabase.from('digestion_checkins').delete().eq('id', id);
+    if (error) handleSupabaseError(error, 'deleteDigestionCheckin');
+  } catch (error) {
+    handleSupabaseError(error, 'deleteDigestionCheckin');
+    throw error;
+  }
+}
+
 export async function upsertFluidTotals(
   data: Partial<DailyFluidTotals> & { daily_entry_id: string; patient_id: string }
 ): Promise<DailyFluidTotals> {
@@ -501,6 +750,239 @@ export async function deleteSymptomLog(id: string): Promise<void> {
   }
 }
 
+// ============================================================================
+// CUSTOM FIELDS
+// ============================================================================
+
+/**
+ * Get a patient's custom fields, oldest first, archived ones included
+ */
+export async function getCustomFields(patientId: string): Promise<CustomField[]> {
+  try {
+    const { data, error } = await supabase
+      .from('custom_fields')
+      .select('*')
+      .eq('patient_id', patientId)
+      .order('created_at');
+
+    if (error) handleSupabaseError(error, 'getCustomFields');
+    return (data || []) as CustomField[];
+  } catch (error) {
+    handleSupabaseError(error, 'getCustomFields');
+    throw error;
+  }
+}
+
+// Definition fields set by the clinician; the type cannot change once created
+export type CustomFieldInput = Pick<
+  CustomField,
+  'label' | 'field_type' | 'scale_min' | 'scale_max' | 'unit' | 'choices'
+>;
+
+/**
+ * Define a custom field for a patient (linked clinicians only)
+ */
+export async function createCustomField(
+  data: CustomFieldInput & { patient_id: string; created_by: string }
+): Promise<CustomField> {
+  try {
+    const { data: result, error } = await supabase
+      .from('custom_fields')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) handleSupabaseError(error, 'createCustomField');
+    return result as CustomField;
+  } catch (error) {
+    handleSupabaseError(error, 'createCustomField');
+    throw error;
+  }
+}
+
+/**
+ * Update a custom field's definition, or archive (archived_at) / restore (null) it
+ */
+export async function updateCustomField(
+  id: string,
+  updates: Partial<Omit<CustomFieldInput, 'field_type'>> & { archived_at?: string | null }
+): Promise<CustomField> {
+  try {
+    const { data: result, error } = await supabase
+      .from('custom_fields')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) handleSupabaseError(error, 'updateCustomField');
+    return result as CustomField;
+  } catch (error) {
+    handleSupabaseError(error, 'updateCustomField');
+    throw error;
+  }
+}
+
+/**
+ * Log a day's value for a custom field, replacing any earlier value that day
+ */
+export async function upsertCustomFieldValue(
+  data: Pick<CustomFieldValue, 'daily_entry_id' | 'patient_id' | 'custom_field_id'> &
+    Pick<CustomFieldValue, 'value_number' | 'value_boolean' | 'value_text'>
+): Promise<CustomFieldValue> {
+  try {
+    const { data: result, error } = await supabase
+      .from('custom_field_values')
+      .upsert(
+        { ...data, updated_at: new Date().toISOString() },
+        { onConflict: 'daily_entry_id,custom_field_id' }
+      )
+      .select()
+      .single();
+
+    if (error) handleSupabaseError(error, 'upsertCustomFieldValue');
+    return result as CustomFieldValue;
+  } catch (error) {
+    handleSupabaseError(error, 'upsertCustomFieldValue');
+    throw error;
+  }
+}
+
+export async function deleteCustomFieldValue(id: string): Promise<void> {
+  try {
+    const { error } = await supabase.from('custom_field_values').delete().eq('id', id);
+    if (error) handleSupabaseError(error, 'deleteCustomFieldValue');
+  } catch (error) {
+    handleSupabaseError(error, 'deleteCustomFieldValue');
+    throw error;
+  }
+}
+
+// ============================================================================
+// DOSHA ASSESSMENTS
+// ============================================================================
+
+/**
+ * Get a patient's Prakriti and Vikriti assessments, oldest first
+ */
+export async function getDoshaAssessments(patientId: string): Promise<DoshaAssessment[]> {
+  try {
+    const { data, error } = await supabase
+      .from('dosha_assessments')
+      .select('*')
+      .eq('patient_id', patientId)
+      .order('completed_at');
+
+    if (error) handleSupabaseError(error, 'getDoshaAssessments');
+    return (data || []) as DoshaAssessment[];
+  } catch (error) {
+    handleSupabaseError(error, 'getDoshaAssessments');
+    throw error;
+  }
+}
+
+/**
+ * Record a completed questionnaire; the database scores the answers
+ */
+export async function addDoshaAssessment(
+  data: Pick<DoshaAssessment, 'patient_id' | 'kind' | 'answers' | 'notes'> & { completed_by: string }
+): Promise<DoshaAssessment> {
+  try {
+    const { data: result, error } = await supabase
+      .from('dosha_assessments')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) handleSupabaseError(error, 'addDoshaAssessment');
+    return result as DoshaAssessment;
+  } catch (error) {
+    handleSupabaseError(error, 'addDoshaAssessment');
+    throw error;
+  }
+}
+
+// ============================================================================
+// CLINICAL OBSERVATIONS
+// ============================================================================
+
+// Observation fields a clinician fills in
+export type ClinicalObservationInput = Omit<
+  ClinicalObservation,
+  'id' | 'patient_id' | 'clinician_id' | 'created_at' | 'updated_at'
+>;
+
+/**
+ * Get a patient's tongue and pulse observations, oldest first (linked clinicians only)
+ */
+export async function getClinicalObservations(patientId: string): Promise<ClinicalObservation[]> {
+  try {
+    const { data, error } = await supabase
+      .from('clinical_observations')
+      .select('*')
+      .eq('patient_id', patientId)
+      .order('observed_on')
+      .order('created_at');
+
+    if (error) handleSupabaseError(error, 'getClinicalObservations');
+    return (data || []) as ClinicalObservation[];
+  } catch (error) {
+    handleSupabaseError(error, 'getClinicalObservations');
+    throw error;
+  }
+}
+
+export async function addClinicalObservation(
+  data: ClinicalObservationInput & { patient_id: string; clinician_id: string }
+): Promise<ClinicalObservation> {
+  try {
+    const { data: result, error } = await supabase
+      .from('clinical_observations')
+      .insert(data)
+      .select()
+      .single();
+
+    if (error) handleSupabaseError(error, 'addClinicalObservation');
+    return result as ClinicalObservation;
+  } catch (error) {
+    handleSupabaseError(error, 'addClinicalObservation');
+    throw error;
+  }
+}
+
+/**
+ * Edit an observation; only the clinician who recorded it may
+ */
+export async function updateClinicalObservation(
+  id: string,
+  updates: ClinicalObservationInput
+): Promise<ClinicalObservation> {
+  try {
+    const { data: result, error } = await supabase
+      .from('clinical_observations')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) handleSupabaseError(error, 'updateClinicalObservation');
+    return result as ClinicalObservation;
+  } catch (error) {
+    handleSupabaseError(error, 'updateClinicalObservation');
+    throw error;
+  }
+}
+
+export async function deleteClinicalObservation(id: string): Promise<void> {
+  try {
+    const { error } = await supabase.from('clinical_observations').delete().eq('id', id);
+    if (error) handleSupabaseError(error, 'deleteClinicalObservation');
+  } catch (error) {
+    handleSupabaseError(error, 'deleteClinicalObservation');
+    throw error;
+  }
+}
+
 // ============================================================================
 // CYCLE
 // ============================================================================
@@ -523,14 +1005,18 @@ export async function upsertCycleLog(
   }
 }
 
+/**
+ * Post a comment on a cycle day
+ * Patients comment as 'patient' on their own logs, linked clinicians as 'clinician' (enforced by RLS)
+ */
 export async function addCycleComment(
-  data: Partial<CycleComment> & { cycle_log_id: string; author_type: string; author_id: string; text: string }
+  data: Pick<CycleComment, 'cycle_log_id' | 'author_type' | 'author_id' | 'text'>
 ): Promise<CycleComment> {
   try {
     const { data: result, error } = await supabase
       .from('cycle_comments')
       .insert(data)
-      .select()
+      .select(THREAD_MESSAGE_SELECT)
       .single();
 
     if (error) handleSupabaseError(error, 'addCycleComment');
@@ -541,6 +1027,39 @@ export async function addCycleComment(
   }
 }
 
+/**
+ * Post a clinician comment on a patient's day
+ * Creates the day's cycle log if the patient has not logged cycle data yet
+ */
+export async function addClinicianCycleComment(dailyEntryId: string, text: string): Promise<CycleComment> {
+  try {
+    const { data, error } = await supabase.rpc('add_clinician_cycle_comment', {
+      p_daily_entry_id: dailyEntryId,
+      p_text: text,
+    });
+
+    if (error) handleSupabaseError(error, 'addClinicianCycleComment');
+    return data as CycleComment;
+  } catch (error) {
+    handleSupabaseError(error, 'addClinicianCycleComment');
+    throw error;
+  }
+}
+
+/**
+ * Mark the other party's comments on a cycle log as read by the signed-in user
+ */
+export async function markCycleCommentsRead(cycleLogId: string): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('mark_cycle_comments_read', { p_cycle_log_id: cycleLogId });
+
+    if (error) handleSupabaseError(error, 'markCycleCommentsRead');
+  } catch (error) {
+    handleSupabaseError(error, 'markCycleCommentsRead');
+    throw error;
+  }
+}
+
 /**
  * Get or create a cycle log for a daily entry
  */
@@ -683,20 +1202,38 @@ export async function upsertTreatmentCompletion(
   }
 }
 
-export async function upsertRegimenNote(
-  data: Partial<RegimenNote> & { daily_entry_id: string; patient_id: string }
-): Promise<RegimenNote> {
+/**
+ * Post a message to a day's regimen note thread
+ * Patients post as 'patient' on their own entries, linked clinicians as 'clinician' (enforced by RLS)
+ */
+export async function addRegimenNoteMessage(
+  data: Pick<RegimenNoteMessage, 'daily_entry_id' | 'patient_id' | 'author_type' | 'author_id' | 'body'>
+): Promise<RegimenNoteMessage> {
   try {
     const { data: result, error } = await supabase
-      .from('regimen_notes')
-      .upsert(data, { onConflict: 'id' })
-      .select()
+      .from('regimen_note_messages')
+      .insert(data)
+      .select(THREAD_MESSAGE_SELECT)
       .single();
 
-    if (error) handleSupabaseError(error, 'upsertRegimenNote');
-    return result as RegimenNote;
+    if (error) handleSupabaseError(error, 'addRegimenNoteMessage');
+    return result as RegimenNoteMessage;
   } catch (error) {
-    handleSupabaseError(error, 'upsertRegimenNote');
+    handleSupabaseError(error, 'addRegimenNoteMessage');
+    throw error;
+  }
+}
+
+/**
+ * Mark the other party's messages in a day's regimen note thread as read by the signed-in user
+ */
+export async function markRegimenNotesRead(dailyEntryId: string): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('mark_regimen_notes_read', { p_daily_entry_id: dailyEntryId });
+
+    if (error) handleSupabaseError(error, 'markRegimenNotesRead');
+  } catch (error) {
+    handleSupabaseError(error, 'markRegimenNotesRead');
     throw error;
   }
 }
@@ -739,290 +1276,314 @@ export async function getRegimenForDate(patientId: string, date: string) {
   }
 }
 
+// Editable regimen fields; null clears an optional field
+type RegimenUpdate<T> = {
+  [K in Exclude<keyof T, 'id' | 'patient_id' | 'created_at' | 'updated_at'>]?: T[K] | null;
+};
+
 /**
- * Get daily summaries for a date range for tracker view
- * Returns aggregated data for each day including counts and adherence
+ * Get every formulation and treatment ever prescribed, including stopped ones
+ * Ordered newest start first for the clinician regimen editor
  */
-export async function getDailySummaryRange(patientId: string, fromDate: string, toDate: string) {
+export async function getRegimenHistory(patientId: string): Promise<{
+  formulations: RegimenFormulation[];
+  treatments: RegimenTreatment[];
+}> {
   try {
-    // Fetch all daily entries in range
-    const { data: dailyEntries, error: entriesError } = await supabase
-      .from('daily_entries')
+    const { data: formulations, error: formulationsError } = await supabase
+      .from('regimen_formulations')
       .select('*')
       .eq('patient_id', patientId)
-      .gte('date', fromDate)
-      .lte('date', toDate)
-      .order('date', { ascending: false });
+      .order('start_date', { ascending: false });
 
-    if (entriesError) handleSupabaseError(entriesError, 'getDailySummaryRange - daily_entries');
-
-    if (!dailyEntries || dailyEntries.length === 0) {
-      return [];
-    }
-
-    const entryIds = dailyEntries.map((e) => e.id);
-
-    // Fetch counts for food events
-    const { data: foodCounts, error: foodError } = await supabase
-      .from('food_events')
-      .select('daily_entry_id')
-      .in('daily_entry_id', entryIds);
+    if (formulationsError) handleSupabaseError(formulationsError, 'getRegimenHistory - formulations');
 
-    if (foodError) handleSupabaseError(foodError, 'getDailySummaryRange - food_events');
-
-    // Fetch counts for bowel movements
-    const { data: bowelCounts, error: bowelError } = await supabase
-      .from('bowel_movements')
-      .select('daily_entry_id')
-      .in('daily_entry_id', entryIds);
-
-    if (bowelError) handleSupabaseError(bowelError, 'getDailySummaryRange - bowel_movements');
+    const { data: treatments, error: treatmentsError } = await supabase
+      .from('regimen_treatments')
+      .select('*')
+      .eq('patient_id', patientId)
+      .order('start_date', { ascending: false });
 
-    // Fetch exercise durations
-    const { data: exercises, error: exerciseError } = await supabase
-      .from('exercise_events')
-      .select('daily_entry_id, duration_minutes')
-      .in('daily_entry_id', entryIds);
+    if (treatmentsError) handleSupabaseError(treatmentsError, 'getRegimenHistory - treatments');
 
-    if (exerciseError) handleSupabaseError(exerciseError, 'getDailySummaryRange - exercise_events');
+    return {
+      formulations: (formulations || []) as RegimenFormulation[],
+      treatments: (treatments || []) as RegimenTreatment[],
+    };
+  } catch (error) {
+    handleSupabaseError(error, 'getRegimenHistory');
+    throw error;
+  }
+}
 
-    // Fetch cycle logs
-    const { data: cycleLogs, error: cycleError } = await supabase
-      .from('cycle_logs')
-      .select('daily_entry_id')
-      .in('daily_entry_id', entryIds);
+export async function createRegimenFormulation(
+  data: RegimenUpdate<RegimenFormulation> & { patient_id: string; name: string; start_date: string }
+): Promise<RegimenFormulation> {
+  try {
+    const { data: result, error } = await supabase
+      .from('regimen_formulations')
+      .insert(data)
+      .select()
+      .single();
 
-    if (cycleError) handleSupabaseError(cycleError, 'getDailySummaryRange - cycle_logs');
+    if (error) handleSupabaseError(error, 'createRegimenFormulation');
+    return result as RegimenFormulation;
+  } catch (error) {
+    handleSupabaseError(error, 'createRegimenFormulation');
+    throw error;
+  }
+}
 
-    // Fetch formulation intakes for adherence
-    const { data: formIntakes, error: formIntakesError } = await supabase
-      .from('regimen_formulation_intakes')
-      .select('daily_entry_id, status, regimen_formulation_id')
-      .in('daily_entry_id', entryIds);
+export async function updateRegimenFormulation(
+  id: string,
+  updates: RegimenUpdate<RegimenFormulation>
+): Promise<RegimenFormulation> {
+  try {
+    const { data: result, error } = await supabase
+      .from('regimen_formulations')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
 
-    if (formIntakesError) handleSupabaseError(formIntakesError, 'getDailySummaryRange - formulation_intakes');
+    if (error) handleSupabaseError(error, 'updateRegimenFormulation');
+    return result as RegimenFormulation;
+  } catch (error) {
+    handleSupabaseError(error, 'updateRegimenFormulation');
+    throw error;
+  }
+}
 
-    // Fetch treatment completions for adherence
-    const { data: treatmentComps, error: treatmentCompsError } = await supabase
-      .from('regimen_treatment_completions')
-      .select('daily_entry_id, status, regimen_treatment_id')
-      .in('daily_entry_id', entryIds);
+/**
+ * Stop a formulation as of stopDate (inclusive)
+ * The row is kept so past intakes still resolve to it
+ */
+export async function stopRegimenFormulation(id: string, stopDate: string): Promise<RegimenFormulation> {
+  return updateRegimenFormulation(id, { stop_date: stopDate });
+}
 
-    if (treatmentCompsError) handleSupabaseError(treatmentCompsError, 'getDailySummaryRange - treatment_completions');
+/**
+ * Change a formulation from effectiveDate onward
+ * Closes the current version the day before and opens the next one
+ */
+export async function reviseRegimenFormulation(
+  current: RegimenFormulation,
+  changes: RegimenUpdate<RegimenFormulation>,
+  effectiveDate: string
+): Promise<RegimenFormulation> {
+  return reviseRegimenItem('regimen_formulations', current, changes, effectiveDate);
+}
 
-    // Get all active formulations/treatments per date to calculate adherence properly
-    const { data: formulations, error: formulationsError } = await supabase
-      .from('regimen_formulations')
-      .select('id, start_date, stop_date')
-      .eq('patient_id', patientId);
+export async function createRegimenTreatment(
+  data: RegimenUpdate<RegimenTreatment> & { patient_id: string; name: string; start_date: string }
+): Promise<RegimenTreatment> {
+  try {
+    const { data: result, error } = await supabase
+      .from('regimen_treatments')
+      .insert(data)
+      .select()
+      .single();
 
-    if (formulationsError) handleSupabaseError(formulationsError, 'getDailySummaryRange - regimen_formulations');
+    if (error) handleSupabaseError(error, 'createRegimenTreatment');
+    return result as RegimenTreatment;
+  } catch (error) {
+    handleSupabaseError(error, 'createRegimenTreatment');
+    throw error;
+  }
+}
 
-    const { data: treatments, error: treatmentsError } = await supabase
+export async function updateRegimenTreatment(
+  id: string,
+  updates: RegimenUpdate<RegimenTreatment>
+): Promise<RegimenTreatment> {
+  try {
+    const { data: result, error } = await supabase
       .from('regimen_treatments')
-      .select('id, start_date, stop_date')
-      .eq('patient_id', patientId);
-
-    if (treatmentsError) handleSupabaseError(treatmentsError, 'getDailySummaryRange - regimen_treatments');
-
-    // Build summary for each day
-    const summaries = dailyEntries.map((entry) => {
-      const date = entry.date;
-
-      // Count foods
-      const foodCount = (foodCounts || []).filter((f) => f.daily_entry_id === entry.id).length;
-
-      // Count bowel movements
-      const bowelCount = (bowelCounts || []).filter((b) => b.daily_entry_id === entry.id).length;
-
-      // Sum exercise minutes
-      const exerciseMinutes = (exercises || [])
-        .filter((e) => e.daily_entry_id === entry.id)
-        .reduce((sum, e) => sum + (e.duration_minutes || 0), 0);
-
-      // Check if cycle log exists
-      const hasCycleLog = (cycleLogs || []).some((c) => c.daily_entry_id === entry.id);
-
-      // Calculate formulation adherence
-      const activeFormulations = (formulations || []).filter((f) => {
-        const startOk = !f.start_date || f.start_date <= date;
-        const stopOk = !f.stop_date || f.stop_date >= date;
-        return startOk && stopOk;
-      });
-
-      const activeFormulationIds = new Set(activeFormulations.map((f) => f.id));
-
-      const formIntakesForDay = (formIntakes || []).filter((i) => i.daily_entry_id === entry.id);
-      // Only count intakes for formulations that are active on this date
-      const takenFormulations = formIntakesForDay.filter(
-        (i) => activeFormulationIds.has(i.regimen_formulation_id) && (i.status === 'taken' || i.status === 'partial')
-      ).length;
-      const formAdherence = activeFormulations.length > 0
-        ? Math.round((takenFormulations / activeFormulations.length) * 100)
-        : 0;
-
-      // Calculate treatment adherence
-      const activeTreatments = (treatments || []).filter((t) => {
-        const startOk = !t.start_date || t.start_date <= date;
-        const stopOk = !t.stop_date || t.stop_date >= date;
-        return startOk && stopOk;
-      });
-
-      const activeTreatmentIds = new Set(activeTreatments.map((t) => t.id));
-
-      const treatmentCompsForDay = (treatmentComps || []).filter((c) => c.daily_entry_id === entry.id);
-      // Only count completions for treatments that are active on this date
-      const completedTreatments = treatmentCompsForDay.filter(
-        (c) => activeTreatmentIds.has(c.regimen_treatment_id) && (c.status === 'completed' || c.status === 'partial')
-      ).length;
-      const treatmentAdherence = activeTreatments.length > 0
-        ? Math.round((completedTreatments / activeTreatments.length) * 100)
-        : 0;
-
-      return {
-        date: entry.date,
-        energy_physical: entry.energy_physical,
-        energy_mental: entry.energy_mental,
-        energy_emotional: entry.energy_emotional,
-        energy_drive: entry.energy_drive,
-        overall_mood: entry.overall_mood,
-        food_count: foodCount,
-        bowel_movement_count: bowelCount,
-        exercise_minutes: exerciseMinutes,
-        formulation_adherence_percent: formAdherence,
-        treatment_adherence_percent: treatmentAdherence,
-        has_cycle_log: hasCycleLog,
-      };
-    });
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
 
-    return summaries;
+    if (error) handleSupabaseError(error, 'updateRegimenTreatment');
+    return result as RegimenTreatment;
   } catch (error) {
-    handleSupabaseError(error, 'getDailySummaryRange');
+    handleSupabaseError(error, 'updateRegimenTreatment');
+    throw error;
   }
 }
 
 /**
- * Get cycle range data for cycle and combined lenses
- * Returns cycle logs with daily entry data and adherence for each day
+ * Stop a treatment as of stopDate (inclusive)
+ * The row is kept so past completions still resolve to it
  */
-export async function getCycleRange(patientId: string, fromDate: string, toDate: string) {
-  try {
-    // Fetch all daily entries in range
-    const { data: dailyEntries, error: entriesError } = await supabase
-      .from('daily_entries')
-      .select('*')
-      .eq('patient_id', patientId)
-      .gte('date', fromDate)
-      .lte('date', toDate)
-      .order('date', { ascending: false });
-
-    if (entriesError) handleSupabaseError(entriesError, 'getCycleRange - daily_entries');
+export async function stopRegimenTreatment(id: string, stopDate: string): Promise<RegimenTreatment> {
+  return updateRegimenTreatment(id, { stop_date: stopDate });
+}
 
-    if (!dailyEntries || dailyEntries.length === 0) {
-      return [];
-    }
+/**
+ * Change a treatment from effectiveDate onward
+ * Closes the current version the day before and opens the next one
+ */
+export async function reviseRegimenTreatment(
+  current: RegimenTreatment,
+  changes: RegimenUpdate<RegimenTreatment>,
+  effectiveDate: string
+): Promise<RegimenTreatment> {
+  return reviseRegimenItem('regimen_treatments', current, changes, effectiveDate);
+}
 
-    const entryIds = dailyEntries.map((e) => e.id);
+// Closing the current version and opening the next happen in one transaction (revise_regimen_item)
+async function reviseRegimenItem<T extends RegimenFormulation | RegimenTreatment>(
+  table: 'regimen_formulations' | 'regimen_treatments',
+  current: T,
+  changes: RegimenUpdate<T>,
+  effectiveDate: string
+): Promise<T> {
+  const context = `reviseRegimenItem - ${table}`;
+  try {
+    const { data, error } = await supabase.rpc('revise_regimen_item', {
+      p_table: table,
+      p_id: current.id,
+      p_changes: changes,
+      p_effective_date: effectiveDate,
+    });
 
-    // Fetch cycle logs
-    const { data: cycleLogs, error: cycleError } = await supabase
-      .from('cycle_logs')
-      .select('*')
-      .in('daily_entry_id', entryIds);
+    if (error) handleSupabaseError(error, context);
+    return data as T;
+  } catch (error) {
+    handleSupabaseError(error, context);
+    throw error;
+  }
+}
 
-    if (cycleError) handleSupabaseError(cycleError, 'getCycleRange - cycle_logs');
+// Raw adherence counts returned by the summary functions
+interface AdherenceCountsRow {
+  formulation_doses_scheduled: number;
+  formulation_doses_taken: number;
+  formulation_doses_partial: number;
+  treatment_sessions_expected: number;
+  treatment_sessions_done: number;
+  treatment_sessions_partial: number;
+}
 
-    // Fetch formulation intakes for adherence
-    const { data: formIntakes, error: formIntakesError } = await supabase
-      .from('regimen_formulation_intakes')
-      .select('daily_entry_id, status, regimen_formulation_id')
-      .in('daily_entry_id', entryIds);
+type AdherencePercents = Pick<DailySummary, 'formulation_adherence_percent' | 'treatment_adherence_percent'>;
+
+// Replace a summary row's raw counts with adherence percentages
+function withAdherencePercents<T extends AdherenceCountsRow>(
+  row: T
+): Omit<T, keyof AdherenceCountsRow> & AdherencePercents {
+  const {
+    formulation_doses_scheduled,
+    formulation_doses_taken,
+    formulation_doses_partial,
+    treatment_sessions_expected,
+    treatment_sessions_done,
+    treatment_sessions_partial,
+    ...summary
+  } = row;
+
+  return {
+    ...summary,
+    formulation_adherence_percent: adherencePercent({
+      expected: formulation_doses_scheduled,
+      done: formulation_doses_taken,
+      partial: formulation_doses_partial,
+    }),
+    treatment_adherence_percent: adherencePercent({
+      expected: treatment_sessions_expected,
+      done: treatment_sessions_done,
+      partial: treatment_sessions_partial,
+    }),
+  };
+}
 
-    if (formIntakesError) handleSupabaseError(formIntakesError, 'getCycleRange - formulation_intakes');
+/**
+ * Get daily summaries for a date range for tracker view
+ * Aggregated server-side (get_daily_summaries), one row per logged day, newest first
+ */
+export async function getDailySummaryRange(
+  patientId: string,
+  fromDate: string,
+  toDate: string
+): Promise<DailySummary[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_daily_summaries', {
+      p_patient_id: patientId,
+      p_from: fromDate,
+      p_to: toDate,
+    });
 
-    // Fetch treatment completions for adherence
-    const { data: treatmentComps, error: treatmentCompsError } = await supabase
-      .from('regimen_treatment_completions')
-      .select('daily_entry_id, status, regimen_treatment_id')
-      .in('daily_entry_id', entryIds);
+    if (error) handleSupabaseError(error, 'getDailySummaryRange');
+    const rows = (data || []) as (Omit<DailySummary, keyof AdherencePercents> & AdherenceCountsRow)[];
+    return rows.map(withAdherencePercents);
+  } catch (error) {
+    handleSupabaseError(error, 'getDailySummaryRange');
+  }
+}
 
-    if (treatmentCompsError) handleSupabaseError(treatmentCompsError, 'getCycleRange - treatment_completions');
+/**
+ * Count tagged foods per taste per week (weeks start on Monday), oldest first
+ */
+export async function getWeeklyRasaCounts(
+  patientId: string,
+  fromDate: string,
+  toDate: string
+): Promise<WeeklyRasaCount[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_weekly_rasa_counts', {
+      p_patient_id: patientId,
+      p_from: fromDate,
+      p_to: toDate,
+    });
 
-    // Get all active formulations/treatments
-    const { data: formulations, error: formulationsError } = await supabase
-      .from('regimen_formulations')
-      .select('id, start_date, stop_date')
-      .eq('patient_id', patientId);
+    if (error) handleSupabaseError(error, 'getWeeklyRasaCounts');
+    return (data || []) as WeeklyRasaCount[];
+  } catch (error) {
+    handleSupabaseError(error, 'getWeeklyRasaCounts');
+  }
+}
 
-    if (formulationsError) handleSupabaseError(formulationsError, 'getCycleRange - regimen_formulations');
+/**
+ * Get the first day of every logged period up to a date, oldest first
+ * A period starts on a logged day with bleeding when the day before had none
+ * None when cycle tracking is off for the patient
+ */
+export async function getPeriodStarts(patientId: string, toDate: string): Promise<string[]> {
+  try {
+    const { data, error } = await supabase.rpc('cycle_period_starts', {
+      p_patient_id: patientId,
+      p_to: toDate,
+    });
 
-    const { data: treatments, error: treatmentsError } = await supabase
-      .from('regimen_treatments')
-      .select('id, start_date, stop_date')
-      .eq('patient_id', patientId);
+    if (error) handleSupabaseError(error, 'getPeriodStarts');
+    return ((data || []) as { start_date: string }[]).map((row) => row.start_date);
+  } catch (error) {
+    handleSupabaseError(error, 'getPeriodStarts');
+    throw error;
+  }
+}
 
-    if (treatmentsError) handleSupabaseError(treatmentsError, 'getCycleRange - regimen_treatments');
-
-    // Build summary for each day
-    const summaries = dailyEntries.map((entry) => {
-      const date = entry.date;
-      const cycleLog = (cycleLogs || []).find((c) => c.daily_entry_id === entry.id);
-
-      // Calculate formulation adherence
-      const activeFormulations = (formulations || []).filter((f) => {
-        const startOk = !f.start_date || f.start_date <= date;
-        const stopOk = !f.stop_date || f.stop_date >= date;
-        return startOk && stopOk;
-      });
-
-      const activeFormulationIds = new Set(activeFormulations.map((f) => f.id));
-
-      const formIntakesForDay = (formIntakes || []).filter((i) => i.daily_entry_id === entry.id);
-      const takenFormulations = formIntakesForDay.filter(
-        (i) => activeFormulationIds.has(i.regimen_formulation_id) && (i.status === 'taken' || i.status === 'partial')
-      ).length;
-      const formAdherence = activeFormulations.length > 0
-        ? Math.round((takenFormulations / activeFormulations.length) * 100)
-        : 0;
-
-      // Calculate treatment adherence
-      const activeTreatments = (treatments || []).filter((t) => {
-        const startOk = !t.start_date || t.start_date <= date;
-        const stopOk = !t.stop_date || t.stop_date >= date;
-        return startOk && stopOk;
-      });
-
-      const activeTreatmentIds = new Set(activeTreatments.map((t) => t.id));
-
-      const treatmentCompsForDay = (treatmentComps || []).filter((c) => c.daily_entry_id === entry.id);
-      const completedTreatments = treatmentCompsForDay.filter(
-        (c) => activeTreatmentIds.has(c.regimen_treatment_id) && (c.status === 'completed' || c.status === 'partial')
-      ).length;
-      const treatmentAdherence = activeTreatments.length > 0
-        ? Math.round((completedTreatments / activeTreatments.length) * 100)
-        : 0;
-
-      return {
-        date: entry.date,
-        cycle_day: cycleLog?.cycle_day || entry.cycle_day,
-        physical_symptom_keys: cycleLog?.physical_symptom_keys,
-        emotional_symptom_keys: cycleLog?.emotional_symptom_keys,
-        bleeding_quantity: cycleLog?.bleeding_quantity,
-        blood_color: cycleLog?.blood_color,
-        blood_volume: cycleLog?.blood_volume,
-        clots: cycleLog?.clots,
-        mucus: cycleLog?.mucus,
-        energy_physical: entry.energy_physical,
-        energy_mental: entry.energy_mental,
-        energy_emotional: entry.energy_emotional,
-        energy_drive: entry.energy_drive,
-        overall_mood: entry.overall_mood,
-        formulation_adherence_percent: formAdherence,
-        treatment_adherence_percent: treatmentAdherence,
-      };
+/**
+ * Get cycle range data for cycle and combined lenses
+ * Aggregated server-side (get_cycle_day_summaries), one row per logged day, newest first
+ * Every day carries its cycle day, computed from the latest period start even if it is before fromDate
+ * Empty when cycle tracking is off for the patient
+ */
+export async function getCycleRange(
+  patientId: string,
+  fromDate: string,
+  toDate: string
+): Promise<CycleDaySummary[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_cycle_day_summaries', {
+      p_patient_id: patientId,
+      p_from: fromDate,
+      p_to: toDate,
     });
 
-    return summaries;
+    if (error) handleSupabaseError(error, 'getCycleRange');
+    const rows = (data || []) as (Omit<CycleDaySummary, keyof AdherencePercents> & AdherenceCountsRow)[];
+    return rows.map(withAdherencePercents);
   } catch (error) {
     handleSupabaseError(error, 'getCycleRange');
   }
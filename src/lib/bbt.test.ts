@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { convertTemperature, detectThermalShift, temperatureUnit } from './bbt';
+
+// Readings on consecutive cycle days from day 1
+const readings = (temperatures: number[], firstDay = 1) =>
+  temperatures.map((temperature, i) => ({ cycleDay: firstDay + i, temperature }));
+
+describe('temperatureUnit', () => {
+  it.each([
+    { unit: 'F', value: 97.8, expected: 'F' },
+    { unit: '°F', value: 36.5, expected: 'F' },
+    { unit: ' °c', value: 97.8, expected: 'C' },
+    { unit: 'celsius', value: 36.5, expected: 'C' },
+    { unit: 'Fahrenheit', value: 97.8, expected: 'F' },
+    { unit: undefined, value: 36.5, expected: 'C' },
+    { unit: '', value: 97.8, expected: 'F' },
+  ])('reads $value with unit "$unit" as °$expected', ({ unit, value, expected }) => {
+    expect(temperatureUnit(unit, value)).toBe(expected);
+  });
+});
+
+describe('convertTemperature', () => {
+  it('converts between units', () => {
+    expect(convertTemperature(98.6, 'F', 'C')).toBeCloseTo(37);
+    expect(convertTemperature(37, 'C', 'F')).toBeCloseTo(98.6);
+    expect(convertTemperature(36.5, 'C', 'C')).toBe(36.5);
+  });
+});
+
+describe('detectThermalShift', () => {
+  const baseline = [97.2, 97.3, 97.1, 97.4, 97.2, 97.3];
+
+  it('finds three readings over the six before them', () => {
+    expect(detectThermalShift(readings([...baseline, 97.5, 97.6, 97.7]), 'F')).toEqual({
+      firstHighDay: 7,
+      ovulationDay: 6,
+      coverline: 97.4,
+    });
+  });
+
+  it('accepts a third reading exactly at the margin', () => {
+    // 97.4 + 0.2 is not exactly 97.6 in floating point
+    expect(detectThermalShift(readings([...baseline, 97.5, 97.5, 97.6]), 'F')?.firstHighDay).toBe(7);
+  });
+
+  it('needs the third reading to clear the margin', () => {
+    expect(detectThermalShift(readings([...baseline, 97.5, 97.6, 97.5]), 'F')).toBeNull();
+  });
+
+  it('uses the smaller °C margin', () => {
+    const celsius = [36.2, 36.3, 36.2, 36.4, 36.3, 36.2];
+    expect(detectThermalShift(readings([...celsius, 36.45, 36.45, 36.5]), 'C')?.coverline).toBe(36.4);
+    expect(detectThermalShift(readings([...celsius, 36.45, 36.45, 36.45]), 'C')).toBeNull();
+  });
+
+  it('needs every high reading above the coverline', () => {
+    expect(detectThermalShift(readings([...baseline, 97.5, 97.4, 97.7]), 'F')).toBeNull();
+  });
+
+  it('counts readings rather than days, so a missed reading does not break the rule', () => {
+    const withGap = [
+      ...readings(baseline),
+      { cycleDay: 7, temperature: 97.5 },
+      // Day 8 not taken
+      { cycleDay: 9, temperature: 97.6 },
+      { cycleDay: 10, temperature: 97.7 },
+    ];
+    expect(detectThermalShift(withGap, 'F')).toEqual({ firstHighDay: 7, ovulationDay: 6, coverline: 97.4 });
+  });
+
+  it('needs six readings before the shift', () => {
+    expect(detectThermalShift(readings([97.2, 97.3, 97.1, 97.4, 97.2, 97.5, 97.6, 97.7]), 'F')).toBeNull();
+  });
+});
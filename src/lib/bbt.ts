@@ -0,0 +1,63 @@
+// Basal body temperature (BBT) helpers for the Cycle Lens chart
+// Temperatures come from early-AM temperature vitals, logged in °F or °C
+
+export type TemperatureUnit = 'F' | 'C';
+
+// Below this a reading without a recognisable unit is taken to be °C
+const CELSIUS_MAX = 50;
+
+// 3-over-6 rule: three readings above the highest of the six before them
+const SHIFT_BASELINE_READINGS = 6;
+const SHIFT_HIGH_READINGS = 3;
+// The third high reading must clear the coverline by this much
+const SHIFT_MARGIN: Record<TemperatureUnit, number> = { F: 0.2, C: 0.1 };
+
+/**
+ * Unit of a reading from its free-text unit ('F', '°F', 'celsius'...), or from the value when missing
+ */
+export function temperatureUnit(unit: string | undefined, value: number): TemperatureUnit {
+  const normalized = (unit || '').replace(/[°\s]/g, '').toUpperCase();
+  if (normalized.startsWith('C')) return 'C';
+  if (normalized.startsWith('F')) return 'F';
+  return value < CELSIUS_MAX ? 'C' : 'F';
+}
+
+export function convertTemperature(value: number, from: TemperatureUnit, to: TemperatureUnit): number {
+  if (from === to) return value;
+  return to === 'C' ? ((value - 32) * 5) / 9 : (value * 9) / 5 + 32;
+}
+
+export interface BbtReading {
+  cycleDay: number;
+  temperature: number; // In the chart's unit
+}
+
+export interface ThermalShift {
+  firstHighDay: number; // Cycle day of the first of the three high readings
+  ovulationDay: number; // Probable ovulation: the last low reading before the shift
+  coverline: number; // Highest of the six readings before the shift
+}
+
+/**
+ * Find the first sustained thermal shift in a cycle's readings (ordered by cycle day) using
+ * the 3-over-6 rule. Readings are taken in order, so a missed day does not break the count.
+ */
+export function detectThermalShift(readings: BbtReading[], unit: TemperatureUnit): ThermalShift | null {
+  for (let i = SHIFT_BASELINE_READINGS; i + SHIFT_HIGH_READINGS <= readings.length; i++) {
+    const baseline = readings.slice(i - SHIFT_BASELINE_READINGS, i);
+    const highs = readings.slice(i, i + SHIFT_HIGH_READINGS);
+    const coverline = Math.max(...baseline.map((r) => r.temperature));
+
+    const allAbove = highs.every((r) => r.temperature > coverline);
+    // Tolerance so 97.6 clears 97.4 + 0.2 despite floating point
+    const clearsMargin = highs[highs.length - 1].temperature >= coverline + SHIFT_MARGIN[unit] - 1e-9;
+    if (allAbove && clearsMargin) {
+      return {
+        firstHighDay: highs[0].cycleDay,
+        ovulationDay: baseline[baseline.length - 1].cycleDay,
+        coverline,
+      };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,69 @@
+// Structured bowel movement fields: the Bristol stool scale and the other observations
+import type { BowelCompleteness, BowelEase, BowelMovement, BowelUrgency, StoolColor } from '../types/db';
+
+export const BRISTOL_TYPES: { value: number; label: string }[] = [
+  { value: 1, label: 'Separate hard lumps' },
+  { value: 2, label: 'Lumpy and sausage-shaped' },
+  { value: 3, label: 'Sausage with cracks' },
+  { value: 4, label: 'Smooth, soft sausage' },
+  { value: 5, label: 'Soft blobs with clear edges' },
+  { value: 6, label: 'Mushy, ragged edges' },
+  { value: 7, label: 'Watery, no solid pieces' },
+];
+
+// Types 3 and 4 are the healthy range; lower leans constipated, higher loose
+export const BRISTOL_NORMAL_RANGE: [number, number] = [3, 4];
+
+export const STOOL_COLORS: { value: StoolColor; label: string }[] = [
+  { value: 'brown', label: 'Brown' },
+  { value: 'light_brown', label: 'Light brown' },
+  { value: 'dark_brown', label: 'Dark brown' },
+  { value: 'yellow', label: 'Yellow' },
+  { value: 'green', label: 'Green' },
+  { value: 'black', label: 'Black' },
+  { value: 'red', label: 'Red' },
+  { value: 'pale', label: 'Pale / clay' },
+];
+
+export const BOWEL_EASE: { value: BowelEase; label: string }[] = [
+  { value: 'easy', label: 'Easy' },
+  { value: 'some_effort', label: 'Some effort' },
+  { value: 'straining', label: 'Straining' },
+];
+
+export const BOWEL_URGENCY: { value: BowelUrgency; label: string }[] = [
+  { value: 'none', label: 'Not urgent' },
+  { value: 'some', label: 'Somewhat urgent' },
+  { value: 'urgent', label: 'Urgent' },
+];
+
+export const BOWEL_COMPLETENESS: { value: BowelCompleteness; label: string }[] = [
+  { value: 'complete', label: 'Complete' },
+  { value: 'incomplete', label: 'Incomplete' },
+];
+
+/**
+ * "Type 4 (Smooth, soft sausage)", or the bare type when it is not on the scale
+ */
+export function bristolLabel(type: number): string {
+  const entry = BRISTOL_TYPES.find((t) => t.value === type);
+  return entry ? `Type ${type} (${entry.label})` : `Type ${type}`;
+}
+
+/**
+ * The structured fields a movement has, as short labels in a fixed order (Bristol type first)
+ */
+export function describeBowelMovement(movement: BowelMovement): string[] {
+  const labelOf = <T extends string>(options: { value: T; label: string }[], value?: T | null) =>
+    options.find((o) => o.value === value)?.label;
+
+  return [
+    movement.bristol_type ? bristolLabel(movement.bristol_type) : undefined,
+    labelOf(STOOL_COLORS, movement.color),
+    labelOf(BOWEL_EASE, movement.ease),
+    labelOf(BOWEL_URGENCY, movement.urgency),
+    labelOf(BOWEL_COMPLETENESS, movement.completeness),
+    movement.mucus ? 'Mucus' : undefined,
+    movement.undigested_food ? 'Undigested food' : undefined,
+  ].filter((label): label is string => label !== undefined);
+}
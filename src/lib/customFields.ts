@@ -0,0 +1,94 @@
+// Custom tracking fields: reading, formatting and charting logged values
+import type { CustomField, CustomFieldType, CustomFieldValue, CustomValues } from '../types/db';
+
+export const CUSTOM_FIELD_TYPES: { value: CustomFieldType; label: string }[] = [
+  { value: 'scale', label: 'Scale' },
+  { value: 'boolean', label: 'Yes / No' },
+  { value: 'number', label: 'Number' },
+  { value: 'choice', label: 'Choice' },
+  { value: 'text', label: 'Text' },
+];
+
+export type CustomValue = CustomValues[string];
+
+/**
+ * The value of a logged row, from the column matching its field type
+ */
+export function customValueOf(value: CustomFieldValue): CustomValue | undefined {
+  return value.value_number ?? value.value_boolean ?? value.value_text ?? undefined;
+}
+
+/**
+ * The value columns to store for a field type; the other columns are cleared
+ */
+export function customValueColumns(
+  field: Pick<CustomField, 'field_type'>,
+  value: CustomValue
+): Pick<CustomFieldValue, 'value_number' | 'value_boolean' | 'value_text'> {
+  switch (field.field_type) {
+    case 'scale':
+    case 'number':
+      return { value_number: Number(value), value_boolean: null, value_text: null };
+    case 'boolean':
+      return { value_number: null, value_boolean: !!value, value_text: null };
+    default:
+      return { value_number: null, value_boolean: null, value_text: String(value) };
+  }
+}
+
+/**
+ * A value as shown to people, e.g. "4/10", "Yes" or "3 flashes"
+ */
+export function formatCustomValue(field: CustomField, value: CustomValue | undefined): string {
+  if (value === undefined) return '-';
+  switch (field.field_type) {
+    case 'scale':
+      return `${value}/${field.scale_max}`;
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    case 'number':
+      return field.unit ? `${value} ${field.unit}` : String(value);
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Short description of a field's type, e.g. "Scale 0-10" or "Number (count)"
+ */
+export function describeCustomField(field: Pick<CustomField, 'field_type' | 'scale_min' | 'scale_max' | 'unit' | 'choices'>): string {
+  switch (field.field_type) {
+    case 'scale':
+      return `Scale ${field.scale_min}-${field.scale_max}`;
+    case 'boolean':
+      return 'Yes / No';
+    case 'number':
+      return field.unit ? `Number (${field.unit})` : 'Number';
+    case 'choice':
+      return `Choice: ${(field.choices || []).join(', ')}`;
+    case 'text':
+      return 'Text';
+  }
+}
+
+// Scale, number and yes/no fields can be charted; choice and text are only listed
+export const isChartable = (field: Pick<CustomField, 'field_type'>) =>
+  field.field_type === 'scale' || field.field_type === 'number' || field.field_type === 'boolean';
+
+/**
+ * Value plotted on a trend line: the number itself, or 1 for yes and 0 for no
+ */
+export function chartValue(value: CustomValue | undefined): number | null {
+  if (value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return typeof value === 'number' ? value : null;
+}
+
+/**
+ * Fields worth showing for a set of days: those still in use, plus archived ones with a logged value
+ */
+export function visibleCustomFields(fields: CustomField[], values: CustomValues[]): CustomField[] {
+  return fields.filter(
+    (field) => !field.archived_at || values.some((v) => v[field.id] !== undefined)
+  );
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, format, parseISO } from 'date-fns';
+import { groupCycles, predictCycle } from './cycles';
+import type { CycleDaySummary } from '../types/db';
+
+const summary = (date: string, cycle_day: number, overrides: Partial<CycleDaySummary> = {}): CycleDaySummary => ({
+  date,
+  cycle_day,
+  cycle_day_manual: false,
+  formulation_adherence_percent: null,
+  treatment_adherence_percent: null,
+  treatments_due: 0,
+  treatments_done: 0,
+  unread_comments: 0,
+  custom_values: {},
+  bristol_types: [],
+  ...overrides,
+});
+
+describe('groupCycles', () => {
+  it('opens a cycle at each day 1, newest first', () => {
+    const cycles = groupCycles([
+      summary('2025-01-01', 1, { bleeding_quantity: 'heavy' }),
+      summary('2025-01-02', 2, { bleeding_quantity: 'light' }),
+      summary('2025-01-10', 10),
+      summary('2025-01-29', 1, { bleeding_quantity: 'medium' }),
+    ]);
+    expect(cycles.map((c) => c.startDate)).toEqual(['2025-01-29', '2025-01-01']);
+    expect(cycles[1].length).toBe(28);
+    expect(cycles[1].bleedLength).toBe(2);
+    expect(cycles[0].length).toBeUndefined();
+  });
+
+  it('starts the first cycle before the first logged day', () => {
+    const [cycle] = groupCycles([summary('2025-01-10', 5)]);
+    expect(cycle.startDate).toBe('2025-01-06');
+    expect(cycle.bleedLength).toBeUndefined();
+  });
+
+  it('keeps a lower manual override in its cycle', () => {
+    const cycles = groupCycles([
+      summary('2025-01-01', 1),
+      summary('2025-01-10', 10),
+      summary('2025-01-11', 8, { cycle_day_manual: true }),
+      summary('2025-01-12', 12),
+    ]);
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0].lastDay).toBe(12);
+    expect([...cycles[0].days.keys()]).toEqual([1, 10, 8, 12]);
+  });
+
+  it('leaves out days without a cycle day', () => {
+    const [cycle] = groupCycles([
+      summary('2025-01-01', 1),
+      { ...summary('2025-01-02', 0), cycle_day: undefined },
+    ]);
+    expect([...cycle.days.keys()]).toEqual([1]);
+  });
+});
+
+const shift = (date: string, days: number) => format(addDays(parseISO(date), days), 'yyyy-MM-dd');
+
+// Period starts from 2025-01-01 separated by the given cycle lengths
+const startsFrom = (lengths: number[]) =>
+  lengths.reduce((starts, length) => [...starts, shift(starts[starts.length - 1], length)], ['2025-01-01']);
+
+describe('predictCycle', () => {
+  it('needs a logged start', () => {
+    expect(predictCycle([], '2025-01-01')).toBeNull();
+  });
+
+  it('assumes a typical 28-day cycle from a single start', () => {
+    const prediction = predictCycle(['2025-01-01'], '2025-01-01');
+    expect(prediction).toMatchObject({
+      nextPeriod: { likely: '2025-01-29', earliest: '2025-01-26', latest: '2025-02-01' },
+      ovulation: { likely: '2025-01-15' },
+      averageLength: 28,
+      variability: undefined,
+      cyclesUsed: 0,
+      confidence: 'low',
+    });
+  });
+
+  it.each([
+    { lengths: [28, 29, 28, 28], confidence: 'high' },
+    { lengths: [28, 30], confidence: 'medium' },
+    { lengths: [28, 32, 26, 30], confidence: 'medium' },
+    { lengths: [22, 34, 26, 32], confidence: 'low' },
+    { lengths: [28], confidence: 'low' },
+  ])('is $confidence confidence for lengths $lengths', ({ lengths, confidence }) => {
+    const starts = startsFrom(lengths);
+    expect(predictCycle(starts, starts[starts.length - 1])?.confidence).toBe(confidence);
+  });
+
+  it('only uses the most recent six cycles', () => {
+    const starts = startsFrom([40, 40, 28, 28, 28, 28, 28, 28]);
+    const prediction = predictCycle(starts, starts[starts.length - 1]);
+    expect(prediction?.cyclesUsed).toBe(6);
+    expect(prediction?.averageLength).toBe(28);
+  });
+
+  it('leaves out lengths outside 15-60 days as missed logging', () => {
+    const starts = startsFrom([28, 70, 10, 28]);
+    const prediction = predictCycle(starts, starts[starts.length - 1]);
+    expect(prediction?.cyclesUsed).toBe(2);
+    expect(prediction?.averageLength).toBe(28);
+    expect(prediction?.variability).toBe(0);
+  });
+
+  it('is late once past the latest expected start', () => {
+    // Likely 2025-01-29, latest 2025-02-01
+    expect(predictCycle(['2025-01-01'], '2025-02-01')?.late).toBe(false);
+    expect(predictCycle(['2025-01-01'], '2025-02-02')?.late).toBe(true);
+  });
+
+  it('gives up once a whole cycle past the likely start', () => {
+    expect(predictCycle(['2025-01-01'], '2025-02-26')).not.toBeNull();
+    expect(predictCycle(['2025-01-01'], '2025-02-27')).toBeNull();
+  });
+});
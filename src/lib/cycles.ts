@@ -0,0 +1,199 @@
+// Cycle grouping, per-cycle statistics and next-period prediction for the Cycle Lens and daily entry
+import { addDays, differenceInCalendarDays, format, parseISO, subDays } from 'date-fns';
+import type { CycleDaySummary } from '../types/db';
+
+export type CyclePhase = 'menstrual' | 'follicular' | 'ovulatory' | 'luteal';
+
+export const CYCLE_PHASES: CyclePhase[] = ['menstrual', 'follicular', 'ovulatory', 'luteal'];
+
+// Ovulation is taken to be 14 days before the next period, with the ovulatory phase a day either side
+const LUTEAL_PHASE_DAYS = 14;
+// Length assumed for phases of the cycle still in progress
+const DEFAULT_CYCLE_LENGTH = 28;
+
+export interface PhaseAverages {
+  energy: number | null; // Mean of the four energy scores
+  mood: number | null;
+}
+
+export interface CycleGroup {
+  startDate: string; // Day 1 (YYYY-MM-DD), possibly before the first logged day
+  length?: number; // Days until the next day 1; unknown for the cycle in progress
+  bleedLength?: number; // Consecutive bleeding days from day 1; unknown when day 1 was not logged
+  days: Map<number, CycleDaySummary>; // By cycle day
+  lastDay: number; // Highest logged cycle day
+  phaseAverages: Record<CyclePhase, PhaseAverages>;
+}
+
+/**
+ * Phase of a cycle day. Menstrual while bleeding, ovulatory around the estimated ovulation
+ * day (cycle length minus the luteal phase), follicular before it and luteal after
+ */
+export function cyclePhase(
+  cycleDay: number,
+  cycle: Pick<CycleGroup, 'length' | 'bleedLength'>
+): CyclePhase {
+  if (cycleDay <= (cycle.bleedLength ?? 0)) return 'menstrual';
+  const ovulationDay = (cycle.length ?? DEFAULT_CYCLE_LENGTH) - LUTEAL_PHASE_DAYS;
+  if (Math.abs(cycleDay - ovulationDay) <= 1) return 'ovulatory';
+  return cycleDay < ovulationDay ? 'follicular' : 'luteal';
+}
+
+const dayEnergy = (day: CycleDaySummary): number | null => {
+  const scores = [day.energy_physical, day.energy_mental, day.energy_emotional, day.energy_drive]
+    .filter((s): s is number => s !== undefined && s !== null);
+  if (scores.length === 0) return null;
+  return scores.reduce((sum, s) => sum + s, 0) / scores.length;
+};
+
+const mean = (values: (number | null | undefined)[]): number | null => {
+  const present = values.filter((v): v is number => v !== undefined && v !== null);
+  if (present.length === 0) return null;
+  return Math.round((present.reduce((sum, v) => sum + v, 0) / present.length) * 10) / 10;
+};
+
+/**
+ * Group logged days into cycles (day 1 to the next day 1), newest cycle first
+ * A new cycle opens only at a day 1, so a manual override lower than the day before stays in
+ * its cycle; days without a cycle day are left out
+ */
+export function groupCycles(days: CycleDaySummary[]): CycleGroup[] {
+  const counted = days
+    .filter((d) => d.cycle_day !== undefined && d.cycle_day !== null && d.cycle_day > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const cycles: CycleGroup[] = [];
+  let current: CycleGroup | undefined;
+  for (const day of counted) {
+    const cycleDay = day.cycle_day as number;
+    if (!current || cycleDay === 1) {
+      current = {
+        startDate: format(subDays(parseISO(day.date), cycleDay - 1), 'yyyy-MM-dd'),
+        days: new Map(),
+        lastDay: 0,
+        phaseAverages: {} as Record<CyclePhase, PhaseAverages>,
+      };
+      cycles.push(current);
+    }
+    current.days.set(cycleDay, day);
+    current.lastDay = Math.max(current.lastDay, cycleDay);
+  }
+
+  cycles.forEach((cycle, i) => {
+    const next = cycles[i + 1];
+    if (next) {
+      cycle.length = differenceInCalendarDays(parseISO(next.startDate), parseISO(cycle.startDate));
+    }
+
+    if (cycle.days.has(1)) {
+      let bleedLength = 0;
+      while (cycle.days.get(bleedLength + 1)?.bleeding_quantity) bleedLength++;
+      cycle.bleedLength = bleedLength;
+    }
+
+    CYCLE_PHASES.forEach((phase) => {
+      const phaseDays = [...cycle.days.entries()]
+        .filter(([cycleDay]) => cyclePhase(cycleDay, cycle) === phase)
+        .map(([, day]) => day);
+      cycle.phaseAverages[phase] = {
+        energy: mean(phaseDays.map(dayEnergy)),
+        mood: mean(phaseDays.map((d) => d.overall_mood)),
+      };
+    });
+  });
+
+  return cycles.reverse();
+}
+
+// ============================================================================
+// PREDICTION
+// ============================================================================
+
+// Only the most recent cycles are used, so the estimate follows changes in the pattern
+const PREDICTION_CYCLES = 6;
+// Gaps outside this range are missed logging rather than a cycle
+const MIN_CYCLE_LENGTH = 15;
+const MAX_CYCLE_LENGTH = 60;
+// Range used until there are two cycle lengths to measure variability from
+const UNKNOWN_VARIABILITY_DAYS = 3;
+// Sperm survive up to 5 days before ovulation and the egg about a day after
+const FERTILE_DAYS_BEFORE_OVULATION = 5;
+const FERTILE_DAYS_AFTER_OVULATION = 1;
+
+export interface DateEstimate {
+  likely: string; // YYYY-MM-DD
+  earliest: string;
+  latest: string;
+}
+
+export interface CyclePrediction {
+  nextPeriod: DateEstimate;
+  ovulation: DateEstimate;
+  fertileWindow: { start: string; end: string };
+  averageLength: number;
+  variability?: number; // Standard deviation of cycle length in days; unknown below two cycles
+  cyclesUsed: number; // 0 when based on a typical 28-day cycle
+  confidence: 'low' | 'medium' | 'high';
+  late: boolean; // Today is past the latest expected start
+}
+
+const toDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Estimate the next period start and ovulation from period start dates (oldest first)
+ * The range around each date is one standard deviation of recent cycle lengths.
+ * null without any logged start, or when the last start is too old to predict from.
+ */
+export function predictCycle(periodStarts: string[], today: string): CyclePrediction | null {
+  if (periodStarts.length === 0) return null;
+
+  const lengths = periodStarts
+    .slice(1)
+    .map((start, i) => differenceInCalendarDays(parseISO(start), parseISO(periodStarts[i])))
+    .filter((length) => length >= MIN_CYCLE_LENGTH && length <= MAX_CYCLE_LENGTH)
+    .slice(-PREDICTION_CYCLES);
+
+  const averageLength = lengths.length > 0
+    ? Math.round(lengths.reduce((sum, l) => sum + l, 0) / lengths.length)
+    : DEFAULT_CYCLE_LENGTH;
+  const variability = lengths.length >= 2
+    ? Math.sqrt(
+        lengths.reduce((sum, l) => sum + (l - averageLength) ** 2, 0) / (lengths.length - 1)
+      )
+    : undefined;
+  const spread = variability === undefined ? UNKNOWN_VARIABILITY_DAYS : Math.max(1, Math.round(variability));
+
+  const lastStart = parseISO(periodStarts[periodStarts.length - 1]);
+  const nextStart = addDays(lastStart, averageLength);
+  const daysPastLikely = differenceInCalendarDays(parseISO(today), nextStart);
+  // Logging has probably stopped
+  if (daysPastLikely > averageLength) return null;
+
+  const ovulation = subDays(nextStart, LUTEAL_PHASE_DAYS);
+
+  let confidence: CyclePrediction['confidence'] = 'low';
+  if (variability !== undefined && lengths.length >= 3 && variability <= 2) confidence = 'high';
+  else if (variability !== undefined && variability <= 4) confidence = 'medium';
+
+  return {
+    nextPeriod: {
+      likely: toDate(nextStart),
+      earliest: toDate(subDays(nextStart, spread)),
+      latest: toDate(addDays(nextStart, spread)),
+    },
+    ovulation: {
+      likely: toDate(ovulation),
+      earliest: toDate(subDays(ovulation, spread)),
+      latest: toDate(addDays(ovulation, spread)),
+    },
+    fertileWindow: {
+      start: toDate(subDays(ovulation, spread + FERTILE_DAYS_BEFORE_OVULATION)),
+      end: toDate(addDays(ovulation, spread + FERTILE_DAYS_AFTER_OVULATION)),
+    },
+    averageLength,
+    variability: variability === undefined ? undefined : Math.round(variability * 10) / 10,
+    cyclesUsed: lengths.length,
+    confidence,
+    late: daysPastLikely > spread,
+  };
+}
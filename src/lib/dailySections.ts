@@ -0,0 +1,79 @@
+// Which daily entry sections a patient sees, in what order, and which ones they must log
+import type { DailyEntryBundle, DailySectionKey, DailySectionSetting, PatientConfig } from '../types/db';
+
+// Standard order, used when a patient has no section config
+export const DAILY_SECTIONS: { key: DailySectionKey; label: string }[] = [
+  { key: 'sleep', label: 'Sleep' },
+  { key: 'early_morning', label: 'Early Morning' },
+  { key: 'food_fluid', label: 'Food & Fluids' },
+  { key: 'bowel', label: 'Bowel Movements' },
+  { key: 'exercise', label: 'Exercise / Movement' },
+  { key: 'energy', label: 'Energy & Mood' },
+  { key: 'vitals', label: 'Vitals' },
+  { key: 'medications', label: 'Medications (Non-Plan)' },
+  { key: 'symptoms', label: 'Symptoms' },
+  { key: 'custom', label: 'Custom Fields' },
+  { key: 'cycle', label: 'Cycle Tracking' },
+  { key: 'regimen', label: 'Formulations & Treatments' },
+];
+
+export const DEFAULT_DAILY_SECTIONS: DailySectionSetting[] = DAILY_SECTIONS.map(({ key }) => ({
+  key,
+  required: false,
+}));
+
+export const dailySectionLabel = (key: DailySectionKey) =>
+  DAILY_SECTIONS.find((section) => section.key === key)?.label ?? key;
+
+/**
+ * Sections to show for a patient, in order
+ * Every section when the patient has no section config; cycle tracking is left out while it is off
+ */
+export function resolveDailySections(
+  config: Pick<PatientConfig, 'daily_sections' | 'cycle_tracking_enabled'> | null
+): DailySectionSetting[] {
+  const sections = config?.daily_sections ?? DEFAULT_DAILY_SECTIONS;
+  return sections.filter((section) => section.key !== 'cycle' || !!config?.cycle_tracking_enabled);
+}
+
+const hasValue = (value: unknown) => value !== undefined && value !== null;
+
+/**
+ * Whether anything has been logged in a section for the day
+ */
+export function isSectionLogged(key: DailySectionKey, bundle: DailyEntryBundle): boolean {
+  switch (key) {
+    case 'sleep':
+      return bundle.sleepBlocks.length > 0;
+    case 'early_morning':
+      return !!bundle.earlyMorning;
+    case 'food_fluid':
+      return bundle.foodEvents.length > 0 || !!bundle.fluidTotals;
+    case 'bowel':
+      return bundle.bowelMovements.length > 0;
+    case 'exercise':
+      return bundle.exerciseEvents.length > 0;
+    case 'energy': {
+      const entry = bundle.dailyEntry;
+      return [
+        entry.energy_physical,
+        entry.energy_mental,
+        entry.energy_emotional,
+        entry.energy_drive,
+        entry.overall_mood,
+      ].some(hasValue);
+    }
+    case 'vitals':
+      return bundle.vitalReadings.length > 0;
+    case 'medications':
+      return bundle.medicationIntakes.length > 0;
+    case 'symptoms':
+      return bundle.symptomLogs.length > 0;
+    case 'custom':
+      return bundle.customFieldValues.length > 0;
+    case 'cycle':
+      return !!bundle.cycleLog;
+    case 'regimen':
+      return bundle.formulationIntakes.length > 0 || bundle.treatmentCompletions.length > 0;
+  }
+}
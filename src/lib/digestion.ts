@@ -0,0 +1,39 @@
+// Post-meal digestion (agni) check-ins: the ratings asked after a meal and how their levels read
+import type { DigestionCheckin, DigestionRating } from '../types/db';
+
+export interface DigestionQuestion {
+  key: DigestionRating;
+  label: string;
+  levels: [string, string, string, string]; // Names of ratings 0-3
+  discomfort: boolean; // Higher is worse
+}
+
+const DISCOMFORT_LEVELS: DigestionQuestion['levels'] = ['None', 'Mild', 'Moderate', 'Strong'];
+
+export const DIGESTION_QUESTIONS: DigestionQuestion[] = [
+  { key: 'hunger_before', label: 'Hunger before', levels: ['None', 'A little', 'Good', 'Strong'], discomfort: false },
+  { key: 'heaviness', label: 'Heaviness', levels: DISCOMFORT_LEVELS, discomfort: true },
+  { key: 'bloating', label: 'Bloating', levels: DISCOMFORT_LEVELS, discomfort: true },
+  { key: 'gas', label: 'Gas', levels: DISCOMFORT_LEVELS, discomfort: true },
+  { key: 'acid', label: 'Acid', levels: DISCOMFORT_LEVELS, discomfort: true },
+  { key: 'energy_after', label: 'Energy after', levels: ['Drained', 'Low', 'Steady', 'Energised'], discomfort: false },
+];
+
+/**
+ * The ratings a check-in answers, in question order
+ */
+export function answeredQuestions(
+  checkin: Pick<DigestionCheckin, DigestionRating>
+): { question: DigestionQuestion; value: number }[] {
+  return DIGESTION_QUESTIONS.flatMap((question) => {
+    const value = checkin[question.key];
+    return value === undefined || value === null ? [] : [{ question, value }];
+  });
+}
+
+/**
+ * Whether a day's average is worth flagging: moderate discomfort or worse, or little hunger or energy
+ */
+export function isDigestionConcern(question: DigestionQuestion, average: number): boolean {
+  return question.discomfort ? average >= 2 : average <= 1;
+}
@@ -0,0 +1,211 @@
+// Prakriti and Vikriti questionnaires, and reading their Vata / Pitta / Kapha scores
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { Dosha, DoshaAssessment, DoshaAssessmentKind } from '../types/db';
+
+export const DOSHAS: Dosha[] = ['vata', 'pitta', 'kapha'];
+
+export const DOSHA_LABELS: Record<Dosha, string> = {
+  vata: 'Vata',
+  pitta: 'Pitta',
+  kapha: 'Kapha',
+};
+
+export const ASSESSMENT_LABELS: Record<DoshaAssessmentKind, string> = {
+  prakriti: 'Prakriti (constitution)',
+  vikriti: 'Vikriti (current state)',
+};
+
+// One option per dosha; the dosha of the chosen option is stored as the answer
+export interface DoshaQuestion {
+  key: string;
+  text: string;
+  options: Record<Dosha, string>;
+}
+
+// Lifelong tendencies, answered once at intake
+export const PRAKRITI_QUESTIONS: DoshaQuestion[] = [
+  {
+    key: 'body_frame',
+    text: 'Body frame',
+    options: {
+      vata: 'Thin and light, hard to gain weight',
+      pitta: 'Medium and muscular',
+      kapha: 'Large and solid, gains weight easily',
+    },
+  },
+  {
+    key: 'skin',
+    text: 'Skin',
+    options: { vata: 'Dry, rough, cool', pitta: 'Warm, oily, prone to redness', kapha: 'Thick, smooth, moist' },
+  },
+  {
+    key: 'hair',
+    text: 'Hair',
+    options: { vata: 'Dry, thin or frizzy', pitta: 'Fine, early greying or thinning', kapha: 'Thick, lustrous, wavy' },
+  },
+  {
+    key: 'appetite',
+    text: 'Appetite',
+    options: {
+      vata: 'Irregular, sometimes forget to eat',
+      pitta: 'Strong, irritable when a meal is late',
+      kapha: 'Steady, can skip meals easily',
+    },
+  },
+  {
+    key: 'digestion',
+    text: 'Digestion',
+    options: {
+      vata: 'Prone to gas, bloating or constipation',
+      pitta: 'Quick, prone to heartburn or loose stools',
+      kapha: 'Slow, heavy after meals',
+    },
+  },
+  {
+    key: 'sleep',
+    text: 'Sleep',
+    options: { vata: 'Light and easily interrupted', pitta: 'Moderate and sound', kapha: 'Deep and long, hard to wake' },
+  },
+  {
+    key: 'temperature',
+    text: 'Climate',
+    options: {
+      vata: 'Cold hands and feet, dislike cold and wind',
+      pitta: 'Run warm, dislike heat',
+      kapha: 'Dislike cold and damp',
+    },
+  },
+  {
+    key: 'temperament',
+    text: 'Under stress',
+    options: { vata: 'Anxious or worried', pitta: 'Irritable or critical', kapha: 'Withdrawn or stubborn' },
+  },
+  {
+    key: 'memory',
+    text: 'Learning and memory',
+    options: { vata: 'Learn fast, forget fast', pitta: 'Sharp and focused', kapha: 'Slow to learn, never forget' },
+  },
+  {
+    key: 'speech',
+    text: 'Speech',
+    options: { vata: 'Fast and talkative', pitta: 'Precise and persuasive', kapha: 'Slow and measured' },
+  },
+  {
+    key: 'activity',
+    text: 'Pace of activity',
+    options: { vata: 'Quick and restless', pitta: 'Purposeful and competitive', kapha: 'Slow with steady endurance' },
+  },
+];
+
+// How the patient has been over the last two weeks, repeated every VIKRITI_INTERVAL_DAYS
+export const VIKRITI_QUESTIONS: DoshaQuestion[] = [
+  {
+    key: 'sleep',
+    text: 'Sleep',
+    options: {
+      vata: 'Trouble falling or staying asleep',
+      pitta: 'Waking hot or in the early hours',
+      kapha: 'Oversleeping, groggy mornings',
+    },
+  },
+  {
+    key: 'digestion',
+    text: 'Digestion',
+    options: {
+      vata: 'Gas, bloating or irregular appetite',
+      pitta: 'Acidity, heartburn or sharp hunger',
+      kapha: 'Heaviness, slow digestion, little appetite',
+    },
+  },
+  {
+    key: 'elimination',
+    text: 'Stools',
+    options: { vata: 'Hard, dry or constipated', pitta: 'Loose or frequent', kapha: 'Slow, sticky or heavy' },
+  },
+  {
+    key: 'energy',
+    text: 'Energy',
+    options: { vata: 'Scattered, tired but wired', pitta: 'Driven, overheated, burning out', kapha: 'Sluggish and lethargic' },
+  },
+  {
+    key: 'mind',
+    text: 'Mind',
+    options: { vata: 'Worried or anxious', pitta: 'Irritable or impatient', kapha: 'Low or unmotivated' },
+  },
+  {
+    key: 'skin',
+    text: 'Skin',
+    options: { vata: 'Dry or flaky', pitta: 'Rashes, redness or acne', kapha: 'Oily or congested' },
+  },
+  {
+    key: 'body',
+    text: 'Body',
+    options: {
+      vata: 'Aches, stiffness, cracking joints',
+      pitta: 'Inflammation or burning sensations',
+      kapha: 'Heaviness, swelling or congestion',
+    },
+  },
+  {
+    key: 'cravings',
+    text: 'Cravings',
+    options: { vata: 'Warm, salty or crunchy food', pitta: 'Cold food and drinks', kapha: 'Sweet or rich food' },
+  },
+];
+
+export const ASSESSMENT_QUESTIONS: Record<DoshaAssessmentKind, DoshaQuestion[]> = {
+  prakriti: PRAKRITI_QUESTIONS,
+  vikriti: VIKRITI_QUESTIONS,
+};
+
+// A Vikriti check-in is due this long after the last one
+export const VIKRITI_INTERVAL_DAYS = 30;
+// A second dosha this close to the highest share is named with it (e.g. "Vata-Pitta")
+const DUAL_DOSHA_MARGIN = 10;
+
+/**
+ * Share of the answers per dosha, in whole percent
+ */
+export function doshaPercentages(
+  assessment: Pick<DoshaAssessment, 'vata_score' | 'pitta_score' | 'kapha_score'>
+): Record<Dosha, number> {
+  const total = assessment.vata_score + assessment.pitta_score + assessment.kapha_score;
+  const percent = (score: number) => (total === 0 ? 0 : Math.round((score / total) * 100));
+  return {
+    vata: percent(assessment.vata_score),
+    pitta: percent(assessment.pitta_score),
+    kapha: percent(assessment.kapha_score),
+  };
+}
+
+/**
+ * The leading dosha, or two when the second is within DUAL_DOSHA_MARGIN points (e.g. "Vata-Pitta")
+ */
+export function doshaType(
+  assessment: Pick<DoshaAssessment, 'vata_score' | 'pitta_score' | 'kapha_score'>
+): string {
+  const percentages = doshaPercentages(assessment);
+  const [first, second] = [...DOSHAS].sort((a, b) => percentages[b] - percentages[a]);
+  return percentages[first] - percentages[second] <= DUAL_DOSHA_MARGIN
+    ? `${DOSHA_LABELS[first]}-${DOSHA_LABELS[second]}`
+    : DOSHA_LABELS[first];
+}
+
+/**
+ * Most recent assessment of a kind, from a list sorted oldest first
+ */
+export function latestAssessment(
+  assessments: DoshaAssessment[],
+  kind: DoshaAssessmentKind
+): DoshaAssessment | undefined {
+  return assessments.filter((a) => a.kind === kind).at(-1);
+}
+
+/**
+ * Whether a Vikriti check-in is due: none yet, or the last one is VIKRITI_INTERVAL_DAYS old
+ */
+export function isVikritiDue(assessments: DoshaAssessment[], today: string): boolean {
+  const last = latestAssessment(assessments, 'vikriti');
+  if (!last) return true;
+  return differenceInCalendarDays(parseISO(today), parseISO(last.completed_at)) >= VIKRITI_INTERVAL_DAYS;
+}
@@ -0,0 +1,16 @@
+// Edit window rules for daily entries
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { PatientConfig } from '../types/db';
+
+/**
+ * Whether a daily entry date (YYYY-MM-DD) can still be edited
+ * Read-only viewers never edit; patients edit entries within edit_window_days of today
+ */
+export function canEditEntry(
+  date: string,
+  config: Pick<PatientConfig, 'edit_window_days'> | null,
+  readOnly = false
+): boolean {
+  if (readOnly || !config) return false;
+  return differenceInCalendarDays(new Date(), parseISO(date)) <= config.edit_window_days;
+}
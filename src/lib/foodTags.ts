@@ -0,0 +1,57 @@
+// Taste (rasa) and quality (guna) tags on foods, and the taste balance of a day or week
+import type { FoodEvent, Guna, Rasa } from '../types/db';
+
+export const RASAS: { value: Rasa; label: string }[] = [
+  { value: 'sweet', label: 'Sweet' },
+  { value: 'sour', label: 'Sour' },
+  { value: 'salty', label: 'Salty' },
+  { value: 'pungent', label: 'Pungent' },
+  { value: 'bitter', label: 'Bitter' },
+  { value: 'astringent', label: 'Astringent' },
+];
+
+// Opposing pairs; choosing one quality of a pair clears the other
+export const GUNA_PAIRS: [Guna, Guna][] = [
+  ['heavy', 'light'],
+  ['hot', 'cold'],
+  ['oily', 'dry'],
+];
+
+export const GUNA_LABELS: Record<Guna, string> = {
+  heavy: 'Heavy',
+  light: 'Light',
+  hot: 'Hot',
+  cold: 'Cold',
+  oily: 'Oily',
+  dry: 'Dry',
+};
+
+export const rasaLabel = (rasa: Rasa) => RASAS.find((r) => r.value === rasa)?.label ?? rasa;
+
+/**
+ * Add a taste, or remove it when already tagged
+ */
+export function toggleRasa(rasas: Rasa[], rasa: Rasa): Rasa[] {
+  return rasas.includes(rasa) ? rasas.filter((r) => r !== rasa) : [...rasas, rasa];
+}
+
+/**
+ * Add a quality (clearing its opposite), or remove it when already tagged
+ */
+export function toggleGuna(gunas: Guna[], guna: Guna): Guna[] {
+  if (gunas.includes(guna)) return gunas.filter((g) => g !== guna);
+  const pair = GUNA_PAIRS.find((p) => p.includes(guna));
+  return [...gunas.filter((g) => !pair?.includes(g)), guna];
+}
+
+/**
+ * Number of foods tagged with each taste; a food with several tastes counts for each
+ */
+export function countRasas(foods: Pick<FoodEvent, 'rasas'>[]): Record<Rasa, number> {
+  const counts = Object.fromEntries(RASAS.map(({ value }) => [value, 0])) as Record<Rasa, number>;
+  foods.forEach((food) => food.rasas.forEach((rasa) => counts[rasa]++));
+  return counts;
+}
+
+export const sameTags = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((tag) => b.includes(tag));
@@ -0,0 +1,87 @@
+// Tongue and pulse (nadi) observations: field options and short descriptions for the timeline
+import type {
+  ClinicalObservation,
+  Dosha,
+  PulseStrength,
+  TongueCoating,
+  TongueCoatingColor,
+  TongueColor,
+  TongueCracks,
+} from '../types/db';
+import { DOSHAS, DOSHA_LABELS } from './dosha';
+
+export const TONGUE_COATINGS: { value: TongueCoating; label: string }[] = [
+  { value: 'none', label: 'No coating' },
+  { value: 'thin', label: 'Thin coating' },
+  { value: 'thick', label: 'Thick coating' },
+];
+
+export const TONGUE_COATING_COLORS: { value: TongueCoatingColor; label: string }[] = [
+  { value: 'white', label: 'White' },
+  { value: 'yellow', label: 'Yellow' },
+  { value: 'grey', label: 'Grey' },
+  { value: 'brown', label: 'Brown' },
+];
+
+export const TONGUE_COLORS: { value: TongueColor; label: string }[] = [
+  { value: 'pale', label: 'Pale' },
+  { value: 'pink', label: 'Pink' },
+  { value: 'red', label: 'Red' },
+  { value: 'dark_red', label: 'Dark red' },
+  { value: 'purple', label: 'Purple' },
+];
+
+export const TONGUE_CRACKS: { value: TongueCracks; label: string }[] = [
+  { value: 'none', label: 'No cracks' },
+  { value: 'few', label: 'Few cracks' },
+  { value: 'many', label: 'Many cracks' },
+];
+
+export const PULSE_STRENGTHS: { value: PulseStrength; label: string }[] = [
+  { value: 'weak', label: 'Weak' },
+  { value: 'moderate', label: 'Moderate' },
+  { value: 'strong', label: 'Strong' },
+];
+
+// Each dosha's pulse quality, named by its traditional gait
+export const PULSE_QUALITIES: Record<Dosha, string> = {
+  vata: 'snake-like',
+  pitta: 'frog-like',
+  kapha: 'swan-like',
+};
+
+// Names of the 0-3 prominence levels of a dosha's pulse quality
+export const PULSE_LEVELS = ['Absent', 'Faint', 'Present', 'Dominant'];
+
+export const pulseColumn = (dosha: Dosha) => `${dosha}_pulse` as const;
+
+/**
+ * The tongue findings of an observation as short labels, e.g. ["Thick coating (white)", "Pale"]
+ */
+export function describeTongue(observation: ClinicalObservation): string[] {
+  const labelOf = <T extends string>(options: { value: T; label: string }[], value?: T | null) =>
+    options.find((o) => o.value === value)?.label;
+
+  const coating = labelOf(TONGUE_COATINGS, observation.tongue_coating);
+  const coatingColor = labelOf(TONGUE_COATING_COLORS, observation.tongue_coating_color);
+  return [
+    coating && coatingColor ? `${coating} (${coatingColor.toLowerCase()})` : coating ?? coatingColor,
+    labelOf(TONGUE_COLORS, observation.tongue_color),
+    labelOf(TONGUE_CRACKS, observation.tongue_cracks),
+  ].filter((label): label is string => label !== undefined);
+}
+
+/**
+ * The pulse findings of an observation as short labels, e.g. ["Vata: Dominant", "72 bpm", "Weak"]
+ */
+export function describePulse(observation: ClinicalObservation): string[] {
+  const doshaLabels = DOSHAS.flatMap((dosha) => {
+    const level = observation[pulseColumn(dosha)];
+    return level === undefined || level === null ? [] : [`${DOSHA_LABELS[dosha]}: ${PULSE_LEVELS[level]}`];
+  });
+  return [
+    ...doshaLabels,
+    observation.pulse_rate ? `${observation.pulse_rate} bpm` : undefined,
+    PULSE_STRENGTHS.find((s) => s.value === observation.pulse_strength)?.label,
+  ].filter((label): label is string => label !== undefined);
+}
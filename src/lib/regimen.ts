@@ -0,0 +1,59 @@
+// Regimen helpers shared by the daily entry sections and the regimen UI
+import type { DoseSlot, FormulationDoseSlot, RegimenFormulation, RegimenTreatment } from '../types/db';
+
+// ============================================================================
+// FORMULATION DOSE SLOTS
+// ============================================================================
+
+// Slots in the order they fall through the day
+export const DOSE_SLOTS: { value: DoseSlot; label: string }[] = [
+  { value: 'morning', label: 'Morning' },
+  { value: 'midday', label: 'Midday' },
+  { value: 'evening', label: 'Evening' },
+  { value: 'bedtime', label: 'Bedtime' },
+];
+
+export function doseSlotLabel(slot: DoseSlot): string {
+  return DOSE_SLOTS.find((s) => s.value === slot)?.label || slot;
+}
+
+export function sortDoseSlots(slots: FormulationDoseSlot[]): FormulationDoseSlot[] {
+  const order = DOSE_SLOTS.map((s) => s.value);
+  return [...slots].sort((a, b) => order.indexOf(a.slot) - order.indexOf(b.slot));
+}
+
+/**
+ * Slots an intake can be recorded against for a formulation
+ * A formulation without dose slots has one unscheduled daily dose (undefined)
+ */
+export function formulationSlots(
+  formulation: Pick<RegimenFormulation, 'dose_slots'>
+): (DoseSlot | undefined)[] {
+  const slots = formulation.dose_slots || [];
+  return slots.length > 0 ? sortDoseSlots(slots).map((s) => s.slot) : [undefined];
+}
+
+// ============================================================================
+// TREATMENT SCHEDULES
+// ============================================================================
+
+// Due dates and rolling-week adherence are computed in the database (regimen_adherence_range)
+type TreatmentSchedule = Pick<RegimenTreatment, 'schedule_type' | 'times_per_week' | 'weekdays' | 'interval_days'>;
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function describeTreatmentSchedule(treatment: TreatmentSchedule): string {
+  switch (treatment.schedule_type) {
+    case 'times_per_week':
+      return `${treatment.times_per_week}× per week`;
+    case 'weekdays':
+      return [...(treatment.weekdays || [])]
+        .sort((a, b) => a - b)
+        .map((d) => WEEKDAY_LABELS[d])
+        .join(', ');
+    case 'every_n_days':
+      return `Every ${treatment.interval_days} days`;
+    default:
+      return 'Daily';
+  }
+}
@@ -1,6 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { getDailyEntryBundle, getPatientConfig } from '../lib/api/dailyEntry';
+import { getExistingDailyEntryBundle, getPatientConfig } from '../lib/api/dailyEntry';
+import type { DailyEntryBundle, PatientConfig } from '../types/db';
+import { resolveDailySections } from '../lib/dailySections';
+import { DailyEntrySections } from '../components/daily-entry/DailyEntrySections';
 
 export default function ClinicianDailyEntryPage() {
   const { patientId, date: routeDate } = useParams<{ patientId: string; date?: string }>();
@@ -8,8 +11,8 @@ export default function ClinicianDailyEntryPage() {
   const [selectedDate, setSelectedDate] = useState<string>(
     routeDate || new Date().toISOString().split('T')[0]
   );
-  const [bundle, setBundle] = useState<any>(null);
-  const [patientConfig, setPatientConfig] = useState<any>(null);
+  const [bundle, setBundle] = useState<DailyEntryBundle | null>(null);
+  const [patientConfig, setPatientConfig] = useState<PatientConfig | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -20,7 +23,7 @@ export default function ClinicianDailyEntryPage() {
     setError(null);
     try {
       const [bundleData, configData] = await Promise.all([
-        getDailyEntryBundle(patientId, selectedDate),
+        getExistingDailyEntryBundle(patientId, selectedDate),
         getPatientConfig(patientId),
       ]);
       setBundle(bundleData);
@@ -107,108 +110,19 @@ export default function ClinicianDailyEntryPage() {
             </p>
           </div>
 
-          {/* Energy Levels */}
-          <div className="border rounded-lg p-4">
-            <h3 className="font-semibold mb-3 text-lg">Energy Levels</h3>
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              {bundle.dailyEntry.energy_physical !== undefined && (
-                <div className="bg-purple-50 rounded p-3">
-                  <div className="text-xs text-gray-600 mb-1">Physical</div>
-                  <div className="text-2xl font-bold text-purple-700">
-                    {bundle.dailyEntry.energy_physical}/10
-                  </div>
-                </div>
-              )}
-              {bundle.dailyEntry.energy_mental !== undefined && (
-                <div className="bg-blue-50 rounded p-3">
-                  <div className="text-xs text-gray-600 mb-1">Mental</div>
-                  <div className="text-2xl font-bold text-blue-700">
-                    {bundle.dailyEntry.energy_mental}/10
-                  </div>
-                </div>
-              )}
-              {bundle.dailyEntry.energy_emotional !== undefined && (
-                <div className="bg-pink-50 rounded p-3">
-                  <div className="text-xs text-gray-600 mb-1">Emotional</div>
-                  <div className="text-2xl font-bold text-pink-700">
-                    {bundle.dailyEntry.energy_emotional}/10
-                  </div>
-                </div>
-              )}
-              {bundle.dailyEntry.energy_drive !== undefined && (
-                <div className="bg-green-50 rounded p-3">
-                  <div className="text-xs text-gray-600 mb-1">Drive</div>
-                  <div className="text-2xl font-bold text-green-700">
-                    {bundle.dailyEntry.energy_drive}/10
-                  </div>
-                </div>
-              )}
-            </div>
-          </div>
-
-          {/* Activity Summary */}
-          <div className="border rounded-lg p-4">
-            <h3 className="font-semibold mb-3 text-lg">Activity Summary</h3>
-            <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
-              <div>
-                <span className="text-gray-600">Foods:</span>{' '}
-                <span className="font-medium">{bundle.foodEvents.length}</span>
-              </div>
-              <div>
-                <span className="text-gray-600">Bowel Movements:</span>{' '}
-                <span className="font-medium">{bundle.bowelMovements.length}</span>
-              </div>
-              <div>
-                <span className="text-gray-600">Exercise Events:</span>{' '}
-                <span className="font-medium">{bundle.exerciseEvents.length}</span>
-              </div>
-              <div>
-                <span className="text-gray-600">Vital Readings:</span>{' '}
-                <span className="font-medium">{bundle.vitalReadings.length}</span>
-              </div>
-              <div>
-                <span className="text-gray-600">Medications:</span>{' '}
-                <span className="font-medium">{bundle.medicationIntakes.length}</span>
-              </div>
-              <div>
-                <span className="text-gray-600">Symptoms:</span>{' '}
-                <span className="font-medium">{bundle.symptomLogs.length}</span>
-              </div>
-            </div>
-          </div>
-
-          {/* Cycle Tracking */}
-          {bundle.cycleLog && (
-            <div className="border rounded-lg p-4">
-              <h3 className="font-semibold mb-3 text-lg">Cycle Tracking</h3>
-              <p className="text-sm text-gray-600">Cycle log present for this date</p>
-            </div>
-          )}
-
-          {/* Regimen */}
-          <div className="border rounded-lg p-4">
-            <h3 className="font-semibold mb-3 text-lg">Regimen</h3>
-            <div className="grid grid-cols-2 gap-4 text-sm">
-              <div>
-                <span className="text-gray-600">Formulations:</span>{' '}
-                <span className="font-medium">{bundle.regimenFormulations.length}</span>
-              </div>
-              <div>
-                <span className="text-gray-600">Treatments:</span>{' '}
-                <span className="font-medium">{bundle.regimenTreatments.length}</span>
-              </div>
-            </div>
-          </div>
-
-          {/* Note about full details */}
-          <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-600">
-            <p>
-              This view shows a summary of the daily entry. Full section details (food logs, exercise details, etc.)
-              can be integrated by importing all section components from PatientDailyEntryPage.
-            </p>
-          </div>
+          {/* Clinicians never edit patient entries, but can reply to regimen notes */}
+          <DailyEntrySections
+            bundle={bundle}
+            editable={false}
+            sections={resolveDailySections(patientConfig)}
+            onRefresh={fetchData}
+          />
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <p className="text-gray-600">No entry logged for this date.</p>
         </div>
-      ) : null}
+      )}
     </div>
   );
 }
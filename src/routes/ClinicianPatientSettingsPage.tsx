@@ -0,0 +1,357 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams } from 'react-router-dom';
+import {
+  getCustomFields,
+  getPatientConfig,
+  getPatientProfile,
+  getPatientSettingChanges,
+  updatePatientConfig,
+  updatePatientProfile,
+} from '../lib/api/dailyEntry';
+import type { PatientConfigUpdate } from '../lib/api/dailyEntry';
+import type {
+  CustomField,
+  DailySectionSetting,
+  PatientConfig,
+  PatientProfile,
+  PatientSetting,
+  PatientSettingChange,
+} from '../types/db';
+import { DEFAULT_DAILY_SECTIONS, dailySectionLabel } from '../lib/dailySections';
+import { DailySectionsEditor } from '../components/settings/DailySectionsEditor';
+import { CustomFieldsManager } from '../components/settings/CustomFieldsManager';
+
+interface SettingsFormValues {
+  tracking_window_days: string;
+  edit_window_days: string;
+  cycle_tracking_enabled: boolean;
+  daily_sections: DailySectionSetting[];
+  timezone: string;
+}
+
+const SETTING_LABELS: Record<PatientSetting, string> = {
+  tracking_window_days: 'Tracker range',
+  edit_window_days: 'Edit window',
+  cycle_tracking_enabled: 'Cycle tracking',
+  daily_sections: 'Daily sections',
+  timezone: 'Timezone',
+};
+
+// IANA names known to the browser; the database rejects names it does not know
+const TIMEZONES = Intl.supportedValuesOf('timeZone');
+
+const toFormValues = (config: PatientConfig, profile: PatientProfile): SettingsFormValues => ({
+  tracking_window_days: config.tracking_window_days.toString(),
+  edit_window_days: config.edit_window_days.toString(),
+  cycle_tracking_enabled: config.cycle_tracking_enabled,
+  daily_sections: config.daily_sections ?? DEFAULT_DAILY_SECTIONS,
+  timezone: profile.timezone,
+});
+
+// Recorded section config (JSON) as "Energy & Mood (required), Food & Fluids"
+const formatDailySections = (value: string) => {
+  const sections = JSON.parse(value) as DailySectionSetting[];
+  if (sections.length === 0) return 'None';
+  return sections
+    .map(({ key, required }) => `${dailySectionLabel(key)}${required ? ' (required)' : ''}`)
+    .join(', ');
+};
+
+const formatSettingValue = (setting: PatientSetting, value?: string | null) => {
+  if (value === undefined || value === null) return '—';
+  if (setting === 'cycle_tracking_enabled') return value === 'true' ? 'On' : 'Off';
+  if (setting === 'daily_sections') return formatDailySections(value);
+  if (setting === 'timezone') return value;
+  return `${value} ${value === '1' ? 'day' : 'days'}`;
+};
+
+export default function ClinicianPatientSettingsPage() {
+  const { patientId } = useParams<{ patientId: string }>();
+  const [patientConfig, setPatientConfig] = useState<PatientConfig | null>(null);
+  const [patientProfile, setPatientProfile] = useState<PatientProfile | null>(null);
+  const [changes, setChanges] = useState<PatientSettingChange[]>([]);
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [values, setValues] = useState<SettingsFormValues | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const fetchSettings = useCallback(async () => {
+    if (!patientId) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const [config, profile, history, fields] = await Promise.all([
+        getPatientConfig(patientId),
+        getPatientProfile(patientId),
+        getPatientSettingChanges(patientId),
+        getCustomFields(patientId),
+      ]);
+      setPatientConfig(config);
+      setPatientProfile(profile);
+      setChanges(history);
+      setCustomFields(fields);
+      setValues(toFormValues(config, profile));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load settings');
+      console.error('Error fetching patient settings:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  // Custom fields save on their own, so reloading them leaves unsaved settings alone
+  const fetchCustomFields = useCallback(async () => {
+    if (!patientId) return;
+    setCustomFields(await getCustomFields(patientId));
+  }, [patientId]);
+
+  // Only changed values are written, so the history holds one row per real change
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!patientId || !patientConfig || !patientProfile || !values) return;
+
+    const trackingWindowDays = Number(values.tracking_window_days);
+    const editWindowDays = Number(values.edit_window_days);
+    if (!Number.isInteger(trackingWindowDays) || trackingWindowDays < 1) {
+      setSaveError('Tracker range must be at least 1 day');
+      return;
+    }
+    if (!Number.isInteger(editWindowDays) || editWindowDays < 0) {
+      setSaveError('Edit window must be 0 days or more');
+      return;
+    }
+
+    const configUpdates: PatientConfigUpdate = {};
+    if (trackingWindowDays !== patientConfig.tracking_window_days) {
+      configUpdates.tracking_window_days = trackingWindowDays;
+    }
+    if (editWindowDays !== patientConfig.edit_window_days) {
+      configUpdates.edit_window_days = editWindowDays;
+    }
+    if (values.cycle_tracking_enabled !== patientConfig.cycle_tracking_enabled) {
+      configUpdates.cycle_tracking_enabled = values.cycle_tracking_enabled;
+    }
+    const currentSections = patientConfig.daily_sections ?? DEFAULT_DAILY_SECTIONS;
+    if (JSON.stringify(values.daily_sections) !== JSON.stringify(currentSections)) {
+      configUpdates.daily_sections = values.daily_sections;
+    }
+
+    setSaving(true);
+    setSaveError(null);
+    try {
+      if (Object.keys(configUpdates).length > 0) {
+        await updatePatientConfig(patientId, configUpdates);
+      }
+      if (values.timezone !== patientProfile.timezone) {
+        await updatePatientProfile(patientId, { timezone: values.timezone });
+      }
+      await fetchSettings();
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save settings');
+      console.error('Failed to save patient settings:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!patientId) {
+    return (
+      <div className="p-6">
+        <div className="text-center py-12">
+          <p className="text-red-600">No patient ID provided</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="text-center py-12">
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !patientConfig || !patientProfile || !values) {
+    return (
+      <div className="p-6">
+        <div className="text-center py-12">
+          <p className="text-red-600">Error: {error || 'No settings found for this patient'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const isDirty =
+    JSON.stringify(values) !== JSON.stringify(toFormValues(patientConfig, patientProfile));
+  const timezones = TIMEZONES.includes(patientProfile.timezone)
+    ? TIMEZONES
+    : [patientProfile.timezone, ...TIMEZONES];
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto">
+      <h1 className="text-2xl font-bold mb-6">Patient Settings</h1>
+
+      <form onSubmit={handleSave} className="bg-white border rounded-lg p-4 mb-4 space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">Tracker range (days)</label>
+            <input
+              type="number"
+              required
+              min={1}
+              value={values.tracking_window_days}
+              onChange={(e) => setValues({ ...values, tracking_window_days: e.target.value })}
+              className="w-full px-3 py-2 border rounded"
+            />
+            <p className="text-xs text-gray-500 mt-1">Default date range of the tracker lenses</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Edit window (days)</label>
+            <input
+              type="number"
+              required
+              min={0}
+              value={values.edit_window_days}
+              onChange={(e) => setValues({ ...values, edit_window_days: e.target.value })}
+              className="w-full px-3 py-2 border rounded"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              How many days back the patient can edit entries (0 = today only)
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Timezone</label>
+            <select
+              value={values.timezone}
+              onChange={(e) => setValues({ ...values, timezone: e.target.value })}
+              className="w-full px-3 py-2 border rounded"
+            >
+              {timezones.map((timezone) => (
+                <option key={timezone} value={timezone}>{timezone}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Cycle tracking</label>
+            <label className="flex items-center space-x-2 py-2">
+              <input
+                type="checkbox"
+                checked={values.cycle_tracking_enabled}
+                onChange={(e) => setValues({ ...values, cycle_tracking_enabled: e.target.checked })}
+              />
+              <span className="text-sm">
+                {values.cycle_tracking_enabled ? 'On' : 'Off'}
+              </span>
+            </label>
+            <p className="text-xs text-gray-500">
+              Off hides cycle logging, the Cycle and Combined lenses and period predictions.
+              Data already logged is kept.
+            </p>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Daily entry sections</label>
+          <p className="text-xs text-gray-500 mb-2">
+            Sections the patient sees on the daily entry, in this order. Required sections are
+            listed at the top of the entry until something is logged in them.
+          </p>
+          <DailySectionsEditor
+            sections={values.daily_sections}
+            cycleTrackingEnabled={values.cycle_tracking_enabled}
+            onChange={(daily_sections) => setValues({ ...values, daily_sections })}
+          />
+        </div>
+
+        {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={() => setValues(toFormValues(patientConfig, patientProfile))}
+            disabled={!isDirty || saving}
+            className="px-3 py-1 border rounded text-sm hover:bg-gray-50 disabled:opacity-50"
+          >
+            Reset
+          </button>
+          <button
+            type="submit"
+            disabled={!isDirty || saving}
+            className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </form>
+
+      <div className="bg-white border rounded-lg p-4 mb-4">
+        <h3 className="font-semibold text-lg mb-1">Custom Fields</h3>
+        <p className="text-xs text-gray-500 mb-3">
+          Extra things this patient tracks each day, filled in under Custom Fields on the daily entry
+          and shown as columns and trends in the tracker.
+        </p>
+        <CustomFieldsManager
+          patientId={patientId}
+          fields={customFields}
+          sectionShown={
+            !patientConfig.daily_sections ||
+            patientConfig.daily_sections.some((section) => section.key === 'custom')
+          }
+          onChange={fetchCustomFields}
+        />
+      </div>
+
+      {/* Every change, who made it and when */}
+      <div className="bg-white border rounded-lg p-4">
+        <h3 className="font-semibold text-lg mb-3">Change History</h3>
+        {changes.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">No changes recorded</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="px-2 py-1 font-medium">When</th>
+                <th className="px-2 py-1 font-medium">Setting</th>
+                <th className="px-2 py-1 font-medium">Change</th>
+                <th className="px-2 py-1 font-medium">By</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changes.map((change) => (
+                <tr key={change.id} className="border-b last:border-0">
+                  <td className="px-2 py-1 whitespace-nowrap">
+                    {new Date(change.changed_at).toLocaleString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      year: 'numeric',
+                      hour: 'numeric',
+                      minute: '2-digit',
+                    })}
+                  </td>
+                  <td className="px-2 py-1">{SETTING_LABELS[change.setting]}</td>
+                  <td className="px-2 py-1">
+                    {formatSettingValue(change.setting, change.old_value)} →{' '}
+                    {formatSettingValue(change.setting, change.new_value)}
+                  </td>
+                  <td className="px-2 py-1">
+                    {change.changed_by_profile?.full_name || (change.changed_by ? 'Unknown' : 'Admin')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
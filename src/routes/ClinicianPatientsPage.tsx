@@ -0,0 +1,192 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { subDays } from 'date-fns';
+import { useProfile } from '../hooks/useAuth';
+import { getPatientRoster } from '../lib/api/careRelationships';
+import { getDailySummaryRange } from '../lib/api/dailyEntry';
+import { averageAdherence, formatAdherence } from '../lib/adherence';
+import type { DailySummary, RosterPatient } from '../types/db';
+
+const ADHERENCE_WINDOW_DAYS = 7;
+
+interface WeeklyAdherence {
+  days_logged: number;
+  formulation_percent: number | null;
+  treatment_percent: number | null;
+}
+
+// Formulation adherence averaged over the logged days that had a formulation in force
+function summarizeAdherence(summaries: DailySummary[]): WeeklyAdherence | null {
+  if (summaries.length === 0) return null;
+
+  return {
+    days_logged: summaries.length,
+    formulation_percent: averageAdherence(summaries.map((s) => s.formulation_adherence_percent)),
+    // Already a rolling 7-day figure; summaries are newest first
+    treatment_percent: summaries[0].treatment_adherence_percent,
+  };
+}
+
+const STATUS_STYLES: Record<RosterPatient['relationship']['status'], string> = {
+  active: 'bg-green-100 text-green-800',
+  invited: 'bg-yellow-100 text-yellow-800',
+  ended: 'bg-gray-100 text-gray-600',
+};
+
+export default function ClinicianPatientsPage() {
+  const { id: practitionerId } = useProfile();
+  const [roster, setRoster] = useState<RosterPatient[]>([]);
+  const [adherence, setAdherence] = useState<Record<string, WeeklyAdherence | null>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRoster = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const patients = await getPatientRoster(practitionerId);
+
+      // Only active relationships grant access to tracking data
+      const today = new Date();
+      const toDate = today.toISOString().split('T')[0];
+      const fromDate = subDays(today, ADHERENCE_WINDOW_DAYS - 1).toISOString().split('T')[0];
+      const activePatients = patients.filter((p) => p.relationship.status === 'active');
+      const weekly = await Promise.all(
+        activePatients.map((p) => getDailySummaryRange(p.profile.id, fromDate, toDate))
+      );
+
+      const adherenceByPatient: Record<string, WeeklyAdherence | null> = {};
+      activePatients.forEach((p, i) => {
+        adherenceByPatient[p.profile.id] = summarizeAdherence(weekly[i]);
+      });
+
+      setRoster(patients);
+      setAdherence(adherenceByPatient);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load patients');
+      console.error('Error fetching patient roster:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [practitionerId]);
+
+  useEffect(() => {
+    fetchRoster();
+  }, [fetchRoster]);
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="text-center py-12">
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-6">
+        <div className="text-center py-12">
+          <p className="text-red-600">Error: {error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto">
+      <h1 className="text-2xl font-bold mb-6">Patients</h1>
+
+      {roster.length === 0 ? (
+        <div className="text-center py-12 bg-white border rounded-lg">
+          <p className="text-gray-600">No patients are linked to your account yet.</p>
+        </div>
+      ) : (
+        <div className="bg-white border rounded-lg overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b">
+              <tr>
+                <th className="px-4 py-2 text-left font-semibold">Patient</th>
+                <th className="px-4 py-2 text-left font-semibold">Status</th>
+                <th className="px-4 py-2 text-left font-semibold">Last Entry</th>
+                <th className="px-4 py-2 text-left font-semibold">
+                  Formulations ({ADHERENCE_WINDOW_DAYS}d)
+                </th>
+                <th className="px-4 py-2 text-left font-semibold">
+                  Treatments ({ADHERENCE_WINDOW_DAYS}d)
+                </th>
+                <th className="px-4 py-2 text-left font-semibold">Days Logged</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {roster.map(({ relationship, profile, last_entry_date }) => {
+                const isActive = relationship.status === 'active';
+                const weekly = adherence[profile.id];
+
+                return (
+                  <tr key={relationship.id} className="border-b last:border-b-0 hover:bg-gray-50">
+                    <td className="px-4 py-2 font-medium">
+                      {isActive ? (
+                        <Link
+                          to={`/clinician/tracker/${profile.id}`}
+                          className="text-blue-600 hover:underline"
+                        >
+                          {profile.full_name}
+                        </Link>
+                      ) : (
+                        profile.full_name
+                      )}
+                    </td>
+                    <td className="px-4 py-2">
+                      <span
+                        className={`px-2 py-0.5 rounded text-xs capitalize ${STATUS_STYLES[relationship.status]}`}
+                      >
+                        {relationship.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2">{last_entry_date || '—'}</td>
+                    <td className="px-4 py-2">
+                      {weekly ? formatAdherence(weekly.formulation_percent) : '—'}
+                    </td>
+                    <td className="px-4 py-2">
+                      {weekly ? formatAdherence(weekly.treatment_percent) : '—'}
+                    </td>
+                    <td className="px-4 py-2">
+                      {isActive ? `${weekly?.days_logged ?? 0}/${ADHERENCE_WINDOW_DAYS}` : '—'}
+                    </td>
+                    <td className="px-4 py-2 text-right whitespace-nowrap">
+                      {isActive && (
+                        <div className="flex justify-end space-x-2">
+                          <Link
+                            to={`/clinician/tracker/${profile.id}`}
+                            className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+                          >
+                            Tracker
+                          </Link>
+                          <Link
+                            to={`/clinician/daily/${profile.id}`}
+                            className="px-3 py-1 border rounded text-sm hover:bg-gray-50"
+                          >
+                            Daily Entry
+                          </Link>
+                          <Link
+                            to={`/clinician/settings/${profile.id}`}
+                            className="px-3 py-1 border rounded text-sm hover:bg-gray-50"
+                          >
+                            Settings
+                          </Link>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams } from 'react-router-dom';
+import {
+  getRegimenHistory,
+  createRegimenFormulation,
+  reviseRegimenFormulation,
+  stopRegimenFormulation,
+  createRegimenTreatment,
+  reviseRegimenTreatment,
+  stopRegimenTreatment,
+} from '../lib/api/dailyEntry';
+import type { RegimenFormulation, RegimenTreatment } from '../types/db';
+import { describeTreatmentSchedule, doseSlotLabel, sortDoseSlots } from '../lib/regimen';
+import {
+  RegimenItemForm,
+  type RegimenFormValues,
+  type RegimenKind,
+} from '../components/regimen/RegimenItemForm';
+
+type RegimenItem = RegimenFormulation | RegimenTreatment;
+
+const toFormValues = (item?: RegimenItem): RegimenFormValues => ({
+  name: item?.name || '',
+  when_label: item?.when_label || '',
+  dose: (item && 'dose' in item && item.dose) || '',
+  with_text: (item && 'with_text' in item && item.with_text) || '',
+  body_region: (item && 'body_region' in item && item.body_region) || '',
+  start_date: item?.start_date || new Date().toISOString().split('T')[0],
+  stop_date: item?.stop_date || '',
+  instructions: item?.instructions || '',
+  dose_slots: (item && 'dose_slots' in item && item.dose_slots) || [],
+  schedule_type: (item && 'schedule_type' in item && item.schedule_type) || 'daily',
+  times_per_week: (item && 'times_per_week' in item && item.times_per_week?.toString()) || '',
+  weekdays: (item && 'weekdays' in item && item.weekdays) || [],
+  interval_days: (item && 'interval_days' in item && item.interval_days?.toString()) || '',
+});
+
+// Blank optional fields are stored as null so editing can clear them
+const blankToNull = (value: string) => value.trim() || null;
+
+function RegimenItemSummary({
+  item,
+  today,
+  superseded,
+}: {
+  item: RegimenItem;
+  today: string;
+  superseded?: boolean;
+}) {
+  const details = [
+    item.when_label,
+    'dose' in item ? item.dose : undefined,
+    'dose_slots' in item && item.dose_slots?.length
+      ? sortDoseSlots(item.dose_slots)
+          .map((s) => (s.time ? `${doseSlotLabel(s.slot)} ${s.time}` : doseSlotLabel(s.slot)))
+          .join(', ')
+      : undefined,
+    'with_text' in item && item.with_text ? `with ${item.with_text}` : undefined,
+    'body_region' in item ? item.body_region : undefined,
+    'schedule_type' in item ? describeTreatmentSchedule(item) : undefined,
+  ].filter(Boolean);
+
+  return (
+    <div>
+      <div className="font-medium">
+        {item.name}
+        {item.version > 1 && <span className="ml-2 text-xs text-gray-500">v{item.version}</span>}
+      </div>
+      {details.length > 0 && <div className="text-sm text-gray-700">{details.join(' · ')}</div>}
+      <div className="text-xs text-gray-500">
+        {item.start_date && item.start_date > today ? 'Starts' : 'Started'} {item.start_date}
+        {item.stop_date &&
+          ` · ${superseded ? 'Changed after' : item.stop_date < today ? 'Stopped' : 'Ends'} ${item.stop_date}`}
+      </div>
+      {item.instructions && <div className="text-sm text-gray-600 mt-1">{item.instructions}</div>}
+    </div>
+  );
+}
+
+export default function ClinicianRegimenPage() {
+  const { patientId } = useParams<{ patientId: string }>();
+  const today = new Date().toISOString().split('T')[0];
+  const [formulations, setFormulations] = useState<RegimenFormulation[]>([]);
+  const [treatments, setTreatments] = useState<RegimenTreatment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Item being edited (id) or added (id null)
+  const [editing, setEditing] = useState<{ kind: RegimenKind; id: string | null } | null>(null);
+  const [stopping, setStopping] = useState<{ kind: RegimenKind; id: string; date: string } | null>(
+    null
+  );
+
+  const fetchRegimen = useCallback(async () => {
+    if (!patientId) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await getRegimenHistory(patientId);
+      setFormulations(data.formulations);
+      setTreatments(data.treatments);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load regimen');
+      console.error('Error fetching regimen:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    fetchRegimen();
+  }, [fetchRegimen]);
+
+  // Editing an existing item opens a new version from the effective date (start_date field)
+  const handleSave = async (kind: RegimenKind, current: RegimenItem | null, values: RegimenFormValues) => {
+    if (!patientId) return;
+
+    const common = {
+      name: values.name.trim(),
+      when_label: blankToNull(values.when_label),
+      stop_date: values.stop_date || null,
+      instructions: blankToNull(values.instructions),
+    };
+
+    if (kind === 'formulation') {
+      const fields = {
+        ...common,
+        dose: blankToNull(values.dose),
+        with_text: blankToNull(values.with_text),
+        dose_slots: sortDoseSlots(values.dose_slots),
+      };
+      if (current) {
+        await reviseRegimenFormulation(current as RegimenFormulation, fields, values.start_date);
+      } else {
+        await createRegimenFormulation({ ...fields, patient_id: patientId, start_date: values.start_date });
+      }
+    } else {
+      // Only the parameter for the chosen schedule is kept
+      const fields = {
+        ...common,
+        body_region: blankToNull(values.body_region),
+        schedule_type: values.schedule_type,
+        times_per_week: values.schedule_type === 'times_per_week' ? Number(values.times_per_week) : null,
+        weekdays: values.schedule_type === 'weekdays' ? values.weekdays : null,
+        interval_days: values.schedule_type === 'every_n_days' ? Number(values.interval_days) : null,
+      };
+      if (current) {
+        await reviseRegimenTreatment(current as RegimenTreatment, fields, values.start_date);
+      } else {
+        await createRegimenTreatment({ ...fields, patient_id: patientId, start_date: values.start_date });
+      }
+    }
+
+    setEditing(null);
+    await fetchRegimen();
+  };
+
+  const handleStop = async () => {
+    if (!stopping) return;
+
+    try {
+      if (stopping.kind === 'formulation') {
+        await stopRegimenFormulation(stopping.id, stopping.date);
+      } else {
+        await stopRegimenTreatment(stopping.id, stopping.date);
+      }
+      setStopping(null);
+      await fetchRegimen();
+    } catch (err) {
+      console.error(`Failed to stop ${stopping.kind}:`, err);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="text-center py-12">
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-6">
+        <div className="text-center py-12">
+          <p className="text-red-600">Error: {error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const renderList = (kind: RegimenKind, title: string, items: RegimenItem[]) => {
+    const current = items.filter((item) => !item.stop_date || item.stop_date >= today);
+    const past = items.filter((item) => item.stop_date && item.stop_date < today);
+    const isAdding = editing?.kind === kind && editing.id === null;
+    const isSuperseded = (item: RegimenItem) =>
+      items.some((other) => other.lineage_id === item.lineage_id && other.version > item.version);
+
+    return (
+      <div className="bg-white border rounded-lg p-4 mb-4">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="font-semibold text-lg">{title}</h3>
+          {!isAdding && (
+            <button
+              onClick={() => setEditing({ kind, id: null })}
+              className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+            >
+              + Add {kind === 'formulation' ? 'Formulation' : 'Treatment'}
+            </button>
+          )}
+        </div>
+
+        {isAdding && (
+          <div className="mb-3">
+            <RegimenItemForm
+              kind={kind}
+              initialValues={toFormValues()}
+              submitLabel="Prescribe"
+              onSubmit={(values) => handleSave(kind, null, values)}
+              onCancel={() => setEditing(null)}
+            />
+          </div>
+        )}
+
+        {current.length === 0 && !isAdding && (
+          <p className="text-sm text-gray-500 italic">No current {title.toLowerCase()}</p>
+        )}
+
+        <div className="space-y-3">
+          {current.map((item) =>
+            editing?.kind === kind && editing.id === item.id ? (
+              <RegimenItemForm
+                key={item.id}
+                kind={kind}
+                initialValues={{
+                  ...toFormValues(item),
+                  start_date: item.start_date && item.start_date > today ? item.start_date : today,
+                }}
+                submitLabel="Save Changes"
+                startDateLabel="Effective from"
+                minStartDate={item.start_date && item.start_date > today ? undefined : item.start_date}
+                onSubmit={(values) => handleSave(kind, item, values)}
+                onCancel={() => setEditing(null)}
+              />
+            ) : (
+              <div key={item.id} className="flex justify-between items-start border rounded p-3">
+                <RegimenItemSummary item={item} today={today} superseded={isSuperseded(item)} />
+                {/* Only the latest version of a lineage can be changed or stopped */}
+                {isSuperseded(item) ? null : stopping?.kind === kind && stopping.id === item.id ? (
+                  <div className="flex items-center space-x-2 ml-4">
+                    <input
+                      type="date"
+                      value={stopping.date}
+                      min={item.start_date}
+                      onChange={(e) => setStopping({ ...stopping, date: e.target.value })}
+                      className="px-2 py-1 border rounded text-sm"
+                    />
+                    <button
+                      onClick={handleStop}
+                      disabled={!stopping.date}
+                      className="px-3 py-1 bg-red-600 text-white rounded text-sm hover:bg-red-700 disabled:opacity-50"
+                    >
+                      Stop
+                    </button>
+                    <button
+                      onClick={() => setStopping(null)}
+                      className="px-3 py-1 border rounded text-sm hover:bg-gray-100"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex space-x-2 ml-4">
+                    <button
+                      onClick={() => setEditing({ kind, id: item.id })}
+                      className="text-blue-600 hover:text-blue-800 text-sm"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => setStopping({ kind, id: item.id, date: today })}
+                      className="text-red-600 hover:text-red-800 text-sm"
+                    >
+                      Stop
+                    </button>
+                  </div>
+                )}
+              </div>
+            )
+          )}
+        </div>
+
+        {/* Stopped items and earlier versions stay for adherence history */}
+        {past.length > 0 && (
+          <div className="mt-4 pt-4 border-t">
+            <h4 className="font-medium text-sm text-gray-600 mb-2">History</h4>
+            <div className="space-y-2 opacity-70">
+              {past.map((item) => (
+                <div key={item.id} className="border rounded p-3 bg-gray-50">
+                  <RegimenItemSummary item={item} today={today} superseded={isSuperseded(item)} />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto">
+      <h1 className="text-2xl font-bold mb-6">Regimen</h1>
+      {renderList('formulation', 'Formulations', formulations)}
+      {renderList('treatment', 'Treatments', treatments)}
+    </div>
+  );
+}
@@ -1,33 +1,65 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useParams } from 'react-router-dom';
-import { getDailySummaryRange, getPatientConfig, getCycleRange } from '../lib/api/dailyEntry';
-import type { DailySummary, PatientConfig, CycleDaySummary } from '../types/db';
+import {
+  getDailySummaryRange,
+  getPatientConfig,
+  getCycleRange,
+  getCustomFields,
+  getWeeklyRasaCounts,
+  getDoshaAssessments,
+  getClinicalObservations,
+} from '../lib/api/dailyEntry';
+import type {
+  DailySummary,
+  PatientConfig,
+  CycleDaySummary,
+  CustomField,
+  DoshaAssessment,
+  ClinicalObservation,
+  WeeklyRasaCount,
+} from '../types/db';
 import { subDays } from 'date-fns';
 import { DailyLensView, CycleLensView, CombinedLensView } from '../components/tracker/LensViews';
 import { DailyEntryOverlay } from '../components/tracker/DailyEntryOverlay';
+import { DoshaSummary } from '../components/assessment/DoshaSummary';
+import { ObservationLog } from '../components/observations/ObservationLog';
+import { useCyclePrediction } from '../hooks/useCyclePrediction';
 
 type LensType = 'daily' | 'cycle' | 'combined';
 
 export default function ClinicianTrackerPage() {
   const { patientId } = useParams<{ patientId: string }>();
   const [patientConfig, setPatientConfig] = useState<PatientConfig | null>(null);
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [doshaAssessments, setDoshaAssessments] = useState<DoshaAssessment[]>([]);
+  const [observations, setObservations] = useState<ClinicalObservation[]>([]);
   const [fromDate, setFromDate] = useState<string>('');
   const [toDate, setToDate] = useState<string>(() => new Date().toISOString().split('T')[0]);
   const [activeLens, setActiveLens] = useState<LensType>('daily');
   const [summaries, setSummaries] = useState<DailySummary[]>([]);
+  const [rasaCounts, setRasaCounts] = useState<WeeklyRasaCount[]>([]);
   const [cycleData, setCycleData] = useState<CycleDaySummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const prediction = useCyclePrediction(patientId, patientConfig);
 
-  // Fetch patient config on mount
+  // Fetch patient config, custom fields, dosha assessments and observations on mount
   useEffect(() => {
     if (!patientId) return;
 
     const fetchConfig = async () => {
       try {
-        const config = await getPatientConfig(patientId);
+        const [config, fields, assessments, observationList] = await Promise.all([
+          getPatientConfig(patientId),
+          getCustomFields(patientId),
+          getDoshaAssessments(patientId),
+          getClinicalObservations(patientId),
+        ]);
         setPatientConfig(config);
+        setCustomFields(fields);
+        setDoshaAssessments(assessments);
+        setObservations(observationList);
 
         // Set default fromDate based on tracking_window_days
         const today = new Date();
@@ -43,6 +75,12 @@ export default function ClinicianTrackerPage() {
     fetchConfig();
   }, [patientId]);
 
+  // Reload observations after one is recorded, edited or deleted
+  const fetchObservations = useCallback(async () => {
+    if (!patientId) return;
+    setObservations(await getClinicalObservations(patientId));
+  }, [patientId]);
+
   // Fetch summaries when date range or config changes
   const fetchSummaries = useCallback(async () => {
     if (!patientId || !fromDate || !toDate) return;
@@ -50,8 +88,12 @@ export default function ClinicianTrackerPage() {
     setLoading(true);
     setError(null);
     try {
-      const data = await getDailySummaryRange(patientId, fromDate, toDate);
+      const [data, rasas] = await Promise.all([
+        getDailySummaryRange(patientId, fromDate, toDate),
+        getWeeklyRasaCounts(patientId, fromDate, toDate),
+      ]);
       setSummaries(data);
+      setRasaCounts(rasas);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load summaries');
       console.error('Error fetching summaries:', err);
@@ -77,8 +119,14 @@ export default function ClinicianTrackerPage() {
     }
   }, [patientId, fromDate, toDate]);
 
+  // Cycle and combined lenses are only offered while cycle tracking is on for the patient
+  const cycleTrackingEnabled = !!patientConfig?.cycle_tracking_enabled;
+  const lens: LensType = cycleTrackingEnabled ? activeLens : 'daily';
+  // Days with a tongue and pulse observation, marked in the lenses
+  const observationDates = new Set(observations.map((o) => o.observed_on));
+
   // Determine which data type we need (cycle/combined use same data)
-  const needsCycleData = activeLens === 'cycle' || activeLens === 'combined';
+  const needsCycleData = lens === 'cycle' || lens === 'combined';
 
   // Fetch data based on active lens - only refetch when data type changes
   useEffect(() => {
@@ -98,7 +146,7 @@ export default function ClinicianTrackerPage() {
   const handleCloseOverlay = () => {
     setSelectedDate(null);
     // Refresh appropriate data based on active lens
-    if (activeLens === 'daily') {
+    if (lens === 'daily') {
       fetchSummaries();
     } else {
       fetchCycleData();
@@ -149,6 +197,15 @@ export default function ClinicianTrackerPage() {
         </div>
         <p className="text-sm text-gray-600 mb-4">Patient ID: {patientId}</p>
 
+        <DoshaSummary assessments={doshaAssessments} />
+        <ObservationLog
+          patientId={patientId}
+          observations={observations}
+          fromDate={fromDate}
+          toDate={toDate}
+          onChange={fetchObservations}
+        />
+
         {/* Date Range Selector */}
         <div className="flex gap-4 items-center mb-4">
           <div>
@@ -181,45 +238,67 @@ export default function ClinicianTrackerPage() {
           <button
             onClick={() => setActiveLens('daily')}
             className={`px-4 py-2 rounded font-medium ${
-              activeLens === 'daily'
+              lens === 'daily'
                 ? 'bg-blue-600 text-white'
                 : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
             }`}
           >
             Daily Lens
           </button>
-          <button
-            onClick={() => setActiveLens('cycle')}
-            className={`px-4 py-2 rounded font-medium ${
-              activeLens === 'cycle'
-                ? 'bg-blue-600 text-white'
-                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-            }`}
-          >
-            Cycle Lens
-          </button>
-          <button
-            onClick={() => setActiveLens('combined')}
-            className={`px-4 py-2 rounded font-medium ${
-              activeLens === 'combined'
-                ? 'bg-blue-600 text-white'
-                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-            }`}
-          >
-            Combined Lens
-          </button>
+          {cycleTrackingEnabled && (
+            <>
+              <button
+                onClick={() => setActiveLens('cycle')}
+                className={`px-4 py-2 rounded font-medium ${
+                  lens === 'cycle'
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                Cycle Lens
+              </button>
+              <button
+                onClick={() => setActiveLens('combined')}
+                className={`px-4 py-2 rounded font-medium ${
+                  lens === 'combined'
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                Combined Lens
+              </button>
+            </>
+          )}
         </div>
       </div>
 
       {/* Render appropriate lens view */}
-      {activeLens === 'daily' && (
-        <DailyLensView summaries={summaries} onDayClick={handleDayClick} />
+      {lens === 'daily' && (
+        <DailyLensView
+          summaries={summaries}
+          customFields={customFields}
+          rasaCounts={rasaCounts}
+          cycleTrackingEnabled={cycleTrackingEnabled}
+          observationDates={observationDates}
+          onDayClick={handleDayClick}
+        />
       )}
-      {activeLens === 'cycle' && (
-        <CycleLensView cycleData={cycleData} onDayClick={handleDayClick} />
+      {lens === 'cycle' && (
+        <CycleLensView
+          cycleData={cycleData}
+          customFields={customFields}
+          prediction={prediction}
+          observationDates={observationDates}
+          onDayClick={handleDayClick}
+        />
       )}
-      {activeLens === 'combined' && (
-        <CombinedLensView cycleData={cycleData} onDayClick={handleDayClick} />
+      {lens === 'combined' && (
+        <CombinedLensView
+          cycleData={cycleData}
+          customFields={customFields}
+          observationDates={observationDates}
+          onDayClick={handleDayClick}
+        />
       )}
 
       {/* Daily Entry Overlay (Read-Only) */}
@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format, parseISO } from 'date-fns';
+import { addDoshaAssessment, getDoshaAssessments } from '../lib/api/dailyEntry';
+import type { Dosha, DoshaAssessment, DoshaAssessmentKind } from '../types/db';
+import { ASSESSMENT_LABELS, VIKRITI_INTERVAL_DAYS, isVikritiDue, latestAssessment } from '../lib/dosha';
+import { DoshaQuestionnaire } from '../components/assessment/DoshaQuestionnaire';
+import { DoshaScoreBars } from '../components/assessment/DoshaScores';
+import { useProfile } from '../hooks/useAuth';
+
+export default function PatientAssessmentPage() {
+  const { id: patientId } = useProfile();
+  const [assessments, setAssessments] = useState<DoshaAssessment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [activeKind, setActiveKind] = useState<DoshaAssessmentKind | null>(null);
+
+  const fetchAssessments = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setAssessments(await getDoshaAssessments(patientId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load assessments');
+      console.error('Error fetching dosha assessments:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    fetchAssessments();
+  }, [fetchAssessments]);
+
+  const handleSubmit = async (answers: Record<string, Dosha>, notes?: string) => {
+    if (!activeKind) return;
+    await addDoshaAssessment({
+      patient_id: patientId,
+      kind: activeKind,
+      answers,
+      notes,
+      completed_by: patientId,
+    });
+    setActiveKind(null);
+    await fetchAssessments();
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="text-center py-12">
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-6">
+        <div className="text-center py-12">
+          <p className="text-red-600">Error: {error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const prakriti = latestAssessment(assessments, 'prakriti');
+  const vikriti = latestAssessment(assessments, 'vikriti');
+  const vikritiDue = isVikritiDue(assessments, today);
+
+  return (
+    <div className="p-6 max-w-3xl mx-auto">
+      <h1 className="text-2xl font-bold mb-2">Dosha Assessment</h1>
+      <p className="text-sm text-gray-600 mb-6">
+        Your Prakriti is your constitution, assessed once when you start. Your Vikriti is how you are
+        now, checked every {VIKRITI_INTERVAL_DAYS} days so your practitioner can follow changes.
+      </p>
+
+      {activeKind ? (
+        <DoshaQuestionnaire
+          kind={activeKind}
+          onSubmit={handleSubmit}
+          onCancel={() => setActiveKind(null)}
+        />
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {([
+            ['prakriti', prakriti],
+            ['vikriti', vikriti],
+          ] as [DoshaAssessmentKind, DoshaAssessment | undefined][]).map(([kind, latest]) => (
+            <div key={kind} className="bg-white border rounded-lg p-4">
+              <h3 className="font-semibold mb-1">{ASSESSMENT_LABELS[kind]}</h3>
+              {latest ? (
+                <>
+                  <p className="text-xs text-gray-500 mb-2">
+                    Taken {format(parseISO(latest.completed_at), 'MMM d, yyyy')}
+                  </p>
+                  <DoshaScoreBars assessment={latest} />
+                </>
+              ) : (
+                <p className="text-sm text-gray-500 italic mb-2">Not taken yet</p>
+              )}
+              {kind === 'vikriti' && latest && vikritiDue && (
+                <p className="text-sm text-yellow-700 mt-2">A new check-in is due</p>
+              )}
+              <button
+                onClick={() => setActiveKind(kind)}
+                className={`mt-3 px-3 py-1 rounded text-sm ${
+                  !latest || (kind === 'vikriti' && vikritiDue)
+                    ? 'bg-blue-600 text-white hover:bg-blue-700'
+                    : 'border hover:bg-gray-50'
+                }`}
+              >
+                {!latest ? 'Start' : kind === 'prakriti' ? 'Retake' : 'Check in'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,25 +1,15 @@
 import { useState, useEffect, useCallback } from 'react';
-import { differenceInCalendarDays } from 'date-fns';
 import { getDailyEntryBundle, getPatientConfig } from '../lib/api/dailyEntry';
+import { canEditEntry } from '../lib/editWindow';
 import type { DailyEntryBundle, PatientConfig } from '../types/db';
-import {
-  SleepSection,
-  EarlyMorningSection,
-  FoodFluidSection,
-  BowelSection,
-  ExerciseSection,
-  EnergySection,
-  VitalsSection,
-  MedicationsSection,
-  SymptomsSection,
-  CycleSection,
-  RegimenSection,
-} from '../components/daily-entry/Sections';
-
-// Dev patient ID from seed data
-const DEV_PATIENT_ID = '11111111-1111-1111-1111-111111111111';
+import { useProfile } from '../hooks/useAuth';
+import { resolveDailySections } from '../lib/dailySections';
+import { DailyEntrySections, EditWindowStatus } from '../components/daily-entry/DailyEntrySections';
+import { CyclePredictionBanner } from '../components/tracker/CyclePredictionBanner';
+import { useCyclePrediction } from '../hooks/useCyclePrediction';
 
 export default function PatientDailyEntryPage() {
+  const { id: patientId } = useProfile();
   const [selectedDate, setSelectedDate] = useState<string>(() => {
     return new Date().toISOString().split('T')[0]; // Today as YYYY-MM-DD
   });
@@ -27,17 +17,16 @@ export default function PatientDailyEntryPage() {
   const [patientConfig, setPatientConfig] = useState<PatientConfig | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const prediction = useCyclePrediction(patientId, patientConfig);
 
   // Calculate if the selected date is editable
-  const isEditable = patientConfig
-    ? differenceInCalendarDays(new Date(), new Date(selectedDate)) <= patientConfig.edit_window_days
-    : false;
+  const isEditable = canEditEntry(selectedDate, patientConfig);
 
   // Fetch patient config on mount
   useEffect(() => {
     const fetchConfig = async () => {
       try {
-        const config = await getPatientConfig(DEV_PATIENT_ID);
+        const config = await getPatientConfig(patientId);
         setPatientConfig(config);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load config');
@@ -46,14 +35,14 @@ export default function PatientDailyEntryPage() {
     };
 
     fetchConfig();
-  }, []);
+  }, [patientId]);
 
   // Fetch bundle function (can be called to refresh data)
   const fetchBundle = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      const data = await getDailyEntryBundle(DEV_PATIENT_ID, selectedDate);
+      const data = await getDailyEntryBundle(patientId, selectedDate);
       setBundle(data);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load data');
@@ -61,7 +50,7 @@ export default function PatientDailyEntryPage() {
     } finally {
       setLoading(false);
     }
-  }, [selectedDate]);
+  }, [patientId, selectedDate]);
 
   // Fetch bundle when date changes
   useEffect(() => {
@@ -112,13 +101,7 @@ export default function PatientDailyEntryPage() {
           <h1 className="text-3xl font-bold">Daily Entry</h1>
           {patientConfig && (
             <p className="text-sm mt-1">
-              {isEditable ? (
-                <span className="text-green-600 font-medium">✓ Editable</span>
-              ) : (
-                <span className="text-gray-500">
-                  Read-only (outside {patientConfig.edit_window_days}-day edit window)
-                </span>
-              )}
+              <EditWindowStatus editable={isEditable} editWindowDays={patientConfig.edit_window_days} />
             </p>
           )}
         </div>
@@ -144,40 +127,18 @@ export default function PatientDailyEntryPage() {
         </div>
       </div>
 
-      {/* Main Content Areas */}
-      <div className="space-y-8">
-        {/* Daily Tracking */}
-        <section id="daily-tracking">
-          <h2 className="text-2xl font-bold mb-4">Daily Tracking</h2>
-          <div className="space-y-4">
-            <SleepSection data={bundle} editable={isEditable} />
-            <EarlyMorningSection data={bundle} editable={isEditable} />
-            <FoodFluidSection data={bundle} editable={isEditable} onRefresh={fetchBundle} />
-            <BowelSection data={bundle} editable={isEditable} onRefresh={fetchBundle} />
-            <ExerciseSection data={bundle} editable={isEditable} onRefresh={fetchBundle} />
-            <EnergySection data={bundle} editable={isEditable} />
-            <VitalsSection data={bundle} editable={isEditable} onRefresh={fetchBundle} />
-            <MedicationsSection data={bundle} editable={isEditable} onRefresh={fetchBundle} />
-            <SymptomsSection data={bundle} editable={isEditable} onRefresh={fetchBundle} />
-          </div>
-        </section>
-
-        {/* Cycle Tracking */}
-        <section id="cycle-tracking">
-          <h2 className="text-2xl font-bold mb-4">Cycle Tracking</h2>
-          <div className="space-y-4">
-            <CycleSection data={bundle} editable={isEditable} onRefresh={fetchBundle} />
-          </div>
-        </section>
-
-        {/* Formulations & Treatments */}
-        <section id="formulations-treatments">
-          <h2 className="text-2xl font-bold mb-4">Formulations & Treatments</h2>
-          <div className="space-y-4">
-            <RegimenSection data={bundle} editable={isEditable} onRefresh={fetchBundle} />
-          </div>
-        </section>
-      </div>
+      {prediction && (
+        <div className="mb-6">
+          <CyclePredictionBanner prediction={prediction} />
+        </div>
+      )}
+
+      <DailyEntrySections
+        bundle={bundle}
+        editable={isEditable}
+        sections={resolveDailySections(patientConfig)}
+        onRefresh={fetchBundle}
+      />
     </div>
   );
 }
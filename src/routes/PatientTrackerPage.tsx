@@ -1,32 +1,51 @@
 import { useState, useEffect, useCallback } from 'react';
-import { getDailySummaryRange, getPatientConfig, getCycleRange } from '../lib/api/dailyEntry';
-import type { DailySummary, PatientConfig, CycleDaySummary } from '../types/db';
+import {
+  getDailySummaryRange,
+  getPatientConfig,
+  getCycleRange,
+  getCustomFields,
+  getWeeklyRasaCounts,
+} from '../lib/api/dailyEntry';
+import type {
+  DailySummary,
+  PatientConfig,
+  CycleDaySummary,
+  CustomField,
+  WeeklyRasaCount,
+} from '../types/db';
 import { subDays } from 'date-fns';
 import { DailyLensView, CycleLensView, CombinedLensView } from '../components/tracker/LensViews';
 import { DailyEntryOverlay } from '../components/tracker/DailyEntryOverlay';
-
-// Dev patient ID from seed data
-const DEV_PATIENT_ID = '11111111-1111-1111-1111-111111111111';
+import { useCyclePrediction } from '../hooks/useCyclePrediction';
+import { useProfile } from '../hooks/useAuth';
 
 type LensType = 'daily' | 'cycle' | 'combined';
 
 export default function PatientTrackerPage() {
+  const { id: patientId } = useProfile();
   const [patientConfig, setPatientConfig] = useState<PatientConfig | null>(null);
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
   const [fromDate, setFromDate] = useState<string>('');
   const [toDate, setToDate] = useState<string>(() => new Date().toISOString().split('T')[0]);
   const [activeLens, setActiveLens] = useState<LensType>('daily');
   const [summaries, setSummaries] = useState<DailySummary[]>([]);
+  const [rasaCounts, setRasaCounts] = useState<WeeklyRasaCount[]>([]);
   const [cycleData, setCycleData] = useState<CycleDaySummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const prediction = useCyclePrediction(patientId, patientConfig);
 
-  // Fetch patient config on mount
+  // Fetch patient config and custom fields on mount
   useEffect(() => {
     const fetchConfig = async () => {
       try {
-        const config = await getPatientConfig(DEV_PATIENT_ID);
+        const [config, fields] = await Promise.all([
+          getPatientConfig(patientId),
+          getCustomFields(patientId),
+        ]);
         setPatientConfig(config);
+        setCustomFields(fields);
 
         // Set default fromDate based on tracking_window_days
         const today = new Date();
@@ -40,7 +59,7 @@ export default function PatientTrackerPage() {
     };
 
     fetchConfig();
-  }, []);
+  }, [patientId]);
 
   // Fetch summaries when date range or config changes
   const fetchSummaries = useCallback(async () => {
@@ -49,15 +68,19 @@ export default function PatientTrackerPage() {
     setLoading(true);
     setError(null);
     try {
-      const data = await getDailySummaryRange(DEV_PATIENT_ID, fromDate, toDate);
+      const [data, rasas] = await Promise.all([
+        getDailySummaryRange(patientId, fromDate, toDate),
+        getWeeklyRasaCounts(patientId, fromDate, toDate),
+      ]);
       setSummaries(data);
+      setRasaCounts(rasas);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load summaries');
       console.error('Error fetching summaries:', err);
     } finally {
       setLoading(false);
     }
-  }, [fromDate, toDate]);
+  }, [patientId, fromDate, toDate]);
 
   // Fetch cycle data for cycle and combined lenses
   const fetchCycleData = useCallback(async () => {
@@ -66,7 +89,7 @@ export default function PatientTrackerPage() {
     setLoading(true);
     setError(null);
     try {
-      const data = await getCycleRange(DEV_PATIENT_ID, fromDate, toDate);
+      const data = await getCycleRange(patientId, fromDate, toDate);
       setCycleData(data);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load cycle data');
@@ -74,10 +97,14 @@ export default function PatientTrackerPage() {
     } finally {
       setLoading(false);
     }
-  }, [fromDate, toDate]);
+  }, [patientId, fromDate, toDate]);
+
+  // Cycle and combined lenses are only offered while cycle tracking is on for the patient
+  const cycleTrackingEnabled = !!patientConfig?.cycle_tracking_enabled;
+  const lens: LensType = cycleTrackingEnabled ? activeLens : 'daily';
 
   // Determine which data type we need (cycle/combined use same data)
-  const needsCycleData = activeLens === 'cycle' || activeLens === 'combined';
+  const needsCycleData = lens === 'cycle' || lens === 'combined';
 
   // Fetch data based on active lens - only refetch when data type changes
   useEffect(() => {
@@ -97,7 +124,7 @@ export default function PatientTrackerPage() {
   const handleCloseOverlay = () => {
     setSelectedDate(null);
     // Refresh appropriate data based on active lens
-    if (activeLens === 'daily') {
+    if (lens === 'daily') {
       fetchSummaries();
     } else {
       fetchCycleData();
@@ -164,51 +191,70 @@ export default function PatientTrackerPage() {
           <button
             onClick={() => setActiveLens('daily')}
             className={`px-4 py-2 rounded font-medium ${
-              activeLens === 'daily'
+              lens === 'daily'
                 ? 'bg-blue-600 text-white'
                 : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
             }`}
           >
             Daily Lens
           </button>
-          <button
-            onClick={() => setActiveLens('cycle')}
-            className={`px-4 py-2 rounded font-medium ${
-              activeLens === 'cycle'
-                ? 'bg-blue-600 text-white'
-                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-            }`}
-          >
-            Cycle Lens
-          </button>
-          <button
-            onClick={() => setActiveLens('combined')}
-            className={`px-4 py-2 rounded font-medium ${
-              activeLens === 'combined'
-                ? 'bg-blue-600 text-white'
-                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-            }`}
-          >
-            Combined Lens
-          </button>
+          {cycleTrackingEnabled && (
+            <>
+              <button
+                onClick={() => setActiveLens('cycle')}
+                className={`px-4 py-2 rounded font-medium ${
+                  lens === 'cycle'
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                Cycle Lens
+              </button>
+              <button
+                onClick={() => setActiveLens('combined')}
+                className={`px-4 py-2 rounded font-medium ${
+                  lens === 'combined'
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                Combined Lens
+              </button>
+            </>
+          )}
         </div>
       </div>
 
       {/* Render appropriate lens view */}
-      {activeLens === 'daily' && (
-        <DailyLensView summaries={summaries} onDayClick={handleDayClick} />
+      {lens === 'daily' && (
+        <DailyLensView
+          summaries={summaries}
+          customFields={customFields}
+          rasaCounts={rasaCounts}
+          cycleTrackingEnabled={cycleTrackingEnabled}
+          onDayClick={handleDayClick}
+        />
       )}
-      {activeLens === 'cycle' && (
-        <CycleLensView cycleData={cycleData} onDayClick={handleDayClick} />
+      {lens === 'cycle' && (
+        <CycleLensView
+          cycleData={cycleData}
+          customFields={customFields}
+          prediction={prediction}
+          onDayClick={handleDayClick}
+        />
       )}
-      {activeLens === 'combined' && (
-        <CombinedLensView cycleData={cycleData} onDayClick={handleDayClick} />
+      {lens === 'combined' && (
+        <CombinedLensView
+          cycleData={cycleData}
+          customFields={customFields}
+          onDayClick={handleDayClick}
+        />
       )}
 
       {/* Daily Entry Overlay */}
       {selectedDate && (
         <DailyEntryOverlay
-          patientId={DEV_PATIENT_ID}
+          patientId={patientId}
           date={selectedDate}
           onClose={handleCloseOverlay}
         />
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+import { signInWithPassword, signInWithMagicLink, signUpWithPassword } from '../lib/api/auth';
+
+type SignInMode = 'password' | 'magic-link' | 'sign-up';
+
+export default function SignInPage() {
+  const { session, loading } = useAuth();
+  const location = useLocation();
+  const [mode, setMode] = useState<SignInMode>('password');
+  const [formData, setFormData] = useState({
+    email: '',
+    password: '',
+    full_name: '',
+  });
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Return to the page that sent us here once signed in
+  const from = (location.state as { from?: string } | null)?.from || '/';
+
+  if (!loading && session) {
+    return <Navigate to={from} replace />;
+  }
+
+  const handleModeChange = (newMode: SignInMode) => {
+    setMode(newMode);
+    setError(null);
+    setMessage(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      if (mode === 'password') {
+        await signInWithPassword(formData.email, formData.password);
+      } else if (mode === 'magic-link') {
+        await signInWithMagicLink(formData.email);
+        setMessage('Check your email for a sign-in link.');
+      } else {
+        await signUpWithPassword({
+          email: formData.email,
+          password: formData.password,
+          full_name: formData.full_name,
+        });
+        setMessage('Account created. Check your email to confirm your address, then sign in.');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+      console.error('Error signing in:', err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="bg-white border rounded-lg p-6 w-full max-w-md">
+        <h1 className="text-2xl font-bold mb-4">MyAyu MVP</h1>
+
+        {/* Mode Tabs */}
+        <div className="flex space-x-2 bg-gray-100 rounded-lg p-1 mb-6">
+          {([
+            ['password', 'Password'],
+            ['magic-link', 'Magic Link'],
+            ['sign-up', 'Sign Up'],
+          ] as const).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => handleModeChange(value)}
+              className={`flex-1 px-3 py-1 text-sm font-medium rounded-md transition-colors ${
+                mode === value
+                  ? 'bg-white text-gray-900 shadow-sm'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === 'sign-up' && (
+            <div>
+              <label className="block text-sm font-medium mb-1">Full name</label>
+              <input
+                type="text"
+                required
+                value={formData.full_name}
+                onChange={(e) => setFormData({ ...formData, full_name: e.target.value })}
+                className="w-full px-3 py-2 border rounded text-sm"
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium mb-1">Email</label>
+            <input
+              type="email"
+              required
+              autoComplete="email"
+              value={formData.email}
+              onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+              className="w-full px-3 py-2 border rounded text-sm"
+            />
+          </div>
+          {mode !== 'magic-link' && (
+            <div>
+              <label className="block text-sm font-medium mb-1">Password</label>
+              <input
+                type="password"
+                required
+                minLength={6}
+                autoComplete={mode === 'sign-up' ? 'new-password' : 'current-password'}
+                value={formData.password}
+                onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                className="w-full px-3 py-2 border rounded text-sm"
+              />
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">Error: {error}</p>}
+          {message && <p className="text-sm text-green-600">{message}</p>}
+
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            {submitting
+              ? 'Please wait...'
+              : mode === 'password'
+              ? 'Sign In'
+              : mode === 'magic-link'
+              ? 'Send Magic Link'
+              : 'Create Account'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
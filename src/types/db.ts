@@ -25,15 +25,72 @@ export interface PractitionerProfile {
   created_at: string;
 }
 
+export interface CareRelationship {
+  id: string;
+  practitioner_id: string;
+  patient_id: string;
+  status: 'invited' | 'active' | 'ended';
+  created_at: string;
+  updated_at: string;
+}
+
+// Row in a clinician's patient roster
+export interface RosterPatient {
+  relationship: CareRelationship;
+  profile: Profile;
+  last_entry_date?: string;
+}
+
 export interface PatientConfig {
   patient_id: string;
   tracking_window_days: number;
   edit_window_days: number;
   cycle_tracking_enabled: boolean;
+  daily_sections?: DailySectionSetting[] | null; // Shown sections in order; null shows them all
   created_at: string;
   updated_at: string;
 }
 
+// Daily entry sections a patient can be asked to fill in
+export type DailySectionKey =
+  | 'sleep'
+  | 'early_morning'
+  | 'food_fluid'
+  | 'bowel'
+  | 'exercise'
+  | 'energy'
+  | 'vitals'
+  | 'medications'
+  | 'symptoms'
+  | 'custom'
+  | 'cycle'
+  | 'regimen';
+
+export interface DailySectionSetting {
+  key: DailySectionKey;
+  required: boolean;
+}
+
+// Settings a linked clinician can change; timezone lives on PatientProfile
+export type PatientSetting =
+  | 'tracking_window_days'
+  | 'edit_window_days'
+  | 'cycle_tracking_enabled'
+  | 'daily_sections'
+  | 'timezone';
+
+// One recorded change to a patient setting (values as text)
+export interface PatientSettingChange {
+  id: string;
+  patient_id: string;
+  setting: PatientSetting;
+  old_value?: string | null;
+  new_value?: string | null;
+  changed_by?: string | null; // null when changed outside the app
+  changed_at: string;
+  changed_by_profile?: Pick<Profile, 'id' | 'role' | 'full_name'> | null;
+}
+
 // ============================================================================
 // DAILY ENTRY
 // ============================================================================
@@ -48,7 +105,6 @@ export interface DailyEntry {
   energy_drive?: number;
   overall_mood?: number;
   reflection?: string;
-  cycle_day?: number;
   created_at: string;
   updated_at: string;
 }
@@ -86,11 +142,19 @@ export interface EarlyMorningEntry {
 // FOOD & FLUIDS
 // ============================================================================
 
+// The six tastes
+export type Rasa = 'sweet' | 'sour' | 'salty' | 'pungent' | 'bitter' | 'astringent';
+
+// Qualities, in opposing pairs (heavy/light, hot/cold, oily/dry); a food has at most one of a pair
+export type Guna = 'heavy' | 'light' | 'hot' | 'cold' | 'oily' | 'dry';
+
 export interface SavedFood {
   id: string;
   patient_id: string;
   label: string;
   notes?: string;
+  rasas: Rasa[]; // Default tags for foods logged from this one
+  gunas: Guna[];
   created_at: string;
 }
 
@@ -102,6 +166,27 @@ export interface FoodEvent {
   meal_type?: 'breakfast' | 'lunch' | 'dinner' | 'snack' | 'other';
   description?: string;
   saved_food_id?: string;
+  rasas: Rasa[];
+  gunas: Guna[];
+  created_at: string;
+  updated_at: string;
+}
+
+// Post-meal digestion ratings, each 0-3 (see src/lib/digestion.ts for the level names)
+export type DigestionRating = 'hunger_before' | 'heaviness' | 'bloating' | 'gas' | 'acid' | 'energy_after';
+
+// Optional check-in on how one food event was digested; at least one rating is set
+export interface DigestionCheckin {
+  id: string;
+  food_event_id: string;
+  daily_entry_id: string;
+  patient_id: string;
+  hunger_before?: number | null;
+  heaviness?: number | null;
+  bloating?: number | null;
+  gas?: number | null;
+  acid?: number | null;
+  energy_after?: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -121,12 +206,24 @@ export interface DailyFluidTotals {
 // BOWEL MOVEMENTS
 // ============================================================================
 
+export type StoolColor = 'brown' | 'light_brown' | 'dark_brown' | 'yellow' | 'green' | 'black' | 'red' | 'pale';
+export type BowelEase = 'easy' | 'some_effort' | 'straining';
+export type BowelUrgency = 'none' | 'some' | 'urgent';
+export type BowelCompleteness = 'complete' | 'incomplete';
+
 export interface BowelMovement {
   id: string;
   daily_entry_id: string;
   patient_id: string;
   time?: string;
   details?: string;
+  bristol_type?: number | null; // Bristol stool scale, 1-7
+  color?: StoolColor | null;
+  ease?: BowelEase | null;
+  urgency?: BowelUrgency | null;
+  completeness?: BowelCompleteness | null;
+  mucus?: boolean | null;
+  undigested_food?: boolean | null;
   created_at: string;
   updated_at: string;
 }
@@ -225,6 +322,98 @@ export interface SymptomLog {
   updated_at: string;
 }
 
+// ============================================================================
+// CUSTOM FIELDS
+// ============================================================================
+
+export type CustomFieldType = 'scale' | 'boolean' | 'number' | 'choice' | 'text';
+
+// A tracking field a clinician defined for one patient
+export interface CustomField {
+  id: string;
+  patient_id: string;
+  created_by?: string | null;
+  label: string;
+  field_type: CustomFieldType;
+  scale_min?: number | null; // scale only
+  scale_max?: number | null;
+  unit?: string | null; // number only
+  choices?: string[] | null; // choice only
+  archived_at?: string | null; // No longer asked for; logged values are kept
+  created_at: string;
+  updated_at: string;
+}
+
+// A logged value, in the column matching the field type
+export interface CustomFieldValue {
+  id: string;
+  daily_entry_id: string;
+  patient_id: string;
+  custom_field_id: string;
+  value_number?: number | null; // scale, number
+  value_boolean?: boolean | null; // boolean
+  value_text?: string | null; // choice, text
+  created_at: string;
+  updated_at: string;
+}
+
+// Logged values by field id, as carried by the tracker summaries
+export type CustomValues = Record<string, number | boolean | string>;
+
+// ============================================================================
+// DOSHA ASSESSMENTS
+// ============================================================================
+
+export type Dosha = 'vata' | 'pitta' | 'kapha';
+
+// prakriti: constitution (baseline intake); vikriti: current imbalance (periodic check-in)
+export type DoshaAssessmentKind = 'prakriti' | 'vikriti';
+
+// A completed questionnaire; scores are the number of answers per dosha, set by the database
+export interface DoshaAssessment {
+  id: string;
+  patient_id: string;
+  kind: DoshaAssessmentKind;
+  answers: Record<string, Dosha>; // Question key to the dosha of the chosen option
+  vata_score: number;
+  pitta_score: number;
+  kapha_score: number;
+  notes?: string | null;
+  completed_by?: string | null;
+  completed_at: string;
+  created_at: string;
+}
+
+// ============================================================================
+// CLINICAL OBSERVATIONS
+// ============================================================================
+
+export type TongueCoating = 'none' | 'thin' | 'thick';
+export type TongueCoatingColor = 'white' | 'yellow' | 'grey' | 'brown';
+export type TongueColor = 'pale' | 'pink' | 'red' | 'dark_red' | 'purple';
+export type TongueCracks = 'none' | 'few' | 'many';
+export type PulseStrength = 'weak' | 'moderate' | 'strong';
+
+// Tongue and pulse (nadi) findings from a visit; clinicians only, never shown to the patient
+export interface ClinicalObservation {
+  id: string;
+  patient_id: string;
+  clinician_id?: string | null;
+  observed_on: string; // YYYY-MM-DD
+  tongue_coating?: TongueCoating | null;
+  tongue_coating_color?: TongueCoatingColor | null;
+  tongue_color?: TongueColor | null;
+  tongue_cracks?: TongueCracks | null;
+  vata_pulse?: number | null; // Prominence of each dosha's quality in the pulse, 0 (absent) to 3 (dominant)
+  pitta_pulse?: number | null;
+  kapha_pulse?: number | null;
+  pulse_rate?: number | null; // Beats per minute
+  pulse_strength?: PulseStrength | null;
+  notes?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 // ============================================================================
 // CYCLE TRACKER
 // ============================================================================
@@ -233,7 +422,8 @@ export interface CycleLog {
   id: string;
   daily_entry_id: string;
   patient_id: string;
-  cycle_day?: number;
+  cycle_day?: number | null; // Manual override; otherwise computed from logged period starts
+  cycle_day_manual: boolean;
   physical_symptom_keys?: string[];
   emotional_symptom_keys?: string[];
   bleeding_quantity?: string;
@@ -250,7 +440,9 @@ export interface CycleComment {
   cycle_log_id: string;
   author_type: 'patient' | 'clinician';
   author_id: string;
+  author?: Pick<Profile, 'id' | 'role' | 'full_name'>; // Joined author profile
   text: string;
+  read_at?: string; // Set when the other party has read it
   created_at: string;
 }
 
@@ -258,6 +450,13 @@ export interface CycleComment {
 // FORMULATIONS & TREATMENTS
 // ============================================================================
 
+export type DoseSlot = 'morning' | 'midday' | 'evening' | 'bedtime';
+
+export interface FormulationDoseSlot {
+  slot: DoseSlot;
+  time?: string; // HH:MM
+}
+
 export interface RegimenFormulation {
   id: string;
   patient_id: string;
@@ -268,6 +467,9 @@ export interface RegimenFormulation {
   start_date?: string;
   stop_date?: string;
   instructions?: string;
+  dose_slots: FormulationDoseSlot[]; // Empty means one unscheduled daily dose
+  lineage_id: string; // Shared by every version of this formulation
+  version: number;
   created_at: string;
   updated_at: string;
 }
@@ -277,12 +479,15 @@ export interface RegimenFormulationIntake {
   regimen_formulation_id: string;
   daily_entry_id: string;
   patient_id: string;
+  slot?: DoseSlot; // Unset for a formulation without dose slots
   status?: 'taken' | 'skipped' | 'partial';
   notes?: string;
   created_at: string;
   updated_at: string;
 }
 
+export type TreatmentScheduleType = 'daily' | 'times_per_week' | 'weekdays' | 'every_n_days';
+
 export interface RegimenTreatment {
   id: string;
   patient_id: string;
@@ -292,6 +497,12 @@ export interface RegimenTreatment {
   instructions?: string;
   start_date?: string;
   stop_date?: string;
+  schedule_type: TreatmentScheduleType;
+  times_per_week?: number; // times_per_week schedules
+  weekdays?: number[]; // weekdays schedules, 0 = Sunday
+  interval_days?: number; // every_n_days schedules
+  lineage_id: string; // Shared by every version of this treatment
+  version: number;
   created_at: string;
   updated_at: string;
 }
@@ -307,15 +518,17 @@ export interface RegimenTreatmentCompletion {
   updated_at: string;
 }
 
-export interface RegimenNote {
+// One message in a day's regimen note thread between patient and clinician
+export interface RegimenNoteMessage {
   id: string;
   daily_entry_id: string;
   patient_id: string;
-  note?: string;
-  reply?: string;
-  reply_from?: string;
+  author_type: 'patient' | 'clinician';
+  author_id?: string; // Unknown for some migrated clinician replies
+  author?: Pick<Profile, 'id' | 'role' | 'full_name'>; // Joined author profile
+  body: string;
+  read_at?: string; // Set when the other party has read it
   created_at: string;
-  updated_at: string;
 }
 
 // ============================================================================
@@ -328,18 +541,22 @@ export interface DailyEntryBundle {
   earlyMorning?: EarlyMorningEntry;
   fluidTotals?: DailyFluidTotals;
   foodEvents: FoodEvent[];
+  digestionCheckins: DigestionCheckin[];
   bowelMovements: BowelMovement[];
   exerciseEvents: ExerciseEvent[];
   vitalReadings: VitalReading[];
   medicationIntakes: MedicationIntake[];
   symptomLogs: SymptomLog[];
+  customFields: CustomField[]; // All of the patient's fields, archived ones included
+  customFieldValues: CustomFieldValue[];
   cycleLog?: CycleLog;
-  cycleComments: CycleComment[];
+  computedCycleDay?: number; // From logged period starts, ignoring any manual override
+  cycleComments: CycleComment[]; // Oldest first
   regimenFormulations: RegimenFormulation[];
   formulationIntakes: RegimenFormulationIntake[];
   regimenTreatments: RegimenTreatment[];
   treatmentCompletions: RegimenTreatmentCompletion[];
-  regimenNotes?: RegimenNote;
+  regimenNoteThread: RegimenNoteMessage[]; // Oldest first
   // Saved items for dropdowns
   savedFoods: SavedFood[];
   savedExercises: SavedExercise[];
@@ -361,14 +578,27 @@ export interface DailySummary {
   food_count: number;
   bowel_movement_count: number;
   exercise_minutes: number;
-  formulation_adherence_percent: number;
-  treatment_adherence_percent: number;
+  formulation_adherence_percent: number | null; // null (n/a) when no formulation is in force
+  treatment_adherence_percent: number | null; // Rolling 7 days ending on date, against each schedule; null when none expected
+  treatments_due: number; // Treatments scheduled on this date
+  treatments_done: number; // Treatments completed (or partially) on this date
   has_cycle_log: boolean;
+  custom_values: CustomValues;
+  digestion_checkins: number; // Meals checked in on
+  // Average of each rating over the day's check-ins, to one decimal; null when none rated it
+  avg_hunger_before: number | null;
+  avg_heaviness: number | null;
+  avg_bloating: number | null;
+  avg_gas: number | null;
+  avg_acid: number | null;
+  avg_energy_after: number | null;
+  bristol_types: number[]; // The day's typed bowel movements, in time order
 }
 
 export interface CycleDaySummary {
   date: string;
-  cycle_day?: number;
+  cycle_day?: number; // Manual override, else counted from the latest logged period start
+  cycle_day_manual: boolean;
   // Cycle-specific data
   physical_symptom_keys?: string[];
   emotional_symptom_keys?: string[];
@@ -384,6 +614,21 @@ export interface CycleDaySummary {
   energy_drive?: number;
   overall_mood?: number;
   // Adherence for overlays
-  formulation_adherence_percent: number;
-  treatment_adherence_percent: number;
+  formulation_adherence_percent: number | null;
+  treatment_adherence_percent: number | null; // Rolling 7 days ending on date
+  treatments_due: number;
+  treatments_done: number;
+  unread_comments: number; // The other party's comments the viewer has not read
+  // Latest early-AM temperature of the day, as logged (unit is free text, e.g. 'F' or '°C')
+  early_am_temp?: number;
+  early_am_temp_unit?: string;
+  custom_values: CustomValues;
+  bristol_types: number[]; // The day's typed bowel movements, in time order
+}
+
+// Foods tagged with a taste in one week (get_weekly_rasa_counts)
+export interface WeeklyRasaCount {
+  week_start: string; // Monday (YYYY-MM-DD)
+  rasa: Rasa;
+  food_count: number;
 }
@@ -0,0 +1,45 @@
+-- MyAyu MVP - Auth Profiles Migration
+-- Links Supabase Auth users to profiles so the signed-in user resolves to a Profile
+
+-- ============================================================================
+-- 1. PROFILE BOOTSTRAP ON SIGN-UP
+-- ============================================================================
+
+-- Creates the profile rows for a new auth user.
+-- The role comes from app metadata (only settable with the service role), so
+-- self sign-ups always become patients; clinicians are provisioned by an admin.
+CREATE OR REPLACE FUNCTION handle_new_auth_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role TEXT := COALESCE(NEW.raw_app_meta_data->>'role', 'patient');
+BEGIN
+  IF v_role NOT IN ('patient', 'clinician') THEN
+    v_role := 'patient';
+  END IF;
+
+  INSERT INTO profiles (id, role, full_name)
+  VALUES (
+    NEW.id,
+    v_role,
+    COALESCE(NULLIF(NEW.raw_user_meta_data->>'full_name', ''), NEW.email)
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  IF v_role = 'patient' THEN
+    INSERT INTO patient_profiles (id) VALUES (NEW.id) ON CONFLICT (id) DO NOTHING;
+    INSERT INTO patient_configs (patient_id) VALUES (NEW.id) ON CONFLICT (patient_id) DO NOTHING;
+  ELSE
+    INSERT INTO practitioner_profiles (id) VALUES (NEW.id) ON CONFLICT (id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION handle_new_auth_user();
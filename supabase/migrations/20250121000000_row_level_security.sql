@@ -0,0 +1,331 @@
+-- MyAyu MVP - Row Level Security Migration
+-- Enables RLS on every table: patients only touch their own rows,
+-- clinicians only read the patients they are linked to
+
+-- ============================================================================
+-- 1. HELPERS
+-- ============================================================================
+
+-- True when the signed-in user is a clinician linked to the given patient.
+-- The schema has no clinician-patient link yet, so this grants nothing for now;
+-- clinician policies all go through it so the link only has to be defined here.
+CREATE OR REPLACE FUNCTION is_linked_clinician(p_patient_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT FALSE;
+$$;
+
+-- ============================================================================
+-- 2. ENABLE RLS
+-- ============================================================================
+
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE patient_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE practitioner_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE patient_configs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE daily_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sleep_blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE early_morning_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_foods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE food_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE daily_fluid_totals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bowel_movements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_exercises ENABLE ROW LEVEL SECURITY;
+ALTER TABLE exercise_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vital_readings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_meds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE medication_intakes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_symptoms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE symptom_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cycle_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cycle_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE regimen_formulations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE regimen_formulation_intakes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE regimen_treatments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE regimen_treatment_completions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE regimen_notes ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- 3. IDENTITY & CONFIG
+-- ============================================================================
+
+CREATE POLICY "Users read own profile" ON profiles
+  FOR SELECT TO authenticated
+  USING (id = auth.uid());
+
+CREATE POLICY "Linked clinicians read patient profiles" ON profiles
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(id));
+
+CREATE POLICY "Patients read own patient_profiles" ON patient_profiles
+  FOR SELECT TO authenticated
+  USING (id = auth.uid());
+
+CREATE POLICY "Linked clinicians read patient_profiles" ON patient_profiles
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(id));
+
+CREATE POLICY "Practitioners read own practitioner_profiles" ON practitioner_profiles
+  FOR SELECT TO authenticated
+  USING (id = auth.uid());
+
+-- Config is set by the care team, so patients can only read it
+CREATE POLICY "Patients read own patient_configs" ON patient_configs
+  FOR SELECT TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read patient_configs" ON patient_configs
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+-- ============================================================================
+-- 4. DAILY ENTRY (anchor row per date)
+-- ============================================================================
+
+CREATE POLICY "Patients manage own daily_entries" ON daily_entries
+  FOR ALL TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read daily_entries" ON daily_entries
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+-- ============================================================================
+-- 5. SLEEP & EARLY AM
+-- ============================================================================
+
+CREATE POLICY "Patients manage own sleep_blocks" ON sleep_blocks
+  FOR ALL TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read sleep_blocks" ON sleep_blocks
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+CREATE POLICY "Patients manage own early_morning_entries" ON early_morning_entries
+  FOR ALL TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read early_morning_entries" ON early_morning_entries
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+-- ============================================================================
+-- 6. FOOD & FLUIDS
+-- ============================================================================
+
+CREATE POLICY "Patients manage own saved_foods" ON saved_foods
+  FOR ALL TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read saved_foods" ON saved_foods
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+CREATE POLICY "Patients manage own food_events" ON food_events
+  FOR ALL TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read food_events" ON food_events
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+CREATE POLICY "Patients manage own daily_fluid_totals" ON daily_fluid_totals
+  FOR ALL TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read daily_fluid_totals" ON daily_fluid_totals
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+-- ============================================================================
+-- 7. BOWEL MOVEMENTS
+-- ============================================================================
+
+CREATE POLICY "Patients manage own bowel_movements" ON bowel_movements
+  FOR ALL TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read bowel_movements" ON bowel_movements
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+-- ============================================================================
+-- 8. EXERCISE / MOVEMENT
+-- ============================================================================
+
+CREATE POLICY "Patients manage own saved_exercises" ON saved_exercises
+  FOR ALL TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read saved_exercises" ON saved_exercises
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+CREATE POLICY "Patients manage own exercise_events" ON exercise_events
+  FOR ALL TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read exercise_events" ON exercise_events
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+-- ============================================================================
+-- 9. VITALS
+-- ============================================================================
+
+CREATE POLICY "Patients manage own vital_readings" ON vital_readings
+  FOR ALL TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read vital_readings" ON vital_readings
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+-- ============================================================================
+-- 10. NON-PLAN MEDICATIONS
+-- ============================================================================
+
+CREATE POLICY "Patients manage own saved_meds" ON saved_meds
+  FOR ALL TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read saved_meds" ON saved_meds
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+CREATE POLICY "Patients manage own medication_intakes" ON medication_intakes
+  FOR ALL TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read medication_intakes" ON medication_intakes
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+-- ============================================================================
+-- 11. GENERAL SYMPTOMS
+-- ============================================================================
+
+CREATE POLICY "Patients manage own saved_symptoms" ON saved_symptoms
+  FOR ALL TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read saved_symptoms" ON saved_symptoms
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+CREATE POLICY "Patients manage own symptom_logs" ON symptom_logs
+  FOR ALL TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read symptom_logs" ON symptom_logs
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+-- ============================================================================
+-- 12. CYCLE TRACKER
+-- ============================================================================
+
+CREATE POLICY "Patients manage own cycle_logs" ON cycle_logs
+  FOR ALL TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read cycle_logs" ON cycle_logs
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+-- Comments hang off cycle_logs, so ownership is resolved through the parent log
+CREATE POLICY "Patients read comments on own cycle_logs" ON cycle_comments
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM cycle_logs
+    WHERE cycle_logs.id = cycle_comments.cycle_log_id
+      AND cycle_logs.patient_id = auth.uid()
+  ));
+
+CREATE POLICY "Patients comment on own cycle_logs" ON cycle_comments
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    author_type = 'patient'
+    AND author_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM cycle_logs
+      WHERE cycle_logs.id = cycle_comments.cycle_log_id
+        AND cycle_logs.patient_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Linked clinicians read cycle_comments" ON cycle_comments
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM cycle_logs
+    WHERE cycle_logs.id = cycle_comments.cycle_log_id
+      AND is_linked_clinician(cycle_logs.patient_id)
+  ));
+
+-- ============================================================================
+-- 13. FORMULATIONS & TREATMENTS (regimen + adherence)
+-- ============================================================================
+
+-- The regimen is prescribed by the clinician, so patients can only read it
+CREATE POLICY "Patients read own regimen_formulations" ON regimen_formulations
+  FOR SELECT TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read regimen_formulations" ON regimen_formulations
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+CREATE POLICY "Patients manage own regimen_formulation_intakes" ON regimen_formulation_intakes
+  FOR ALL TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read regimen_formulation_intakes" ON regimen_formulation_intakes
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+CREATE POLICY "Patients read own regimen_treatments" ON regimen_treatments
+  FOR SELECT TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read regimen_treatments" ON regimen_treatments
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+CREATE POLICY "Patients manage own regimen_treatment_completions" ON regimen_treatment_completions
+  FOR ALL TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read regimen_treatment_completions" ON regimen_treatment_completions
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+CREATE POLICY "Patients manage own regimen_notes" ON regimen_notes
+  FOR ALL TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read regimen_notes" ON regimen_notes
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
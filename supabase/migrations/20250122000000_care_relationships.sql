@@ -0,0 +1,61 @@
+-- MyAyu MVP - Care Relationships Migration
+-- Links practitioners to the patients they care for; drives clinician access under RLS
+
+-- ============================================================================
+-- 1. CARE RELATIONSHIPS
+-- ============================================================================
+
+CREATE TABLE care_relationships (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  practitioner_id UUID NOT NULL REFERENCES practitioner_profiles(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES patient_profiles(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'invited' CHECK (status IN ('invited', 'active', 'ended')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(practitioner_id, patient_id)
+);
+
+CREATE INDEX idx_care_relationships_patient ON care_relationships(patient_id);
+
+-- ============================================================================
+-- 2. CLINICIAN ACCESS
+-- ============================================================================
+
+-- Only active relationships grant access; invited and ended ones do not
+CREATE OR REPLACE FUNCTION is_linked_clinician(p_patient_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM care_relationships
+    WHERE practitioner_id = auth.uid()
+      AND patient_id = p_patient_id
+      AND status = 'active'
+  );
+$$;
+
+-- ============================================================================
+-- 3. RLS
+-- ============================================================================
+
+ALTER TABLE care_relationships ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Practitioners read own care_relationships" ON care_relationships
+  FOR SELECT TO authenticated
+  USING (practitioner_id = auth.uid());
+
+CREATE POLICY "Patients read own care_relationships" ON care_relationships
+  FOR SELECT TO authenticated
+  USING (patient_id = auth.uid());
+
+-- The roster lists invited and ended patients by name, without access to their data
+CREATE POLICY "Practitioners read rostered patient profiles" ON profiles
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM care_relationships
+    WHERE care_relationships.practitioner_id = auth.uid()
+      AND care_relationships.patient_id = profiles.id
+  ));
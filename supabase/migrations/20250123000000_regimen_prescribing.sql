@@ -0,0 +1,39 @@
+-- MyAyu MVP - Regimen Prescribing Migration
+-- Lets linked clinicians prescribe, edit and stop formulations and treatments
+
+-- ============================================================================
+-- 1. FORMULATIONS
+-- ============================================================================
+
+-- No DELETE policy: stopping sets stop_date so adherence history is kept
+CREATE POLICY "Linked clinicians insert regimen_formulations" ON regimen_formulations
+  FOR INSERT TO authenticated
+  WITH CHECK (is_linked_clinician(patient_id));
+
+CREATE POLICY "Linked clinicians update regimen_formulations" ON regimen_formulations
+  FOR UPDATE TO authenticated
+  USING (is_linked_clinician(patient_id))
+  WITH CHECK (is_linked_clinician(patient_id));
+
+-- ============================================================================
+-- 2. TREATMENTS
+-- ============================================================================
+
+CREATE POLICY "Linked clinicians insert regimen_treatments" ON regimen_treatments
+  FOR INSERT TO authenticated
+  WITH CHECK (is_linked_clinician(patient_id));
+
+CREATE POLICY "Linked clinicians update regimen_treatments" ON regimen_treatments
+  FOR UPDATE TO authenticated
+  USING (is_linked_clinician(patient_id))
+  WITH CHECK (is_linked_clinician(patient_id));
+
+-- ============================================================================
+-- 3. CONSTRAINTS
+-- ============================================================================
+
+ALTER TABLE regimen_formulations
+  ADD CONSTRAINT regimen_formulations_stop_after_start CHECK (stop_date IS NULL OR stop_date >= start_date);
+
+ALTER TABLE regimen_treatments
+  ADD CONSTRAINT regimen_treatments_stop_after_start CHECK (stop_date IS NULL OR stop_date >= start_date);
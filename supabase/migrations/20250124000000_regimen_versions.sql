@@ -0,0 +1,52 @@
+-- MyAyu MVP - Regimen Versions Migration
+-- Versions formulations and treatments so past adherence is measured against the plan as it was
+
+-- ============================================================================
+-- 1. LINEAGE & VERSION COLUMNS
+-- ============================================================================
+
+-- Every version of one prescribed item shares a lineage_id (the first version's id).
+-- Versions of a lineage never overlap in time: a change closes the current version
+-- the day before the new one starts.
+ALTER TABLE regimen_formulations
+  ADD COLUMN lineage_id UUID,
+  ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+UPDATE regimen_formulations SET lineage_id = id;
+
+ALTER TABLE regimen_formulations
+  ALTER COLUMN lineage_id SET NOT NULL,
+  ADD CONSTRAINT regimen_formulations_lineage_version_unique UNIQUE (lineage_id, version);
+
+ALTER TABLE regimen_treatments
+  ADD COLUMN lineage_id UUID,
+  ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+UPDATE regimen_treatments SET lineage_id = id;
+
+ALTER TABLE regimen_treatments
+  ALTER COLUMN lineage_id SET NOT NULL,
+  ADD CONSTRAINT regimen_treatments_lineage_version_unique UNIQUE (lineage_id, version);
+
+-- ============================================================================
+-- 2. DEFAULT LINEAGE FOR NEW ITEMS
+-- ============================================================================
+
+-- A first version starts its own lineage
+CREATE OR REPLACE FUNCTION set_regimen_lineage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.lineage_id := COALESCE(NEW.lineage_id, NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_regimen_formulations_lineage
+  BEFORE INSERT ON regimen_formulations
+  FOR EACH ROW EXECUTE FUNCTION set_regimen_lineage();
+
+CREATE TRIGGER set_regimen_treatments_lineage
+  BEFORE INSERT ON regimen_treatments
+  FOR EACH ROW EXECUTE FUNCTION set_regimen_lineage();
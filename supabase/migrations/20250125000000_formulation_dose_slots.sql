@@ -0,0 +1,35 @@
+-- MyAyu MVP - Formulation Dose Slots Migration
+-- Structured dose times per formulation, with one intake status per slot
+
+-- ============================================================================
+-- 1. DOSE SLOTS ON FORMULATIONS
+-- ============================================================================
+
+-- Array of { "slot": "morning" | "midday" | "evening" | "bedtime", "time": "HH:MM" (optional) }.
+-- An empty array means a single unscheduled daily dose (the pre-slot behaviour).
+ALTER TABLE regimen_formulations
+  ADD COLUMN dose_slots JSONB NOT NULL DEFAULT '[]'::jsonb
+  CHECK (jsonb_typeof(dose_slots) = 'array');
+
+-- ============================================================================
+-- 2. SLOT ON INTAKES
+-- ============================================================================
+
+-- NULL slot is the single daily dose of a formulation without dose slots
+ALTER TABLE regimen_formulation_intakes
+  ADD COLUMN slot TEXT CHECK (slot IN ('morning', 'midday', 'evening', 'bedtime'));
+
+-- Existing intakes all get the NULL slot, so keep only the newest per formulation and day
+DELETE FROM regimen_formulation_intakes i
+USING (
+  SELECT id, ROW_NUMBER() OVER (
+    PARTITION BY regimen_formulation_id, daily_entry_id
+    ORDER BY updated_at DESC, created_at DESC, id DESC
+  ) AS row_number
+  FROM regimen_formulation_intakes
+) ranked
+WHERE ranked.id = i.id
+  AND ranked.row_number > 1;
+
+CREATE UNIQUE INDEX idx_regimen_formulation_intakes_slot
+  ON regimen_formulation_intakes(regimen_formulation_id, daily_entry_id, slot) NULLS NOT DISTINCT;
@@ -0,0 +1,25 @@
+-- MyAyu MVP - Treatment Schedules Migration
+-- Treatments carry a schedule so adherence is measured against the days they are due
+
+-- ============================================================================
+-- 1. SCHEDULE COLUMNS
+-- ============================================================================
+
+-- daily:          due every day
+-- times_per_week: due until times_per_week completions in a rolling 7 days
+-- weekdays:       due on the listed weekdays (0 = Sunday ... 6 = Saturday)
+-- every_n_days:   due every interval_days days counting from start_date
+ALTER TABLE regimen_treatments
+  ADD COLUMN schedule_type TEXT NOT NULL DEFAULT 'daily'
+    CHECK (schedule_type IN ('daily', 'times_per_week', 'weekdays', 'every_n_days')),
+  ADD COLUMN times_per_week INTEGER CHECK (times_per_week BETWEEN 1 AND 7),
+  ADD COLUMN weekdays SMALLINT[] CHECK (weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]),
+  ADD COLUMN interval_days INTEGER CHECK (interval_days >= 2);
+
+-- Each schedule type needs its own parameter
+ALTER TABLE regimen_treatments
+  ADD CONSTRAINT regimen_treatments_schedule_params CHECK (
+    (schedule_type <> 'times_per_week' OR times_per_week IS NOT NULL)
+    AND (schedule_type <> 'weekdays' OR cardinality(weekdays) > 0)
+    AND (schedule_type <> 'every_n_days' OR interval_days IS NOT NULL)
+  );
@@ -0,0 +1,275 @@
+-- MyAyu MVP - Adherence Counts Migration
+-- Summaries return raw dose and session counts; the app turns them into percentages
+
+-- Partial doses and sessions are counted separately from full ones so the app can weight
+-- them, and a day with nothing expected can be shown as "n/a" rather than 0%.
+-- Percentages are computed in src/lib/adherence.ts.
+
+-- ============================================================================
+-- 1. DROP PREVIOUS VERSIONS (return columns change)
+-- ============================================================================
+
+DROP FUNCTION get_daily_summaries(UUID, DATE, DATE);
+DROP FUNCTION get_cycle_day_summaries(UUID, DATE, DATE);
+DROP FUNCTION regimen_adherence_range(UUID, DATE, DATE);
+
+-- ============================================================================
+-- 2. REGIMEN ADHERENCE PER DAY
+-- ============================================================================
+
+-- Adherence counts for each logged day in the range, against the versions in force that day.
+-- Formulations: dose slots scheduled, taken and partially taken; a formulation without
+-- dose slots has one unscheduled daily dose.
+-- Treatments: due and done today, plus expected, done and partial sessions over the rolling
+-- 7 days ending on the date. N-per-week targets are prorated for the days in force, and
+-- sessions moved to another day of the week count, up to what was expected.
+-- Intakes and completions of any version count toward their lineage.
+CREATE FUNCTION regimen_adherence_range(p_patient_id UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (
+  date DATE,
+  formulation_doses_scheduled INTEGER,
+  formulation_doses_taken INTEGER,
+  formulation_doses_partial INTEGER,
+  treatment_sessions_expected INTEGER,
+  treatment_sessions_done INTEGER,
+  treatment_sessions_partial INTEGER,
+  treatments_due INTEGER,
+  treatments_done INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH days AS (
+    SELECT e.id AS daily_entry_id, e.date
+    FROM daily_entries e
+    WHERE e.patient_id = p_patient_id
+      AND e.date BETWEEN p_from AND p_to
+  ),
+  -- Includes the week before p_from so the first days have a full rolling week.
+  -- A day with a completed session is not also counted as partial.
+  completion_days AS (
+    SELECT t.lineage_id, e.date, bool_or(c.status = 'completed') AS completed
+    FROM regimen_treatment_completions c
+    JOIN regimen_treatments t ON t.id = c.regimen_treatment_id
+    JOIN daily_entries e ON e.id = c.daily_entry_id
+    WHERE e.patient_id = p_patient_id
+      AND e.date BETWEEN p_from - 6 AND p_to
+      AND c.status IN ('completed', 'partial')
+    GROUP BY t.lineage_id, e.date
+  ),
+  formulation_slots AS (
+    SELECT
+      d.date,
+      (
+        SELECT CASE
+          WHEN bool_or(i.status = 'taken') THEN 'taken'
+          WHEN bool_or(i.status = 'partial') THEN 'partial'
+        END
+        FROM regimen_formulation_intakes i
+        JOIN regimen_formulations fi ON fi.id = i.regimen_formulation_id
+        WHERE i.daily_entry_id = d.daily_entry_id
+          AND fi.lineage_id = f.lineage_id
+          AND i.slot IS NOT DISTINCT FROM s.slot
+      ) AS status
+    FROM days d
+    JOIN regimen_formulations f
+      ON f.patient_id = p_patient_id
+      AND regimen_in_force(f.start_date, f.stop_date, d.date)
+    CROSS JOIN LATERAL (
+      SELECT elem->>'slot' AS slot FROM jsonb_array_elements(f.dose_slots) AS elem
+      UNION ALL
+      SELECT NULL WHERE jsonb_array_length(f.dose_slots) = 0
+    ) s
+  ),
+  formulation_totals AS (
+    SELECT
+      fs.date,
+      COUNT(*) AS scheduled,
+      COUNT(*) FILTER (WHERE fs.status = 'taken') AS taken,
+      COUNT(*) FILTER (WHERE fs.status = 'partial') AS partial
+    FROM formulation_slots fs
+    GROUP BY fs.date
+  ),
+  treatment_status AS (
+    SELECT
+      d.date,
+      treatment_due_on(t, d.date) AS due,
+      EXISTS (
+        SELECT 1 FROM completion_days cd
+        WHERE cd.lineage_id = t.lineage_id AND cd.date = d.date
+      ) AS done,
+      CASE
+        WHEN t.schedule_type = 'times_per_week'
+          THEN ROUND(COALESCE(t.times_per_week, 1) * week.in_force_days / 7.0)::INTEGER
+        ELSE week.due_days
+      END AS expected,
+      week.completed_days,
+      week.partial_days
+    FROM days d
+    JOIN regimen_treatments t
+      ON t.patient_id = p_patient_id
+      AND regimen_in_force(t.start_date, t.stop_date, d.date)
+    CROSS JOIN LATERAL (
+      SELECT
+        COUNT(v.id)::INTEGER AS in_force_days,
+        COUNT(v.id) FILTER (
+          WHERE v.schedule_type <> 'times_per_week' AND treatment_due_on(v, w.day)
+        )::INTEGER AS due_days,
+        COUNT(v.id) FILTER (WHERE cd.completed)::INTEGER AS completed_days,
+        COUNT(v.id) FILTER (WHERE NOT cd.completed)::INTEGER AS partial_days
+      FROM generate_series(0, 6) AS g(offset_days)
+      CROSS JOIN LATERAL (SELECT d.date - g.offset_days AS day) w
+      LEFT JOIN regimen_treatments v
+        ON v.lineage_id = t.lineage_id
+        AND regimen_in_force(v.start_date, v.stop_date, w.day)
+      LEFT JOIN completion_days cd
+        ON cd.lineage_id = t.lineage_id
+        AND cd.date = w.day
+    ) week
+  ),
+  -- Full sessions fill the expected count first, partial ones whatever is left
+  treatment_totals AS (
+    SELECT
+      ts.date,
+      COUNT(*) FILTER (WHERE ts.due) AS due,
+      COUNT(*) FILTER (WHERE ts.done) AS done,
+      SUM(ts.expected) AS expected_in_week,
+      SUM(LEAST(ts.completed_days, ts.expected)) AS done_in_week,
+      SUM(LEAST(ts.partial_days, ts.expected - LEAST(ts.completed_days, ts.expected))) AS partial_in_week
+    FROM treatment_status ts
+    GROUP BY ts.date
+  )
+  SELECT
+    d.date,
+    COALESCE(ft.scheduled, 0)::INTEGER,
+    COALESCE(ft.taken, 0)::INTEGER,
+    COALESCE(ft.partial, 0)::INTEGER,
+    COALESCE(tt.expected_in_week, 0)::INTEGER,
+    COALESCE(tt.done_in_week, 0)::INTEGER,
+    COALESCE(tt.partial_in_week, 0)::INTEGER,
+    COALESCE(tt.due, 0)::INTEGER,
+    COALESCE(tt.done, 0)::INTEGER
+  FROM days d
+  LEFT JOIN formulation_totals ft ON ft.date = d.date
+  LEFT JOIN treatment_totals tt ON tt.date = d.date;
+$$;
+
+-- ============================================================================
+-- 3. SUMMARY FUNCTIONS
+-- ============================================================================
+
+-- One daily summary row per logged day, newest first (tracker daily lens)
+CREATE FUNCTION get_daily_summaries(p_patient_id UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (
+  date DATE,
+  energy_physical INTEGER,
+  energy_mental INTEGER,
+  energy_emotional INTEGER,
+  energy_drive INTEGER,
+  overall_mood INTEGER,
+  food_count INTEGER,
+  bowel_movement_count INTEGER,
+  exercise_minutes INTEGER,
+  formulation_doses_scheduled INTEGER,
+  formulation_doses_taken INTEGER,
+  formulation_doses_partial INTEGER,
+  treatment_sessions_expected INTEGER,
+  treatment_sessions_done INTEGER,
+  treatment_sessions_partial INTEGER,
+  treatments_due INTEGER,
+  treatments_done INTEGER,
+  has_cycle_log BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    e.date,
+    e.energy_physical,
+    e.energy_mental,
+    e.energy_emotional,
+    e.energy_drive,
+    e.overall_mood,
+    (SELECT COUNT(*) FROM food_events f WHERE f.daily_entry_id = e.id)::INTEGER,
+    (SELECT COUNT(*) FROM bowel_movements b WHERE b.daily_entry_id = e.id)::INTEGER,
+    (SELECT COALESCE(SUM(x.duration_minutes), 0) FROM exercise_events x WHERE x.daily_entry_id = e.id)::INTEGER,
+    a.formulation_doses_scheduled,
+    a.formulation_doses_taken,
+    a.formulation_doses_partial,
+    a.treatment_sessions_expected,
+    a.treatment_sessions_done,
+    a.treatment_sessions_partial,
+    a.treatments_due,
+    a.treatments_done,
+    EXISTS (SELECT 1 FROM cycle_logs c WHERE c.daily_entry_id = e.id)
+  FROM daily_entries e
+  JOIN regimen_adherence_range(p_patient_id, p_from, p_to) a ON a.date = e.date
+  WHERE e.patient_id = p_patient_id
+    AND e.date BETWEEN p_from AND p_to
+  ORDER BY e.date DESC;
+$$;
+
+-- One cycle day summary row per logged day, newest first (cycle and combined lenses)
+CREATE FUNCTION get_cycle_day_summaries(p_patient_id UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (
+  date DATE,
+  cycle_day INTEGER,
+  physical_symptom_keys TEXT[],
+  emotional_symptom_keys TEXT[],
+  bleeding_quantity TEXT,
+  blood_color TEXT,
+  blood_volume TEXT,
+  clots BOOLEAN,
+  mucus BOOLEAN,
+  energy_physical INTEGER,
+  energy_mental INTEGER,
+  energy_emotional INTEGER,
+  energy_drive INTEGER,
+  overall_mood INTEGER,
+  formulation_doses_scheduled INTEGER,
+  formulation_doses_taken INTEGER,
+  formulation_doses_partial INTEGER,
+  treatment_sessions_expected INTEGER,
+  treatment_sessions_done INTEGER,
+  treatment_sessions_partial INTEGER,
+  treatments_due INTEGER,
+  treatments_done INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    e.date,
+    COALESCE(NULLIF(c.cycle_day, 0), e.cycle_day),
+    c.physical_symptom_keys,
+    c.emotional_symptom_keys,
+    c.bleeding_quantity,
+    c.blood_color,
+    c.blood_volume,
+    c.clots,
+    c.mucus,
+    e.energy_physical,
+    e.energy_mental,
+    e.energy_emotional,
+    e.energy_drive,
+    e.overall_mood,
+    a.formulation_doses_scheduled,
+    a.formulation_doses_taken,
+    a.formulation_doses_partial,
+    a.treatment_sessions_expected,
+    a.treatment_sessions_done,
+    a.treatment_sessions_partial,
+    a.treatments_due,
+    a.treatments_done
+  FROM daily_entries e
+  JOIN regimen_adherence_range(p_patient_id, p_from, p_to) a ON a.date = e.date
+  LEFT JOIN LATERAL (
+    SELECT * FROM cycle_logs cl WHERE cl.daily_entry_id = e.id LIMIT 1
+  ) c ON TRUE
+  WHERE e.patient_id = p_patient_id
+    AND e.date BETWEEN p_from AND p_to
+  ORDER BY e.date DESC;
+$$;
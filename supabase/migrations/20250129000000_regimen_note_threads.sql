@@ -0,0 +1,131 @@
+-- MyAyu MVP - Regimen Note Threads Migration
+-- Per-day regimen notes become a conversation between patient and clinician
+
+-- ============================================================================
+-- 1. MESSAGES TABLE
+-- ============================================================================
+
+-- One row per message. read_at is set when the other party reads it.
+-- author_id is null only for migrated clinician replies that could not be attributed.
+CREATE TABLE regimen_note_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  daily_entry_id UUID NOT NULL REFERENCES daily_entries(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  author_type TEXT NOT NULL CHECK (author_type IN ('patient', 'clinician')),
+  author_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_regimen_note_messages_patient_entry ON regimen_note_messages(patient_id, daily_entry_id);
+
+-- ============================================================================
+-- 2. MIGRATE EXISTING NOTES
+-- ============================================================================
+
+-- The patient's note opens the thread
+INSERT INTO regimen_note_messages (daily_entry_id, patient_id, author_type, author_id, body, read_at, created_at)
+SELECT daily_entry_id, patient_id, 'patient', patient_id, note, NOW(), created_at
+FROM regimen_notes
+WHERE length(trim(COALESCE(note, ''))) > 0;
+
+-- reply_from was free text: use the linked clinician with that name, or the patient's
+-- only clinician, otherwise leave the author unknown
+INSERT INTO regimen_note_messages (daily_entry_id, patient_id, author_type, author_id, body, read_at, created_at)
+SELECT
+  n.daily_entry_id,
+  n.patient_id,
+  'clinician',
+  COALESCE(
+    (
+      SELECT p.id FROM care_relationships cr
+      JOIN profiles p ON p.id = cr.practitioner_id
+      WHERE cr.patient_id = n.patient_id AND p.full_name = n.reply_from
+      LIMIT 1
+    ),
+    (
+      SELECT MIN(cr.practitioner_id::TEXT)::UUID FROM care_relationships cr
+      WHERE cr.patient_id = n.patient_id
+      HAVING COUNT(*) = 1
+    )
+  ),
+  n.reply,
+  NOW(),
+  GREATEST(n.updated_at, n.created_at + INTERVAL '1 second')
+FROM regimen_notes n
+WHERE length(trim(COALESCE(n.reply, ''))) > 0;
+
+DROP TABLE regimen_notes;
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE regimen_note_messages ENABLE ROW LEVEL SECURITY;
+
+-- Messages are never edited or deleted; read state goes through mark_regimen_notes_read()
+CREATE POLICY "Patients read own regimen_note_messages" ON regimen_note_messages
+  FOR SELECT TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Patients post to own regimen_note_messages" ON regimen_note_messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    author_type = 'patient'
+    AND author_id = auth.uid()
+    AND patient_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM daily_entries
+      WHERE daily_entries.id = regimen_note_messages.daily_entry_id
+        AND daily_entries.patient_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Linked clinicians read regimen_note_messages" ON regimen_note_messages
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+CREATE POLICY "Linked clinicians reply to regimen_note_messages" ON regimen_note_messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    author_type = 'clinician'
+    AND author_id = auth.uid()
+    AND is_linked_clinician(patient_id)
+    AND EXISTS (
+      SELECT 1 FROM daily_entries
+      WHERE daily_entries.id = regimen_note_messages.daily_entry_id
+        AND daily_entries.patient_id = regimen_note_messages.patient_id
+    )
+  );
+
+-- Patients see who replied to them
+CREATE POLICY "Patients read their clinicians' profiles" ON profiles
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM care_relationships
+    WHERE care_relationships.patient_id = auth.uid()
+      AND care_relationships.practitioner_id = profiles.id
+  ));
+
+-- ============================================================================
+-- 4. READ STATE
+-- ============================================================================
+
+-- Marks the other party's messages on a day as read by the caller:
+-- the patient reads clinician messages, a linked clinician reads patient messages
+CREATE OR REPLACE FUNCTION mark_regimen_notes_read(p_daily_entry_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE regimen_note_messages m
+  SET read_at = NOW()
+  WHERE m.daily_entry_id = p_daily_entry_id
+    AND m.read_at IS NULL
+    AND (
+      (m.author_type = 'clinician' AND m.patient_id = auth.uid())
+      OR (m.author_type = 'patient' AND is_linked_clinician(m.patient_id))
+    );
+$$;
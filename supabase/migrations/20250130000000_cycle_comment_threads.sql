@@ -0,0 +1,124 @@
+-- MyAyu MVP - Cycle Comment Threads Migration
+-- Clinicians annotate a patient's cycle day and the patient responds in the same thread
+
+-- ============================================================================
+-- 1. READ STATE
+-- ============================================================================
+
+-- Set when the other party has read the comment
+ALTER TABLE cycle_comments ADD COLUMN read_at TIMESTAMPTZ;
+
+-- Marks the other party's comments on a cycle log as read by the caller:
+-- the patient reads clinician comments, a linked clinician reads patient comments
+CREATE OR REPLACE FUNCTION mark_cycle_comments_read(p_cycle_log_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE cycle_comments cc
+  SET read_at = NOW()
+  FROM cycle_logs cl
+  WHERE cl.id = cc.cycle_log_id
+    AND cc.cycle_log_id = p_cycle_log_id
+    AND cc.read_at IS NULL
+    AND (
+      (cc.author_type = 'clinician' AND cl.patient_id = auth.uid())
+      OR (cc.author_type = 'patient' AND is_linked_clinician(cl.patient_id))
+    );
+$$;
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Comments are never edited or deleted; read state goes through mark_cycle_comments_read()
+CREATE POLICY "Linked clinicians comment on cycle_logs" ON cycle_comments
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    author_type = 'clinician'
+    AND author_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM cycle_logs
+      WHERE cycle_logs.id = cycle_comments.cycle_log_id
+        AND is_linked_clinician(cycle_logs.patient_id)
+    )
+  );
+
+-- ============================================================================
+-- 3. CYCLE DAY SUMMARIES (adds unread_comments)
+-- ============================================================================
+
+DROP FUNCTION get_cycle_day_summaries(UUID, DATE, DATE);
+
+-- One cycle day summary row per logged day, newest first (cycle and combined lenses).
+-- unread_comments counts the other party's unread comments: clinician comments for the
+-- patient, patient comments for a linked clinician.
+CREATE FUNCTION get_cycle_day_summaries(p_patient_id UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (
+  date DATE,
+  cycle_day INTEGER,
+  physical_symptom_keys TEXT[],
+  emotional_symptom_keys TEXT[],
+  bleeding_quantity TEXT,
+  blood_color TEXT,
+  blood_volume TEXT,
+  clots BOOLEAN,
+  mucus BOOLEAN,
+  energy_physical INTEGER,
+  energy_mental INTEGER,
+  energy_emotional INTEGER,
+  energy_drive INTEGER,
+  overall_mood INTEGER,
+  formulation_doses_scheduled INTEGER,
+  formulation_doses_taken INTEGER,
+  formulation_doses_partial INTEGER,
+  treatment_sessions_expected INTEGER,
+  treatment_sessions_done INTEGER,
+  treatment_sessions_partial INTEGER,
+  treatments_due INTEGER,
+  treatments_done INTEGER,
+  unread_comments INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    e.date,
+    COALESCE(NULLIF(c.cycle_day, 0), e.cycle_day),
+    c.physical_symptom_keys,
+    c.emotional_symptom_keys,
+    c.bleeding_quantity,
+    c.blood_color,
+    c.blood_volume,
+    c.clots,
+    c.mucus,
+    e.energy_physical,
+    e.energy_mental,
+    e.energy_emotional,
+    e.energy_drive,
+    e.overall_mood,
+    a.formulation_doses_scheduled,
+    a.formulation_doses_taken,
+    a.formulation_doses_partial,
+    a.treatment_sessions_expected,
+    a.treatment_sessions_done,
+    a.treatment_sessions_partial,
+    a.treatments_due,
+    a.treatments_done,
+    (
+      SELECT COUNT(*) FROM cycle_comments cc
+      WHERE cc.cycle_log_id = c.id
+        AND cc.read_at IS NULL
+        AND cc.author_type = CASE WHEN p_patient_id = auth.uid() THEN 'clinician' ELSE 'patient' END
+    )::INTEGER
+  FROM daily_entries e
+  JOIN regimen_adherence_range(p_patient_id, p_from, p_to) a ON a.date = e.date
+  LEFT JOIN LATERAL (
+    SELECT * FROM cycle_logs cl WHERE cl.daily_entry_id = e.id LIMIT 1
+  ) c ON TRUE
+  WHERE e.patient_id = p_patient_id
+    AND e.date BETWEEN p_from AND p_to
+  ORDER BY e.date DESC;
+$$;
@@ -0,0 +1,168 @@
+-- MyAyu MVP - Computed Cycle Days Migration
+-- Cycle days are derived from logged period starts; a typed-in day is a flagged manual override
+
+-- A period starts on a logged day with bleeding when the day before had none.
+-- The cycle day is counted from the most recent start on or before the date (start = day 1).
+-- cycle_logs.cycle_day now only holds a manual override, and daily_entries.cycle_day goes away.
+
+-- ============================================================================
+-- 1. MANUAL OVERRIDE FLAG
+-- ============================================================================
+
+ALTER TABLE cycle_logs ADD COLUMN cycle_day_manual BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- ============================================================================
+-- 2. PERIOD STARTS AND CYCLE DAYS
+-- ============================================================================
+
+-- First days of bleeding logged on or before p_to, oldest first
+CREATE FUNCTION cycle_period_starts(p_patient_id UUID, p_to DATE)
+RETURNS TABLE (start_date DATE)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH bleeding_days AS (
+    SELECT e.date
+    FROM daily_entries e
+    JOIN cycle_logs c ON c.daily_entry_id = e.id
+    WHERE e.patient_id = p_patient_id
+      AND e.date <= p_to
+      AND length(trim(COALESCE(c.bleeding_quantity, ''))) > 0
+  )
+  SELECT b.date
+  FROM bleeding_days b
+  WHERE NOT EXISTS (SELECT 1 FROM bleeding_days prev WHERE prev.date = b.date - 1)
+  ORDER BY b.date;
+$$;
+
+-- Cycle day computed from logged period starts; null before the first logged start
+CREATE FUNCTION computed_cycle_day(p_patient_id UUID, p_date DATE)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT (p_date - MAX(s.start_date) + 1)::INTEGER
+  FROM cycle_period_starts(p_patient_id, p_date) s;
+$$;
+
+-- ============================================================================
+-- 3. CARRY OVER HAND-ENTERED DAYS
+-- ============================================================================
+
+-- Hand-entered days are kept as manual overrides only where no period start has been
+-- logged to compute from; elsewhere the computed day replaces them
+INSERT INTO cycle_logs (daily_entry_id, patient_id)
+SELECT e.id, e.patient_id
+FROM daily_entries e
+WHERE e.cycle_day > 0
+  AND NOT EXISTS (SELECT 1 FROM cycle_logs c WHERE c.daily_entry_id = e.id)
+  AND computed_cycle_day(e.patient_id, e.date) IS NULL;
+
+UPDATE cycle_logs c
+SET cycle_day = COALESCE(NULLIF(c.cycle_day, 0), e.cycle_day),
+    cycle_day_manual = TRUE
+FROM daily_entries e
+WHERE e.id = c.daily_entry_id
+  AND COALESCE(NULLIF(c.cycle_day, 0), e.cycle_day) > 0
+  AND computed_cycle_day(e.patient_id, e.date) IS NULL;
+
+UPDATE cycle_logs SET cycle_day = NULL WHERE NOT cycle_day_manual;
+
+ALTER TABLE cycle_logs ADD CONSTRAINT cycle_logs_manual_cycle_day
+  CHECK (cycle_day_manual = (cycle_day IS NOT NULL) AND COALESCE(cycle_day, 1) > 0);
+
+-- ============================================================================
+-- 4. CYCLE DAY SUMMARIES (computed cycle days)
+-- ============================================================================
+
+DROP FUNCTION get_cycle_day_summaries(UUID, DATE, DATE);
+
+ALTER TABLE daily_entries DROP COLUMN cycle_day;
+
+-- One cycle day summary row per logged day, newest first (cycle and combined lenses).
+-- Every day gets its cycle day: the manual override if set, otherwise the day computed from
+-- the latest period start, which may be before p_from.
+-- unread_comments counts the other party's unread comments: clinician comments for the
+-- patient, patient comments for a linked clinician.
+CREATE FUNCTION get_cycle_day_summaries(p_patient_id UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (
+  date DATE,
+  cycle_day INTEGER,
+  cycle_day_manual BOOLEAN,
+  physical_symptom_keys TEXT[],
+  emotional_symptom_keys TEXT[],
+  bleeding_quantity TEXT,
+  blood_color TEXT,
+  blood_volume TEXT,
+  clots BOOLEAN,
+  mucus BOOLEAN,
+  energy_physical INTEGER,
+  energy_mental INTEGER,
+  energy_emotional INTEGER,
+  energy_drive INTEGER,
+  overall_mood INTEGER,
+  formulation_doses_scheduled INTEGER,
+  formulation_doses_taken INTEGER,
+  formulation_doses_partial INTEGER,
+  treatment_sessions_expected INTEGER,
+  treatment_sessions_done INTEGER,
+  treatment_sessions_partial INTEGER,
+  treatments_due INTEGER,
+  treatments_done INTEGER,
+  unread_comments INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH period_starts AS (
+    SELECT s.start_date FROM cycle_period_starts(p_patient_id, p_to) s
+  )
+  SELECT
+    e.date,
+    CASE
+      WHEN c.cycle_day_manual THEN c.cycle_day
+      ELSE (
+        SELECT (e.date - MAX(ps.start_date) + 1)::INTEGER
+        FROM period_starts ps
+        WHERE ps.start_date <= e.date
+      )
+    END,
+    COALESCE(c.cycle_day_manual, FALSE),
+    c.physical_symptom_keys,
+    c.emotional_symptom_keys,
+    c.bleeding_quantity,
+    c.blood_color,
+    c.blood_volume,
+    c.clots,
+    c.mucus,
+    e.energy_physical,
+    e.energy_mental,
+    e.energy_emotional,
+    e.energy_drive,
+    e.overall_mood,
+    a.formulation_doses_scheduled,
+    a.formulation_doses_taken,
+    a.formulation_doses_partial,
+    a.treatment_sessions_expected,
+    a.treatment_sessions_done,
+    a.treatment_sessions_partial,
+    a.treatments_due,
+    a.treatments_done,
+    (
+      SELECT COUNT(*) FROM cycle_comments cc
+      WHERE cc.cycle_log_id = c.id
+        AND cc.read_at IS NULL
+        AND cc.author_type = CASE WHEN p_patient_id = auth.uid() THEN 'clinician' ELSE 'patient' END
+    )::INTEGER
+  FROM daily_entries e
+  JOIN regimen_adherence_range(p_patient_id, p_from, p_to) a ON a.date = e.date
+  LEFT JOIN LATERAL (
+    SELECT * FROM cycle_logs cl WHERE cl.daily_entry_id = e.id LIMIT 1
+  ) c ON TRUE
+  WHERE e.patient_id = p_patient_id
+    AND e.date BETWEEN p_from AND p_to
+  ORDER BY e.date DESC;
+$$;
@@ -0,0 +1,157 @@
+-- MyAyu MVP - Cycle Tracking Flag Migration
+-- patient_configs.cycle_tracking_enabled turns off cycle data for a patient; linked clinicians toggle it
+
+-- Turning tracking off hides cycle data rather than deleting it: logged cycle days stay in
+-- place and reappear if tracking is turned back on.
+
+-- ============================================================================
+-- 1. ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Patients keep read-only access to their config; their clinician changes it
+CREATE POLICY "Linked clinicians update patient_configs" ON patient_configs
+  FOR UPDATE TO authenticated
+  USING (is_linked_clinician(patient_id))
+  WITH CHECK (is_linked_clinician(patient_id));
+
+-- ============================================================================
+-- 2. CYCLE TRACKING FLAG
+-- ============================================================================
+
+-- Whether cycle tracking is on for a patient; on when the patient has no config row
+CREATE FUNCTION cycle_tracking_enabled(p_patient_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT pc.cycle_tracking_enabled FROM patient_configs pc WHERE pc.patient_id = p_patient_id),
+    TRUE
+  );
+$$;
+
+-- ============================================================================
+-- 3. CYCLE FUNCTIONS (empty when tracking is off)
+-- ============================================================================
+
+-- First days of bleeding logged on or before p_to, oldest first
+CREATE OR REPLACE FUNCTION cycle_period_starts(p_patient_id UUID, p_to DATE)
+RETURNS TABLE (start_date DATE)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH bleeding_days AS (
+    SELECT e.date
+    FROM daily_entries e
+    JOIN cycle_logs c ON c.daily_entry_id = e.id
+    WHERE e.patient_id = p_patient_id
+      AND e.date <= p_to
+      AND length(trim(COALESCE(c.bleeding_quantity, ''))) > 0
+      AND cycle_tracking_enabled(p_patient_id)
+  )
+  SELECT b.date
+  FROM bleeding_days b
+  WHERE NOT EXISTS (SELECT 1 FROM bleeding_days prev WHERE prev.date = b.date - 1)
+  ORDER BY b.date;
+$$;
+
+-- One cycle day summary row per logged day, newest first (cycle and combined lenses).
+-- Every day gets its cycle day: the manual override if set, otherwise the day computed from
+-- the latest period start, which may be before p_from.
+-- unread_comments counts the other party's unread comments: clinician comments for the
+-- patient, patient comments for a linked clinician.
+-- early_am_temp is the day's latest early-AM temperature reading, in the unit it was logged in.
+-- No rows when cycle tracking is off for the patient.
+CREATE OR REPLACE FUNCTION get_cycle_day_summaries(p_patient_id UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (
+  date DATE,
+  cycle_day INTEGER,
+  cycle_day_manual BOOLEAN,
+  physical_symptom_keys TEXT[],
+  emotional_symptom_keys TEXT[],
+  bleeding_quantity TEXT,
+  blood_color TEXT,
+  blood_volume TEXT,
+  clots BOOLEAN,
+  mucus BOOLEAN,
+  energy_physical INTEGER,
+  energy_mental INTEGER,
+  energy_emotional INTEGER,
+  energy_drive INTEGER,
+  overall_mood INTEGER,
+  formulation_doses_scheduled INTEGER,
+  formulation_doses_taken INTEGER,
+  formulation_doses_partial INTEGER,
+  treatment_sessions_expected INTEGER,
+  treatment_sessions_done INTEGER,
+  treatment_sessions_partial INTEGER,
+  treatments_due INTEGER,
+  treatments_done INTEGER,
+  unread_comments INTEGER,
+  early_am_temp NUMERIC,
+  early_am_temp_unit TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH period_starts AS (
+    SELECT s.start_date FROM cycle_period_starts(p_patient_id, p_to) s
+  )
+  SELECT
+    e.date,
+    CASE
+      WHEN c.cycle_day_manual THEN c.cycle_day
+      ELSE (
+        SELECT (e.date - MAX(ps.start_date) + 1)::INTEGER
+        FROM period_starts ps
+        WHERE ps.start_date <= e.date
+      )
+    END,
+    COALESCE(c.cycle_day_manual, FALSE),
+    c.physical_symptom_keys,
+    c.emotional_symptom_keys,
+    c.bleeding_quantity,
+    c.blood_color,
+    c.blood_volume,
+    c.clots,
+    c.mucus,
+    e.energy_physical,
+    e.energy_mental,
+    e.energy_emotional,
+    e.energy_drive,
+    e.overall_mood,
+    a.formulation_doses_scheduled,
+    a.formulation_doses_taken,
+    a.formulation_doses_partial,
+    a.treatment_sessions_expected,
+    a.treatment_sessions_done,
+    a.treatment_sessions_partial,
+    a.treatments_due,
+    a.treatments_done,
+    (
+      SELECT COUNT(*) FROM cycle_comments cc
+      WHERE cc.cycle_log_id = c.id
+        AND cc.read_at IS NULL
+        AND cc.author_type = CASE WHEN p_patient_id = auth.uid() THEN 'clinician' ELSE 'patient' END
+    )::INTEGER,
+    t.value,
+    t.unit
+  FROM daily_entries e
+  JOIN regimen_adherence_range(p_patient_id, p_from, p_to) a ON a.date = e.date
+  LEFT JOIN LATERAL (
+    SELECT * FROM cycle_logs cl WHERE cl.daily_entry_id = e.id LIMIT 1
+  ) c ON TRUE
+  LEFT JOIN LATERAL (
+    SELECT v.value, v.unit FROM vital_readings v
+    WHERE v.daily_entry_id = e.id AND v.type = 'early_am_temp'
+    ORDER BY v.measured_at DESC NULLS LAST, v.created_at DESC
+    LIMIT 1
+  ) t ON TRUE
+  WHERE e.patient_id = p_patient_id
+    AND e.date BETWEEN p_from AND p_to
+    AND cycle_tracking_enabled(p_patient_id)
+  ORDER BY e.date DESC;
+$$;
@@ -0,0 +1,106 @@
+-- MyAyu MVP - Patient Settings Migration
+-- Linked clinicians edit a patient's config and timezone; every change is recorded
+
+-- ============================================================================
+-- 1. VALID VALUES
+-- ============================================================================
+
+-- Names known to the database's time zone table (IANA names such as 'Asia/Kolkata')
+CREATE FUNCTION is_valid_timezone(p_timezone TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone);
+$$;
+
+ALTER TABLE patient_profiles ADD CONSTRAINT patient_profiles_timezone_valid
+  CHECK (is_valid_timezone(timezone));
+
+-- An edit window of 0 days allows editing today's entry only
+ALTER TABLE patient_configs ADD CONSTRAINT patient_configs_windows_valid
+  CHECK (tracking_window_days > 0 AND edit_window_days >= 0);
+
+-- ============================================================================
+-- 2. CHANGE HISTORY
+-- ============================================================================
+
+-- One row per changed setting; values are stored as text whatever the setting's type.
+-- changed_by is null for changes made outside the app (e.g. by an admin in SQL).
+CREATE TABLE patient_setting_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  setting TEXT NOT NULL CHECK (
+    setting IN ('tracking_window_days', 'edit_window_days', 'cycle_tracking_enabled', 'timezone')
+  ),
+  old_value TEXT,
+  new_value TEXT,
+  changed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_patient_setting_changes_patient ON patient_setting_changes(patient_id, changed_at DESC);
+
+-- Changes are recorded by triggers so no update can skip the history
+CREATE OR REPLACE FUNCTION record_patient_config_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO patient_setting_changes (patient_id, setting, old_value, new_value, changed_by)
+  SELECT NEW.patient_id, c.setting, c.old_value, c.new_value, auth.uid()
+  FROM (VALUES
+    ('tracking_window_days', OLD.tracking_window_days::TEXT, NEW.tracking_window_days::TEXT),
+    ('edit_window_days', OLD.edit_window_days::TEXT, NEW.edit_window_days::TEXT),
+    ('cycle_tracking_enabled', OLD.cycle_tracking_enabled::TEXT, NEW.cycle_tracking_enabled::TEXT)
+  ) AS c(setting, old_value, new_value)
+  WHERE c.old_value IS DISTINCT FROM c.new_value;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_patient_profile_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.timezone IS DISTINCT FROM NEW.timezone THEN
+    INSERT INTO patient_setting_changes (patient_id, setting, old_value, new_value, changed_by)
+    VALUES (NEW.id, 'timezone', OLD.timezone, NEW.timezone, auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_patient_configs_changes
+  AFTER UPDATE ON patient_configs
+  FOR EACH ROW EXECUTE FUNCTION record_patient_config_changes();
+
+CREATE TRIGGER record_patient_profiles_changes
+  AFTER UPDATE ON patient_profiles
+  FOR EACH ROW EXECUTE FUNCTION record_patient_profile_changes();
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE patient_setting_changes ENABLE ROW LEVEL SECURITY;
+
+-- The history is written only by the triggers above and never edited
+CREATE POLICY "Patients read own patient_setting_changes" ON patient_setting_changes
+  FOR SELECT TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read patient_setting_changes" ON patient_setting_changes
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+CREATE POLICY "Linked clinicians update patient_profiles" ON patient_profiles
+  FOR UPDATE TO authenticated
+  USING (is_linked_clinician(id))
+  WITH CHECK (is_linked_clinician(id));
@@ -0,0 +1,66 @@
+-- MyAyu MVP - Daily Sections Migration
+-- Per-patient choice of daily entry sections, their order and which ones are required
+
+-- ============================================================================
+-- 1. SECTION CONFIG
+-- ============================================================================
+
+-- Sections shown on the daily entry, in display order, e.g.
+--   [{"key": "energy", "required": true}, {"key": "food_fluid", "required": false}]
+-- Sections left out are hidden; null shows every section in the standard order, none required.
+ALTER TABLE patient_configs ADD COLUMN daily_sections JSONB;
+
+-- Known section keys, each at most once, with a boolean required flag
+CREATE FUNCTION daily_sections_valid(p_sections JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_typeof(p_sections) = 'array'
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_sections) s
+      WHERE NOT (COALESCE(s->>'key', '') = ANY (ARRAY[
+          'sleep', 'early_morning', 'food_fluid', 'bowel', 'exercise', 'energy',
+          'vitals', 'medications', 'symptoms', 'cycle', 'regimen'
+        ]))
+        OR jsonb_typeof(s->'required') IS DISTINCT FROM 'boolean'
+    )
+    AND (
+      SELECT count(DISTINCT s->>'key') = count(*) FROM jsonb_array_elements(p_sections) s
+    );
+$$;
+
+ALTER TABLE patient_configs ADD CONSTRAINT patient_configs_daily_sections_valid
+  CHECK (daily_sections IS NULL OR daily_sections_valid(daily_sections));
+
+-- ============================================================================
+-- 2. CHANGE HISTORY (adds daily_sections)
+-- ============================================================================
+
+ALTER TABLE patient_setting_changes DROP CONSTRAINT patient_setting_changes_setting_check;
+ALTER TABLE patient_setting_changes ADD CONSTRAINT patient_setting_changes_setting_check CHECK (
+  setting IN (
+    'tracking_window_days', 'edit_window_days', 'cycle_tracking_enabled', 'timezone', 'daily_sections'
+  )
+);
+
+CREATE OR REPLACE FUNCTION record_patient_config_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO patient_setting_changes (patient_id, setting, old_value, new_value, changed_by)
+  SELECT NEW.patient_id, c.setting, c.old_value, c.new_value, auth.uid()
+  FROM (VALUES
+    ('tracking_window_days', OLD.tracking_window_days::TEXT, NEW.tracking_window_days::TEXT),
+    ('edit_window_days', OLD.edit_window_days::TEXT, NEW.edit_window_days::TEXT),
+    ('cycle_tracking_enabled', OLD.cycle_tracking_enabled::TEXT, NEW.cycle_tracking_enabled::TEXT),
+    ('daily_sections', OLD.daily_sections::TEXT, NEW.daily_sections::TEXT)
+  ) AS c(setting, old_value, new_value)
+  WHERE c.old_value IS DISTINCT FROM c.new_value;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,347 @@
+-- MyAyu MVP - Custom Fields Migration
+-- Clinician-defined tracking fields per patient, filled in on the daily entry and shown in the tracker
+
+-- ============================================================================
+-- 1. FIELD DEFINITIONS
+-- ============================================================================
+
+-- scale: whole numbers from scale_min to scale_max (e.g. joint stiffness 0-10)
+-- boolean: yes/no (e.g. tongue coating)
+-- number: any number, with an optional unit (e.g. hot flashes, count)
+-- choice: one of choices
+-- text: free text
+-- Fields are archived rather than deleted so logged values keep their meaning.
+CREATE TABLE custom_fields (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  label TEXT NOT NULL CHECK (length(trim(label)) > 0),
+  field_type TEXT NOT NULL CHECK (field_type IN ('scale', 'boolean', 'number', 'choice', 'text')),
+  scale_min INTEGER,
+  scale_max INTEGER,
+  unit TEXT,
+  choices TEXT[],
+  archived_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (id, patient_id),
+  CONSTRAINT custom_fields_scale_range CHECK (
+    field_type <> 'scale' OR (scale_min IS NOT NULL AND scale_max > scale_min)
+  ),
+  CONSTRAINT custom_fields_choices CHECK (
+    field_type <> 'choice' OR cardinality(choices) >= 2
+  )
+);
+
+CREATE INDEX idx_custom_fields_patient ON custom_fields(patient_id);
+
+-- A field keeps its type once created, so its logged values stay valid
+CREATE OR REPLACE FUNCTION keep_custom_field_type()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.field_type <> OLD.field_type THEN
+    RAISE EXCEPTION 'Custom field type cannot be changed' USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER keep_custom_fields_type
+  BEFORE UPDATE ON custom_fields
+  FOR EACH ROW EXECUTE FUNCTION keep_custom_field_type();
+
+-- ============================================================================
+-- 2. LOGGED VALUES
+-- ============================================================================
+
+-- One value per field per day, in the column matching the field type:
+-- value_number (scale, number), value_boolean (boolean) or value_text (choice, text)
+CREATE TABLE custom_field_values (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  daily_entry_id UUID NOT NULL REFERENCES daily_entries(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  custom_field_id UUID NOT NULL,
+  value_number NUMERIC,
+  value_boolean BOOLEAN,
+  value_text TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (daily_entry_id, custom_field_id),
+  FOREIGN KEY (custom_field_id, patient_id) REFERENCES custom_fields(id, patient_id) ON DELETE CASCADE,
+  CHECK (num_nonnulls(value_number, value_boolean, value_text) = 1)
+);
+
+CREATE INDEX idx_custom_field_values_patient_entry ON custom_field_values(patient_id, daily_entry_id);
+
+-- The value must suit its field: in range for a scale, one of the choices for a choice
+CREATE OR REPLACE FUNCTION check_custom_field_value()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_field custom_fields%ROWTYPE;
+BEGIN
+  SELECT * INTO v_field FROM custom_fields WHERE id = NEW.custom_field_id;
+
+  IF NOT COALESCE(
+    CASE v_field.field_type
+      WHEN 'scale' THEN NEW.value_number = trunc(NEW.value_number)
+        AND NEW.value_number BETWEEN v_field.scale_min AND v_field.scale_max
+      WHEN 'number' THEN NEW.value_number IS NOT NULL
+      WHEN 'boolean' THEN NEW.value_boolean IS NOT NULL
+      WHEN 'choice' THEN NEW.value_text = ANY (v_field.choices)
+      WHEN 'text' THEN length(trim(NEW.value_text)) > 0
+    END,
+    FALSE
+  ) THEN
+    RAISE EXCEPTION 'Invalid value for custom field "%"', v_field.label USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_custom_field_values_value
+  BEFORE INSERT OR UPDATE ON custom_field_values
+  FOR EACH ROW EXECUTE FUNCTION check_custom_field_value();
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE custom_fields ENABLE ROW LEVEL SECURITY;
+ALTER TABLE custom_field_values ENABLE ROW LEVEL SECURITY;
+
+-- Fields are defined by the care team; patients only read them
+CREATE POLICY "Patients read own custom_fields" ON custom_fields
+  FOR SELECT TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read custom_fields" ON custom_fields
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+CREATE POLICY "Linked clinicians insert custom_fields" ON custom_fields
+  FOR INSERT TO authenticated
+  WITH CHECK (is_linked_clinician(patient_id) AND created_by = auth.uid());
+
+CREATE POLICY "Linked clinicians update custom_fields" ON custom_fields
+  FOR UPDATE TO authenticated
+  USING (is_linked_clinician(patient_id))
+  WITH CHECK (is_linked_clinician(patient_id));
+
+CREATE POLICY "Patients manage own custom_field_values" ON custom_field_values
+  FOR ALL TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read custom_field_values" ON custom_field_values
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+-- ============================================================================
+-- 4. DAILY SECTION
+-- ============================================================================
+
+-- Adds the 'custom' section key
+CREATE OR REPLACE FUNCTION daily_sections_valid(p_sections JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_typeof(p_sections) = 'array'
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_sections) s
+      WHERE NOT (COALESCE(s->>'key', '') = ANY (ARRAY[
+          'sleep', 'early_morning', 'food_fluid', 'bowel', 'exercise', 'energy',
+          'vitals', 'medications', 'symptoms', 'custom', 'cycle', 'regimen'
+        ]))
+        OR jsonb_typeof(s->'required') IS DISTINCT FROM 'boolean'
+    )
+    AND (
+      SELECT count(DISTINCT s->>'key') = count(*) FROM jsonb_array_elements(p_sections) s
+    );
+$$;
+
+-- ============================================================================
+-- 5. SUMMARY FUNCTIONS (add custom_values)
+-- ============================================================================
+
+-- custom_values maps each logged field's id to its value (number, boolean or text)
+CREATE FUNCTION custom_values_for_entry(p_daily_entry_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    jsonb_object_agg(
+      v.custom_field_id,
+      COALESCE(to_jsonb(v.value_number), to_jsonb(v.value_boolean), to_jsonb(v.value_text))
+    ),
+    '{}'::JSONB
+  )
+  FROM custom_field_values v
+  WHERE v.daily_entry_id = p_daily_entry_id;
+$$;
+
+DROP FUNCTION get_daily_summaries(UUID, DATE, DATE);
+DROP FUNCTION get_cycle_day_summaries(UUID, DATE, DATE);
+
+-- One daily summary row per logged day, newest first (tracker daily lens)
+CREATE FUNCTION get_daily_summaries(p_patient_id UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (
+  date DATE,
+  energy_physical INTEGER,
+  energy_mental INTEGER,
+  energy_emotional INTEGER,
+  energy_drive INTEGER,
+  overall_mood INTEGER,
+  food_count INTEGER,
+  bowel_movement_count INTEGER,
+  exercise_minutes INTEGER,
+  formulation_doses_scheduled INTEGER,
+  formulation_doses_taken INTEGER,
+  formulation_doses_partial INTEGER,
+  treatment_sessions_expected INTEGER,
+  treatment_sessions_done INTEGER,
+  treatment_sessions_partial INTEGER,
+  treatments_due INTEGER,
+  treatments_done INTEGER,
+  has_cycle_log BOOLEAN,
+  custom_values JSONB
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    e.date,
+    e.energy_physical,
+    e.energy_mental,
+    e.energy_emotional,
+    e.energy_drive,
+    e.overall_mood,
+    (SELECT COUNT(*) FROM food_events f WHERE f.daily_entry_id = e.id)::INTEGER,
+    (SELECT COUNT(*) FROM bowel_movements b WHERE b.daily_entry_id = e.id)::INTEGER,
+    (SELECT COALESCE(SUM(x.duration_minutes), 0) FROM exercise_events x WHERE x.daily_entry_id = e.id)::INTEGER,
+    a.formulation_doses_scheduled,
+    a.formulation_doses_taken,
+    a.formulation_doses_partial,
+    a.treatment_sessions_expected,
+    a.treatment_sessions_done,
+    a.treatment_sessions_partial,
+    a.treatments_due,
+    a.treatments_done,
+    EXISTS (SELECT 1 FROM cycle_logs c WHERE c.daily_entry_id = e.id),
+    custom_values_for_entry(e.id)
+  FROM daily_entries e
+  JOIN regimen_adherence_range(p_patient_id, p_from, p_to) a ON a.date = e.date
+  WHERE e.patient_id = p_patient_id
+    AND e.date BETWEEN p_from AND p_to
+  ORDER BY e.date DESC;
+$$;
+
+-- One cycle day summary row per logged day, newest first (cycle and combined lenses).
+-- Every day gets its cycle day: the manual override if set, otherwise the day computed from
+-- the latest period start, which may be before p_from.
+-- unread_comments counts the other party's unread comments: clinician comments for the
+-- patient, patient comments for a linked clinician.
+-- early_am_temp is the day's latest early-AM temperature reading, in the unit it was logged in.
+-- No rows when cycle tracking is off for the patient.
+CREATE FUNCTION get_cycle_day_summaries(p_patient_id UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (
+  date DATE,
+  cycle_day INTEGER,
+  cycle_day_manual BOOLEAN,
+  physical_symptom_keys TEXT[],
+  emotional_symptom_keys TEXT[],
+  bleeding_quantity TEXT,
+  blood_color TEXT,
+  blood_volume TEXT,
+  clots BOOLEAN,
+  mucus BOOLEAN,
+  energy_physical INTEGER,
+  energy_mental INTEGER,
+  energy_emotional INTEGER,
+  energy_drive INTEGER,
+  overall_mood INTEGER,
+  formulation_doses_scheduled INTEGER,
+  formulation_doses_taken INTEGER,
+  formulation_doses_partial INTEGER,
+  treatment_sessions_expected INTEGER,
+  treatment_sessions_done INTEGER,
+  treatment_sessions_partial INTEGER,
+  treatments_due INTEGER,
+  treatments_done INTEGER,
+  unread_comments INTEGER,
+  early_am_temp NUMERIC,
+  early_am_temp_unit TEXT,
+  custom_values JSONB
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH period_starts AS (
+    SELECT s.start_date FROM cycle_period_starts(p_patient_id, p_to) s
+  )
+  SELECT
+    e.date,
+    CASE
+      WHEN c.cycle_day_manual THEN c.cycle_day
+      ELSE (
+        SELECT (e.date - MAX(ps.start_date) + 1)::INTEGER
+        FROM period_starts ps
+        WHERE ps.start_date <= e.date
+      )
+    END,
+    COALESCE(c.cycle_day_manual, FALSE),
+    c.physical_symptom_keys,
+    c.emotional_symptom_keys,
+    c.bleeding_quantity,
+    c.blood_color,
+    c.blood_volume,
+    c.clots,
+    c.mucus,
+    e.energy_physical,
+    e.energy_mental,
+    e.energy_emotional,
+    e.energy_drive,
+    e.overall_mood,
+    a.formulation_doses_scheduled,
+    a.formulation_doses_taken,
+    a.formulation_doses_partial,
+    a.treatment_sessions_expected,
+    a.treatment_sessions_done,
+    a.treatment_sessions_partial,
+    a.treatments_due,
+    a.treatments_done,
+    (
+      SELECT COUNT(*) FROM cycle_comments cc
+      WHERE cc.cycle_log_id = c.id
+        AND cc.read_at IS NULL
+        AND cc.author_type = CASE WHEN p_patient_id = auth.uid() THEN 'clinician' ELSE 'patient' END
+    )::INTEGER,
+    t.value,
+    t.unit,
+    custom_values_for_entry(e.id)
+  FROM daily_entries e
+  JOIN regimen_adherence_range(p_patient_id, p_from, p_to) a ON a.date = e.date
+  LEFT JOIN LATERAL (
+    SELECT * FROM cycle_logs cl WHERE cl.daily_entry_id = e.id LIMIT 1
+  ) c ON TRUE
+  LEFT JOIN LATERAL (
+    SELECT v.value, v.unit FROM vital_readings v
+    WHERE v.daily_entry_id = e.id AND v.type = 'early_am_temp'
+    ORDER BY v.measured_at DESC NULLS LAST, v.created_at DESC
+    LIMIT 1
+  ) t ON TRUE
+  WHERE e.patient_id = p_patient_id
+    AND e.date BETWEEN p_from AND p_to
+    AND cycle_tracking_enabled(p_patient_id)
+  ORDER BY e.date DESC;
+$$;
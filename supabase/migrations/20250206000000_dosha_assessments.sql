@@ -0,0 +1,88 @@
+-- MyAyu MVP - Dosha Assessments Migration
+-- Prakriti (constitution) intake and periodic Vikriti (current imbalance) questionnaires, scored per dosha
+
+-- ============================================================================
+-- 1. ASSESSMENTS
+-- ============================================================================
+
+-- Answers map each question key to the dosha of the option chosen, e.g. {"body_frame": "vata"}.
+-- The questions themselves live in the app (src/lib/dosha.ts).
+CREATE FUNCTION dosha_answers_valid(p_answers JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(p_answers) <> 'object' THEN FALSE
+    ELSE EXISTS (SELECT 1 FROM jsonb_each(p_answers))
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_each(p_answers) a
+        WHERE jsonb_typeof(a.value) <> 'string'
+          OR NOT (a.value #>> '{}' = ANY (ARRAY['vata', 'pitta', 'kapha']))
+      )
+  END;
+$$;
+
+-- A completed questionnaire. Scores are the number of answers per dosha, set by the database.
+-- Assessments are never edited: a retake is a new row, so scores can be followed over time.
+CREATE TABLE dosha_assessments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('prakriti', 'vikriti')),
+  answers JSONB NOT NULL CHECK (dosha_answers_valid(answers)),
+  vata_score INTEGER NOT NULL DEFAULT 0,
+  pitta_score INTEGER NOT NULL DEFAULT 0,
+  kapha_score INTEGER NOT NULL DEFAULT 0,
+  notes TEXT,
+  completed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  completed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_dosha_assessments_patient ON dosha_assessments(patient_id, kind, completed_at);
+
+-- Scores always follow the answers, whoever submits them
+CREATE OR REPLACE FUNCTION score_dosha_assessment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  SELECT
+    count(*) FILTER (WHERE a.value = 'vata'),
+    count(*) FILTER (WHERE a.value = 'pitta'),
+    count(*) FILTER (WHERE a.value = 'kapha')
+  INTO NEW.vata_score, NEW.pitta_score, NEW.kapha_score
+  FROM jsonb_each_text(NEW.answers) a;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER score_dosha_assessments
+  BEFORE INSERT ON dosha_assessments
+  FOR EACH ROW EXECUTE FUNCTION score_dosha_assessment();
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE dosha_assessments ENABLE ROW LEVEL SECURITY;
+
+-- The patient fills in their own questionnaires; a linked clinician may record one during a
+-- consultation. Nobody updates or deletes them.
+CREATE POLICY "Patients read own dosha_assessments" ON dosha_assessments
+  FOR SELECT TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Patients insert own dosha_assessments" ON dosha_assessments
+  FOR INSERT TO authenticated
+  WITH CHECK (patient_id = auth.uid() AND completed_by = auth.uid());
+
+CREATE POLICY "Linked clinicians read dosha_assessments" ON dosha_assessments
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+CREATE POLICY "Linked clinicians insert dosha_assessments" ON dosha_assessments
+  FOR INSERT TO authenticated
+  WITH CHECK (is_linked_clinician(patient_id) AND completed_by = auth.uid());
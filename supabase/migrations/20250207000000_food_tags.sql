@@ -0,0 +1,70 @@
+-- MyAyu MVP - Food Tags Migration
+-- Six tastes (rasa) and qualities (guna) on food events and saved foods, with a weekly taste count
+
+-- ============================================================================
+-- 1. VALID TAGS
+-- ============================================================================
+
+CREATE FUNCTION food_rasas_valid(p_rasas TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT p_rasas <@ ARRAY['sweet', 'sour', 'salty', 'pungent', 'bitter', 'astringent'];
+$$;
+
+-- Qualities come in opposing pairs, and a food cannot be both of a pair
+CREATE FUNCTION food_gunas_valid(p_gunas TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT p_gunas <@ ARRAY['heavy', 'light', 'hot', 'cold', 'oily', 'dry']
+    AND NOT p_gunas @> ARRAY['heavy', 'light']
+    AND NOT p_gunas @> ARRAY['hot', 'cold']
+    AND NOT p_gunas @> ARRAY['oily', 'dry'];
+$$;
+
+-- ============================================================================
+-- 2. TAG COLUMNS
+-- ============================================================================
+
+-- A saved food's tags are the defaults for food events logged from it; each event keeps its own copy
+ALTER TABLE saved_foods
+  ADD COLUMN rasas TEXT[] NOT NULL DEFAULT '{}' CHECK (food_rasas_valid(rasas)),
+  ADD COLUMN gunas TEXT[] NOT NULL DEFAULT '{}' CHECK (food_gunas_valid(gunas));
+
+ALTER TABLE food_events
+  ADD COLUMN rasas TEXT[] NOT NULL DEFAULT '{}' CHECK (food_rasas_valid(rasas)),
+  ADD COLUMN gunas TEXT[] NOT NULL DEFAULT '{}' CHECK (food_gunas_valid(gunas));
+
+-- ============================================================================
+-- 3. WEEKLY TASTE COUNTS
+-- ============================================================================
+
+-- Foods per taste per week (weeks start on Monday), oldest first. A food tagged with several
+-- tastes counts once for each. Runs as the caller, so RLS applies as for the summaries.
+CREATE FUNCTION get_weekly_rasa_counts(p_patient_id UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (
+  week_start DATE,
+  rasa TEXT,
+  food_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    date_trunc('week', e.date)::DATE,
+    r.rasa,
+    COUNT(*)::INTEGER
+  FROM food_events f
+  JOIN daily_entries e ON e.id = f.daily_entry_id
+  CROSS JOIN LATERAL unnest(f.rasas) AS r(rasa)
+  WHERE e.patient_id = p_patient_id
+    AND e.date BETWEEN p_from AND p_to
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
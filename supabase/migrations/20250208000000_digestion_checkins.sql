@@ -0,0 +1,136 @@
+-- MyAyu MVP - Digestion Check-ins Migration
+-- Optional post-meal check-in per food event (agni), averaged into the daily summaries
+
+-- ============================================================================
+-- 1. CHECK-INS
+-- ============================================================================
+
+-- Lets check-ins require the same day and patient as their food event
+ALTER TABLE food_events ADD CONSTRAINT food_events_id_entry_patient_key UNIQUE (id, daily_entry_id, patient_id);
+
+-- At most one check-in per meal. Every rating is 0-3 and optional:
+-- hunger_before: none, a little, good, strong
+-- heaviness, bloating, gas, acid: none, mild, moderate, strong
+-- energy_after: drained, low, steady, energised
+CREATE TABLE digestion_checkins (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  food_event_id UUID NOT NULL UNIQUE,
+  daily_entry_id UUID NOT NULL REFERENCES daily_entries(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  hunger_before SMALLINT CHECK (hunger_before BETWEEN 0 AND 3),
+  heaviness SMALLINT CHECK (heaviness BETWEEN 0 AND 3),
+  bloating SMALLINT CHECK (bloating BETWEEN 0 AND 3),
+  gas SMALLINT CHECK (gas BETWEEN 0 AND 3),
+  acid SMALLINT CHECK (acid BETWEEN 0 AND 3),
+  energy_after SMALLINT CHECK (energy_after BETWEEN 0 AND 3),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  FOREIGN KEY (food_event_id, daily_entry_id, patient_id)
+    REFERENCES food_events(id, daily_entry_id, patient_id) ON DELETE CASCADE,
+  CHECK (num_nonnulls(hunger_before, heaviness, bloating, gas, acid, energy_after) > 0)
+);
+
+CREATE INDEX idx_digestion_checkins_patient_entry ON digestion_checkins(patient_id, daily_entry_id);
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE digestion_checkins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Patients manage own digestion_checkins" ON digestion_checkins
+  FOR ALL TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Linked clinicians read digestion_checkins" ON digestion_checkins
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+-- ============================================================================
+-- 3. DAILY SUMMARIES (add digestion averages)
+-- ============================================================================
+
+DROP FUNCTION get_daily_summaries(UUID, DATE, DATE);
+
+-- One daily summary row per logged day, newest first (tracker daily lens).
+-- digestion_checkins counts the day's checked-in meals; each avg_ column averages one rating
+-- over the check-ins that answered it, NULL when none did.
+CREATE FUNCTION get_daily_summaries(p_patient_id UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (
+  date DATE,
+  energy_physical INTEGER,
+  energy_mental INTEGER,
+  energy_emotional INTEGER,
+  energy_drive INTEGER,
+  overall_mood INTEGER,
+  food_count INTEGER,
+  bowel_movement_count INTEGER,
+  exercise_minutes INTEGER,
+  formulation_doses_scheduled INTEGER,
+  formulation_doses_taken INTEGER,
+  formulation_doses_partial INTEGER,
+  treatment_sessions_expected INTEGER,
+  treatment_sessions_done INTEGER,
+  treatment_sessions_partial INTEGER,
+  treatments_due INTEGER,
+  treatments_done INTEGER,
+  has_cycle_log BOOLEAN,
+  custom_values JSONB,
+  digestion_checkins INTEGER,
+  avg_hunger_before NUMERIC,
+  avg_heaviness NUMERIC,
+  avg_bloating NUMERIC,
+  avg_gas NUMERIC,
+  avg_acid NUMERIC,
+  avg_energy_after NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    e.date,
+    e.energy_physical,
+    e.energy_mental,
+    e.energy_emotional,
+    e.energy_drive,
+    e.overall_mood,
+    (SELECT COUNT(*) FROM food_events f WHERE f.daily_entry_id = e.id)::INTEGER,
+    (SELECT COUNT(*) FROM bowel_movements b WHERE b.daily_entry_id = e.id)::INTEGER,
+    (SELECT COALESCE(SUM(x.duration_minutes), 0) FROM exercise_events x WHERE x.daily_entry_id = e.id)::INTEGER,
+    a.formulation_doses_scheduled,
+    a.formulation_doses_taken,
+    a.formulation_doses_partial,
+    a.treatment_sessions_expected,
+    a.treatment_sessions_done,
+    a.treatment_sessions_partial,
+    a.treatments_due,
+    a.treatments_done,
+    EXISTS (SELECT 1 FROM cycle_logs c WHERE c.daily_entry_id = e.id),
+    custom_values_for_entry(e.id),
+    d.checkins,
+    d.hunger_before,
+    d.heaviness,
+    d.bloating,
+    d.gas,
+    d.acid,
+    d.energy_after
+  FROM daily_entries e
+  JOIN regimen_adherence_range(p_patient_id, p_from, p_to) a ON a.date = e.date
+  CROSS JOIN LATERAL (
+    SELECT
+      COUNT(*)::INTEGER AS checkins,
+      round(AVG(dc.hunger_before), 1) AS hunger_before,
+      round(AVG(dc.heaviness), 1) AS heaviness,
+      round(AVG(dc.bloating), 1) AS bloating,
+      round(AVG(dc.gas), 1) AS gas,
+      round(AVG(dc.acid), 1) AS acid,
+      round(AVG(dc.energy_after), 1) AS energy_after
+    FROM digestion_checkins dc
+    WHERE dc.daily_entry_id = e.id
+  ) d
+  WHERE e.patient_id = p_patient_id
+    AND e.date BETWEEN p_from AND p_to
+  ORDER BY e.date DESC;
+$$;
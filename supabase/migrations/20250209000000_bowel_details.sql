@@ -0,0 +1,230 @@
+-- MyAyu MVP - Bowel Movement Details Migration
+-- Structured bowel movement fields (Bristol stool type and more) and a Bristol trend in the summaries
+
+-- ============================================================================
+-- 1. STRUCTURED FIELDS
+-- ============================================================================
+
+-- All optional, alongside the free-text details:
+-- bristol_type: Bristol stool scale, 1 (separate hard lumps) to 7 (watery)
+-- ease: how easily it passed; urgency: how urgent it was; completeness: whether emptying felt complete
+ALTER TABLE bowel_movements
+  ADD COLUMN bristol_type SMALLINT CHECK (bristol_type BETWEEN 1 AND 7),
+  ADD COLUMN color TEXT CHECK (color IN ('brown', 'light_brown', 'dark_brown', 'yellow', 'green', 'black', 'red', 'pale')),
+  ADD COLUMN ease TEXT CHECK (ease IN ('easy', 'some_effort', 'straining')),
+  ADD COLUMN urgency TEXT CHECK (urgency IN ('none', 'some', 'urgent')),
+  ADD COLUMN completeness TEXT CHECK (completeness IN ('complete', 'incomplete')),
+  ADD COLUMN mucus BOOLEAN,
+  ADD COLUMN undigested_food BOOLEAN;
+
+-- ============================================================================
+-- 2. SUMMARY FUNCTIONS (add bristol_types)
+-- ============================================================================
+
+-- The day's Bristol types in time order, for the trend
+CREATE FUNCTION bristol_types_for_entry(p_daily_entry_id UUID)
+RETURNS INTEGER[]
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    array_agg(b.bristol_type::INTEGER ORDER BY b.time NULLS LAST, b.created_at),
+    '{}'
+  )
+  FROM bowel_movements b
+  WHERE b.daily_entry_id = p_daily_entry_id
+    AND b.bristol_type IS NOT NULL;
+$$;
+
+DROP FUNCTION get_daily_summaries(UUID, DATE, DATE);
+DROP FUNCTION get_cycle_day_summaries(UUID, DATE, DATE);
+
+-- One daily summary row per logged day, newest first (tracker daily lens).
+-- digestion_checkins counts the day's checked-in meals; each avg_ column averages one rating
+-- over the check-ins that answered it, NULL when none did.
+-- bristol_types lists the day's typed bowel movements in time order.
+CREATE FUNCTION get_daily_summaries(p_patient_id UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (
+  date DATE,
+  energy_physical INTEGER,
+  energy_mental INTEGER,
+  energy_emotional INTEGER,
+  energy_drive INTEGER,
+  overall_mood INTEGER,
+  food_count INTEGER,
+  bowel_movement_count INTEGER,
+  exercise_minutes INTEGER,
+  formulation_doses_scheduled INTEGER,
+  formulation_doses_taken INTEGER,
+  formulation_doses_partial INTEGER,
+  treatment_sessions_expected INTEGER,
+  treatment_sessions_done INTEGER,
+  treatment_sessions_partial INTEGER,
+  treatments_due INTEGER,
+  treatments_done INTEGER,
+  has_cycle_log BOOLEAN,
+  custom_values JSONB,
+  digestion_checkins INTEGER,
+  avg_hunger_before NUMERIC,
+  avg_heaviness NUMERIC,
+  avg_bloating NUMERIC,
+  avg_gas NUMERIC,
+  avg_acid NUMERIC,
+  avg_energy_after NUMERIC,
+  bristol_types INTEGER[]
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    e.date,
+    e.energy_physical,
+    e.energy_mental,
+    e.energy_emotional,
+    e.energy_drive,
+    e.overall_mood,
+    (SELECT COUNT(*) FROM food_events f WHERE f.daily_entry_id = e.id)::INTEGER,
+    (SELECT COUNT(*) FROM bowel_movements b WHERE b.daily_entry_id = e.id)::INTEGER,
+    (SELECT COALESCE(SUM(x.duration_minutes), 0) FROM exercise_events x WHERE x.daily_entry_id = e.id)::INTEGER,
+    a.formulation_doses_scheduled,
+    a.formulation_doses_taken,
+    a.formulation_doses_partial,
+    a.treatment_sessions_expected,
+    a.treatment_sessions_done,
+    a.treatment_sessions_partial,
+    a.treatments_due,
+    a.treatments_done,
+    EXISTS (SELECT 1 FROM cycle_logs c WHERE c.daily_entry_id = e.id),
+    custom_values_for_entry(e.id),
+    d.checkins,
+    d.hunger_before,
+    d.heaviness,
+    d.bloating,
+    d.gas,
+    d.acid,
+    d.energy_after,
+    bristol_types_for_entry(e.id)
+  FROM daily_entries e
+  JOIN regimen_adherence_range(p_patient_id, p_from, p_to) a ON a.date = e.date
+  CROSS JOIN LATERAL (
+    SELECT
+      COUNT(*)::INTEGER AS checkins,
+      round(AVG(dc.hunger_before), 1) AS hunger_before,
+      round(AVG(dc.heaviness), 1) AS heaviness,
+      round(AVG(dc.bloating), 1) AS bloating,
+      round(AVG(dc.gas), 1) AS gas,
+      round(AVG(dc.acid), 1) AS acid,
+      round(AVG(dc.energy_after), 1) AS energy_after
+    FROM digestion_checkins dc
+    WHERE dc.daily_entry_id = e.id
+  ) d
+  WHERE e.patient_id = p_patient_id
+    AND e.date BETWEEN p_from AND p_to
+  ORDER BY e.date DESC;
+$$;
+
+-- One cycle day summary row per logged day, newest first (cycle and combined lenses).
+-- Every day gets its cycle day: the manual override if set, otherwise the day computed from
+-- the latest period start, which may be before p_from.
+-- unread_comments counts the other party's unread comments: clinician comments for the
+-- patient, patient comments for a linked clinician.
+-- early_am_temp is the day's latest early-AM temperature reading, in the unit it was logged in.
+-- bristol_types lists the day's typed bowel movements in time order.
+-- No rows when cycle tracking is off for the patient.
+CREATE FUNCTION get_cycle_day_summaries(p_patient_id UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (
+  date DATE,
+  cycle_day INTEGER,
+  cycle_day_manual BOOLEAN,
+  physical_symptom_keys TEXT[],
+  emotional_symptom_keys TEXT[],
+  bleeding_quantity TEXT,
+  blood_color TEXT,
+  blood_volume TEXT,
+  clots BOOLEAN,
+  mucus BOOLEAN,
+  energy_physical INTEGER,
+  energy_mental INTEGER,
+  energy_emotional INTEGER,
+  energy_drive INTEGER,
+  overall_mood INTEGER,
+  formulation_doses_scheduled INTEGER,
+  formulation_doses_taken INTEGER,
+  formulation_doses_partial INTEGER,
+  treatment_sessions_expected INTEGER,
+  treatment_sessions_done INTEGER,
+  treatment_sessions_partial INTEGER,
+  treatments_due INTEGER,
+  treatments_done INTEGER,
+  unread_comments INTEGER,
+  early_am_temp NUMERIC,
+  early_am_temp_unit TEXT,
+  custom_values JSONB,
+  bristol_types INTEGER[]
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH period_starts AS (
+    SELECT s.start_date FROM cycle_period_starts(p_patient_id, p_to) s
+  )
+  SELECT
+    e.date,
+    CASE
+      WHEN c.cycle_day_manual THEN c.cycle_day
+      ELSE (
+        SELECT (e.date - MAX(ps.start_date) + 1)::INTEGER
+        FROM period_starts ps
+        WHERE ps.start_date <= e.date
+      )
+    END,
+    COALESCE(c.cycle_day_manual, FALSE),
+    c.physical_symptom_keys,
+    c.emotional_symptom_keys,
+    c.bleeding_quantity,
+    c.blood_color,
+    c.blood_volume,
+    c.clots,
+    c.mucus,
+    e.energy_physical,
+    e.energy_mental,
+    e.energy_emotional,
+    e.energy_drive,
+    e.overall_mood,
+    a.formulation_doses_scheduled,
+    a.formulation_doses_taken,
+    a.formulation_doses_partial,
+    a.treatment_sessions_expected,
+    a.treatment_sessions_done,
+    a.treatment_sessions_partial,
+    a.treatments_due,
+    a.treatments_done,
+    (
+      SELECT COUNT(*) FROM cycle_comments cc
+      WHERE cc.cycle_log_id = c.id
+        AND cc.read_at IS NULL
+        AND cc.author_type = CASE WHEN p_patient_id = auth.uid() THEN 'clinician' ELSE 'patient' END
+    )::INTEGER,
+    t.value,
+    t.unit,
+    custom_values_for_entry(e.id),
+    bristol_types_for_entry(e.id)
+  FROM daily_entries e
+  JOIN regimen_adherence_range(p_patient_id, p_from, p_to) a ON a.date = e.date
+  LEFT JOIN LATERAL (
+    SELECT * FROM cycle_logs cl WHERE cl.daily_entry_id = e.id LIMIT 1
+  ) c ON TRUE
+  LEFT JOIN LATERAL (
+    SELECT v.value, v.unit FROM vital_readings v
+    WHERE v.daily_entry_id = e.id AND v.type = 'early_am_temp'
+    ORDER BY v.measured_at DESC NULLS LAST, v.created_at DESC
+    LIMIT 1
+  ) t ON TRUE
+  WHERE e.patient_id = p_patient_id
+    AND e.date BETWEEN p_from AND p_to
+    AND cycle_tracking_enabled(p_patient_id)
+  ORDER BY e.date DESC;
+$$;
@@ -0,0 +1,57 @@
+-- MyAyu MVP - Clinical Observations Migration
+-- Clinician-only tongue and pulse (nadi) observations recorded for a patient on a date
+
+-- ============================================================================
+-- 1. OBSERVATIONS
+-- ============================================================================
+
+-- Every field is optional, so an observation records only what was examined:
+-- tongue_coating: none, thin or thick; tongue_cracks: none, few or many
+-- vata_pulse, pitta_pulse, kapha_pulse: how prominent each dosha's quality is in the pulse,
+--   0 (absent) to 3 (dominant)
+-- pulse_rate: beats per minute
+CREATE TABLE clinical_observations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  clinician_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  observed_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  tongue_coating TEXT CHECK (tongue_coating IN ('none', 'thin', 'thick')),
+  tongue_coating_color TEXT CHECK (tongue_coating_color IN ('white', 'yellow', 'grey', 'brown')),
+  tongue_color TEXT CHECK (tongue_color IN ('pale', 'pink', 'red', 'dark_red', 'purple')),
+  tongue_cracks TEXT CHECK (tongue_cracks IN ('none', 'few', 'many')),
+  vata_pulse SMALLINT CHECK (vata_pulse BETWEEN 0 AND 3),
+  pitta_pulse SMALLINT CHECK (pitta_pulse BETWEEN 0 AND 3),
+  kapha_pulse SMALLINT CHECK (kapha_pulse BETWEEN 0 AND 3),
+  pulse_rate INTEGER CHECK (pulse_rate BETWEEN 20 AND 250),
+  pulse_strength TEXT CHECK (pulse_strength IN ('weak', 'moderate', 'strong')),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_clinical_observations_patient ON clinical_observations(patient_id, observed_on);
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE clinical_observations ENABLE ROW LEVEL SECURITY;
+
+-- Clinical notes for the care team: patients have no access. Any linked clinician reads them;
+-- only the clinician who recorded an observation edits or deletes it.
+CREATE POLICY "Linked clinicians read clinical_observations" ON clinical_observations
+  FOR SELECT TO authenticated
+  USING (is_linked_clinician(patient_id));
+
+CREATE POLICY "Linked clinicians insert clinical_observations" ON clinical_observations
+  FOR INSERT TO authenticated
+  WITH CHECK (is_linked_clinician(patient_id) AND clinician_id = auth.uid());
+
+CREATE POLICY "Clinicians update own clinical_observations" ON clinical_observations
+  FOR UPDATE TO authenticated
+  USING (is_linked_clinician(patient_id) AND clinician_id = auth.uid())
+  WITH CHECK (is_linked_clinician(patient_id) AND clinician_id = auth.uid());
+
+CREATE POLICY "Clinicians delete own clinical_observations" ON clinical_observations
+  FOR DELETE TO authenticated
+  USING (is_linked_clinician(patient_id) AND clinician_id = auth.uid());
@@ -0,0 +1,100 @@
+-- MyAyu MVP - Regimen Revisions Migration
+-- Revises a formulation or treatment in one transaction, so a change never leaves the item stopped
+
+-- ============================================================================
+-- 1. REVISE A REGIMEN ITEM
+-- ============================================================================
+
+-- Applies p_changes to a regimen_formulations or regimen_treatments row from p_effective_date on.
+-- Only the latest version of a lineage can be revised; the lineage is locked so concurrent
+-- revisions queue up. A version that has not started yet was never measured against, so it is
+-- edited in place, and the previous version's stop date follows the moved start so the
+-- versions neither overlap nor leave a gap.
+-- Otherwise (including a version with no start date, in force since the first entry) it is
+-- closed the day before p_effective_date and the next version of its lineage is opened.
+-- Runs as the caller (SECURITY INVOKER), so only linked clinicians can revise.
+CREATE OR REPLACE FUNCTION revise_regimen_item(
+  p_table TEXT,
+  p_id UUID,
+  p_changes JSONB,
+  p_effective_date DATE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_current JSONB;
+  v_latest_version INTEGER;
+  v_previous JSONB;
+  v_changes JSONB;
+  v_set TEXT;
+  v_result JSONB;
+BEGIN
+  IF p_table NOT IN ('regimen_formulations', 'regimen_treatments') THEN
+    RAISE EXCEPTION 'Not a regimen table: %', p_table;
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE t.id = $1 FOR UPDATE', p_table)
+    INTO v_current USING p_id;
+  IF v_current IS NULL THEN
+    RAISE EXCEPTION 'Regimen item not found';
+  END IF;
+
+  EXECUTE format('SELECT max(version) FROM (SELECT version FROM %I WHERE lineage_id = $1 FOR UPDATE) v', p_table)
+    INTO v_latest_version USING (v_current->>'lineage_id')::UUID;
+  IF (v_current->>'version')::INTEGER <> v_latest_version THEN
+    RAISE EXCEPTION 'Only the latest version of a regimen item can be changed';
+  END IF;
+
+  IF (v_current->>'stop_date')::DATE < p_effective_date THEN
+    RAISE EXCEPTION 'Changes cannot take effect after the item stops';
+  END IF;
+
+  -- Identity and version columns are never changed by a revision
+  v_changes := COALESCE(p_changes, '{}'::jsonb)
+    - ARRAY['id', 'patient_id', 'lineage_id', 'version', 'start_date', 'created_at', 'updated_at'];
+
+  IF (v_current->>'start_date')::DATE > CURRENT_DATE
+    OR (v_current->>'start_date')::DATE >= p_effective_date THEN
+    EXECUTE format(
+      'SELECT to_jsonb(t) FROM %I t WHERE t.lineage_id = $1 AND t.version < $2 ORDER BY t.version DESC LIMIT 1',
+      p_table
+    ) INTO v_previous USING (v_current->>'lineage_id')::UUID, (v_current->>'version')::INTEGER;
+
+    IF (v_previous->>'stop_date')::DATE >= p_effective_date
+      OR (v_previous->>'stop_date')::DATE = (v_current->>'start_date')::DATE - 1 THEN
+      IF (v_previous->>'start_date')::DATE >= p_effective_date THEN
+        RAISE EXCEPTION 'Changes cannot take effect before the previous version starts';
+      END IF;
+      EXECUTE format('UPDATE %I SET stop_date = $1, updated_at = NOW() WHERE id = $2', p_table)
+        USING p_effective_date - 1, (v_previous->>'id')::UUID;
+    END IF;
+
+    v_changes := v_changes || jsonb_build_object('start_date', p_effective_date, 'updated_at', NOW());
+    SELECT string_agg(format('%I = r.%I', key, key), ', ') INTO v_set
+    FROM jsonb_object_keys(v_changes) AS key;
+
+    EXECUTE format(
+      'UPDATE %1$I t SET %2$s FROM jsonb_populate_record(NULL::%1$I, $1) r WHERE t.id = $2 RETURNING to_jsonb(t)',
+      p_table, v_set
+    ) INTO v_result USING v_changes, p_id;
+    RETURN v_result;
+  END IF;
+
+  EXECUTE format('UPDATE %I SET stop_date = $1, updated_at = NOW() WHERE id = $2', p_table)
+    USING p_effective_date - 1, p_id;
+
+  EXECUTE format(
+    'INSERT INTO %1$I AS t SELECT * FROM jsonb_populate_record(NULL::%1$I, $1) RETURNING to_jsonb(t)',
+    p_table
+  ) INTO v_result USING v_current || v_changes || jsonb_build_object(
+    'id', gen_random_uuid(),
+    'version', v_latest_version + 1,
+    'start_date', p_effective_date,
+    'created_at', NOW(),
+    'updated_at', NOW()
+  );
+  RETURN v_result;
+END;
+$$;
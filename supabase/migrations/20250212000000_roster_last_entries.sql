@@ -0,0 +1,23 @@
+-- MyAyu MVP - Roster Last Entries Migration
+-- The clinician roster reads every patient's most recent entry date in one round trip
+
+-- ============================================================================
+-- 1. LAST ENTRY DATES
+-- ============================================================================
+
+-- Most recent daily entry date per patient. Runs as the caller (SECURITY INVOKER), so
+-- patients without an active relationship to the clinician are left out.
+CREATE OR REPLACE FUNCTION get_last_entry_dates(p_patient_ids UUID[])
+RETURNS TABLE (
+  patient_id UUID,
+  last_entry_date DATE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT e.patient_id, MAX(e.date)
+  FROM daily_entries e
+  WHERE e.patient_id = ANY (p_patient_ids)
+  GROUP BY e.patient_id;
+$$;
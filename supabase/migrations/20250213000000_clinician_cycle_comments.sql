@@ -0,0 +1,53 @@
+-- MyAyu MVP - Clinician Cycle Comments Migration
+-- Lets linked clinicians annotate any logged day, even one without cycle data yet
+
+-- ============================================================================
+-- 1. COMMENT ON A DAY
+-- ============================================================================
+
+-- Comments hang off a cycle log, which the clinician cannot create under RLS, so this gets or
+-- creates the day's (empty) cycle log and posts the comment as the calling clinician.
+-- The daily entry is locked so concurrent comments share one cycle log.
+CREATE OR REPLACE FUNCTION add_clinician_cycle_comment(p_daily_entry_id UUID, p_text TEXT)
+RETURNS cycle_comments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_patient_id UUID;
+  v_cycle_log_id UUID;
+  v_comment cycle_comments;
+BEGIN
+  SELECT e.patient_id INTO v_patient_id
+  FROM daily_entries e
+  WHERE e.id = p_daily_entry_id
+  FOR UPDATE;
+
+  IF v_patient_id IS NULL OR NOT is_linked_clinician(v_patient_id) THEN
+    RAISE EXCEPTION 'Only a linked clinician can comment on this day'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF NOT cycle_tracking_enabled(v_patient_id) THEN
+    RAISE EXCEPTION 'Cycle tracking is off for this patient';
+  END IF;
+
+  SELECT cl.id INTO v_cycle_log_id
+  FROM cycle_logs cl
+  WHERE cl.daily_entry_id = p_daily_entry_id
+  ORDER BY cl.created_at
+  LIMIT 1;
+
+  IF v_cycle_log_id IS NULL THEN
+    INSERT INTO cycle_logs (daily_entry_id, patient_id)
+    VALUES (p_daily_entry_id, v_patient_id)
+    RETURNING id INTO v_cycle_log_id;
+  END IF;
+
+  INSERT INTO cycle_comments (cycle_log_id, author_type, author_id, text)
+  VALUES (v_cycle_log_id, 'clinician', auth.uid(), p_text)
+  RETURNING * INTO v_comment;
+
+  RETURN v_comment;
+END;
+$$;
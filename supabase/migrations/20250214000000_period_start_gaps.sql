@@ -0,0 +1,51 @@
+-- MyAyu MVP - Period Start Gaps Migration
+-- A day missed in the middle of a period no longer counts as the start of a new one
+
+-- ============================================================================
+-- 1. PERIOD STARTS
+-- ============================================================================
+
+-- First days of bleeding logged on or before p_to, oldest first.
+-- A bleeding day starts a period when the day before records no bleeding, or when nothing
+-- bled in the 3 days before it; a short logging gap inside a period continues it.
+-- The day before only records no bleeding when its cycle log has some other field set, as every
+-- save from the cycle section does: an empty log (such as one created for a clinician's comment)
+-- says nothing about bleeding.
+CREATE OR REPLACE FUNCTION cycle_period_starts(p_patient_id UUID, p_to DATE)
+RETURNS TABLE (start_date DATE)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH cycle_days AS (
+    SELECT
+      e.date,
+      length(trim(COALESCE(c.bleeding_quantity, ''))) > 0 AS bleeding,
+      (
+        c.cycle_day_manual
+        OR COALESCE(cardinality(c.physical_symptom_keys), 0) > 0
+        OR COALESCE(cardinality(c.emotional_symptom_keys), 0) > 0
+        OR length(trim(COALESCE(c.blood_color, ''))) > 0
+        OR length(trim(COALESCE(c.blood_volume, ''))) > 0
+        OR c.clots IS NOT NULL
+        OR c.mucus IS NOT NULL
+      ) AS recorded
+    FROM daily_entries e
+    JOIN cycle_logs c ON c.daily_entry_id = e.id
+    WHERE e.patient_id = p_patient_id
+      AND e.date <= p_to
+      AND cycle_tracking_enabled(p_patient_id)
+  )
+  SELECT b.date
+  FROM cycle_days b
+  WHERE b.bleeding
+    AND NOT EXISTS (SELECT 1 FROM cycle_days prev WHERE prev.date = b.date - 1 AND prev.bleeding)
+    AND (
+      EXISTS (SELECT 1 FROM cycle_days prev WHERE prev.date = b.date - 1 AND prev.recorded)
+      OR NOT EXISTS (
+        SELECT 1 FROM cycle_days prev
+        WHERE prev.bleeding AND prev.date >= b.date - 3 AND prev.date < b.date
+      )
+    )
+  ORDER BY b.date;
+$$;
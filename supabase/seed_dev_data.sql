@@ -1,5 +1,5 @@
 -- MyAyu MVP - Development Seed Data
--- Creates 1 patient + 1 clinician + 14 days of sample tracking data
+-- Creates 1 patient + 1 linked clinician + 14 days of sample tracking data
 
 -- ============================================================================
 -- 1. CREATE PROFILES
@@ -27,35 +27,66 @@ INSERT INTO practitioner_profiles (id, credentials, specialties, created_at)
 VALUES
   ('22222222-2222-2222-2222-222222222222', 'ND, LAc', ARRAY['Functional Medicine', 'Women''s Health'], NOW());
 
+-- Care relationship (clinician can see the patient)
+INSERT INTO care_relationships (practitioner_id, patient_id, status)
+VALUES
+  ('22222222-2222-2222-2222-222222222222', '11111111-1111-1111-1111-111111111111', 'active');
+
+-- Auth users for the dev profiles (password: myayu-dev)
+-- Profiles already exist, so the on_auth_user_created trigger is a no-op here
+INSERT INTO auth.users (
+  instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+  raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+  confirmation_token, email_change, email_change_token_new, recovery_token
+)
+VALUES
+  ('00000000-0000-0000-0000-000000000000', '11111111-1111-1111-1111-111111111111', 'authenticated', 'authenticated',
+   'patient@myayu.dev', crypt('myayu-dev', gen_salt('bf')), NOW(),
+   '{"provider": "email", "providers": ["email"], "role": "patient"}', '{"full_name": "Jane Smith"}', NOW(), NOW(),
+   '', '', '', ''),
+  ('00000000-0000-0000-0000-000000000000', '22222222-2222-2222-2222-222222222222', 'authenticated', 'authenticated',
+   'clinician@myayu.dev', crypt('myayu-dev', gen_salt('bf')), NOW(),
+   '{"provider": "email", "providers": ["email"], "role": "clinician"}', '{"full_name": "Dr. Sarah Johnson"}', NOW(), NOW(),
+   '', '', '', '');
+
+INSERT INTO auth.identities (id, provider_id, user_id, identity_data, provider, last_sign_in_at, created_at, updated_at)
+VALUES
+  (gen_random_uuid(), '11111111-1111-1111-1111-111111111111', '11111111-1111-1111-1111-111111111111',
+   '{"sub": "11111111-1111-1111-1111-111111111111", "email": "patient@myayu.dev"}', 'email', NOW(), NOW(), NOW()),
+  (gen_random_uuid(), '22222222-2222-2222-2222-222222222222', '22222222-2222-2222-2222-222222222222',
+   '{"sub": "22222222-2222-2222-2222-222222222222", "email": "clinician@myayu.dev"}', 'email', NOW(), NOW(), NOW());
+
 -- ============================================================================
 -- 2. CREATE REGIMEN (formulations & treatments)
 -- ============================================================================
 
--- Formulation 1
-INSERT INTO regimen_formulations (id, patient_id, name, when_label, dose, with_text, start_date, instructions)
+-- Formulation 1 (twice daily)
+INSERT INTO regimen_formulations (id, patient_id, name, when_label, dose, with_text, start_date, instructions, dose_slots)
 VALUES
-  (gen_random_uuid(), '11111111-1111-1111-1111-111111111111', 'Herbal Formula A', 'with breakfast', '2 capsules', 'water', CURRENT_DATE - INTERVAL '30 days', 'Take with food to avoid stomach upset');
+  (gen_random_uuid(), '11111111-1111-1111-1111-111111111111', 'Herbal Formula A', 'before meals', '2 capsules', 'water', CURRENT_DATE - INTERVAL '30 days', 'Take with food to avoid stomach upset',
+   '[{"slot": "morning", "time": "07:30"}, {"slot": "evening", "time": "18:30"}]');
 
 -- Formulation 2
-INSERT INTO regimen_formulations (id, patient_id, name, when_label, dose, with_text, start_date, instructions)
+INSERT INTO regimen_formulations (id, patient_id, name, when_label, dose, with_text, start_date, instructions, dose_slots)
 VALUES
-  (gen_random_uuid(), '11111111-1111-1111-1111-111111111111', 'Herbal Formula B', 'before bed', '1 capsule', 'warm water', CURRENT_DATE - INTERVAL '30 days', 'Take 30 minutes before sleep');
+  (gen_random_uuid(), '11111111-1111-1111-1111-111111111111', 'Herbal Formula B', 'before bed', '1 capsule', 'warm water', CURRENT_DATE - INTERVAL '30 days', 'Take 30 minutes before sleep',
+   '[{"slot": "bedtime"}]');
 
 -- Treatment 1
-INSERT INTO regimen_treatments (id, patient_id, name, when_label, body_region, instructions, start_date)
+INSERT INTO regimen_treatments (id, patient_id, name, when_label, body_region, instructions, start_date, schedule_type, times_per_week)
 VALUES
-  (gen_random_uuid(), '11111111-1111-1111-1111-111111111111', 'Castor Oil Pack', 'evening', 'lower abdomen', 'Apply for 45 minutes, 3-4 times per week', CURRENT_DATE - INTERVAL '30 days');
+  (gen_random_uuid(), '11111111-1111-1111-1111-111111111111', 'Castor Oil Pack', 'evening', 'lower abdomen', 'Apply for 45 minutes, 3-4 times per week', CURRENT_DATE - INTERVAL '30 days', 'times_per_week', 3);
 
 -- ============================================================================
 -- 3. CREATE SAVED ITEMS (foods, exercises, meds, symptoms)
 -- ============================================================================
 
 -- Saved foods
-INSERT INTO saved_foods (id, patient_id, label, notes)
+INSERT INTO saved_foods (id, patient_id, label, notes, rasas, gunas)
 VALUES
-  (gen_random_uuid(), '11111111-1111-1111-1111-111111111111', 'Green smoothie', 'Spinach, banana, almond milk, chia seeds'),
-  (gen_random_uuid(), '11111111-1111-1111-1111-111111111111', 'Oatmeal with berries', 'Steel-cut oats, blueberries, walnuts'),
-  (gen_random_uuid(), '11111111-1111-1111-1111-111111111111', 'Quinoa bowl', 'Quinoa, roasted veggies, tahini dressing');
+  (gen_random_uuid(), '11111111-1111-1111-1111-111111111111', 'Green smoothie', 'Spinach, banana, almond milk, chia seeds', '{sweet,bitter,astringent}', '{cold,light}'),
+  (gen_random_uuid(), '11111111-1111-1111-1111-111111111111', 'Oatmeal with berries', 'Steel-cut oats, blueberries, walnuts', '{sweet,sour}', '{heavy,hot}'),
+  (gen_random_uuid(), '11111111-1111-1111-1111-111111111111', 'Quinoa bowl', 'Quinoa, roasted veggies, tahini dressing', '{sweet,astringent,bitter}', '{light,dry}');
 
 -- Saved exercises
 INSERT INTO saved_exercises (id, patient_id, label, notes)
@@ -109,6 +140,7 @@ DO $$
 DECLARE
   v_date DATE;
   v_daily_entry_id UUID;
+  v_cycle_log_id UUID;
   v_cycle_day INTEGER := 15;
   v_day_offset INTEGER;
   v_formulation_id_1 UUID;
@@ -123,10 +155,11 @@ BEGIN
   -- Create 14 days of entries (going backwards from today)
   FOR v_day_offset IN 0..13 LOOP
     v_date := CURRENT_DATE - v_day_offset;
-    v_cycle_day := 15 + v_day_offset; -- Simple increment for demo
+    -- Period started 10 days ago; the days before it are typed in as manual overrides
+    v_cycle_day := CASE WHEN v_day_offset <= 10 THEN 11 - v_day_offset ELSE 39 - v_day_offset END;
 
     -- Create daily entry
-    INSERT INTO daily_entries (id, patient_id, date, energy_physical, energy_mental, energy_emotional, energy_drive, overall_mood, reflection, cycle_day)
+    INSERT INTO daily_entries (id, patient_id, date, energy_physical, energy_mental, energy_emotional, energy_drive, overall_mood, reflection)
     VALUES (
       gen_random_uuid(),
       '11111111-1111-1111-1111-111111111111',
@@ -141,8 +174,7 @@ BEGIN
         WHEN v_day_offset = 3 THEN 'Slept well, woke up refreshed'
         WHEN v_day_offset = 7 THEN 'A bit tired today but mood is good'
         ELSE NULL
-      END,
-      v_cycle_day
+      END
     )
     RETURNING id INTO v_daily_entry_id;
 
@@ -169,12 +201,26 @@ BEGIN
     );
 
     -- Food events (breakfast, lunch, dinner, 1-2 snacks)
-    INSERT INTO food_events (daily_entry_id, patient_id, time, meal_type, description)
+    INSERT INTO food_events (daily_entry_id, patient_id, time, meal_type, description, rasas, gunas)
     VALUES
-      (v_daily_entry_id, '11111111-1111-1111-1111-111111111111', v_date + INTERVAL '8 hours', 'breakfast', 'Oatmeal with berries and walnuts'),
-      (v_daily_entry_id, '11111111-1111-1111-1111-111111111111', v_date + INTERVAL '12 hours 30 minutes', 'lunch', 'Quinoa bowl with roasted vegetables'),
-      (v_daily_entry_id, '11111111-1111-1111-1111-111111111111', v_date + INTERVAL '15 hours', 'snack', 'Apple with almond butter'),
-      (v_daily_entry_id, '11111111-1111-1111-1111-111111111111', v_date + INTERVAL '18 hours 30 minutes', 'dinner', 'Baked salmon, sweet potato, steamed broccoli');
+      (v_daily_entry_id, '11111111-1111-1111-1111-111111111111', v_date + INTERVAL '8 hours', 'breakfast', 'Oatmeal with berries and walnuts', '{sweet,sour}', '{heavy,hot}'),
+      (v_daily_entry_id, '11111111-1111-1111-1111-111111111111', v_date + INTERVAL '12 hours 30 minutes', 'lunch', 'Quinoa bowl with roasted vegetables', '{sweet,astringent,bitter}', '{light,dry}'),
+      (v_daily_entry_id, '11111111-1111-1111-1111-111111111111', v_date + INTERVAL '15 hours', 'snack', 'Apple with almond butter', '{sweet,astringent}', '{}'),
+      (v_daily_entry_id, '11111111-1111-1111-1111-111111111111', v_date + INTERVAL '18 hours 30 minutes', 'dinner', 'Baked salmon, sweet potato, steamed broccoli', '{sweet,salty,bitter}', '{heavy,oily}');
+
+    -- Digestion check-ins on breakfast and dinner; the heavy dinner sits worse every third day
+    INSERT INTO digestion_checkins (food_event_id, daily_entry_id, patient_id, hunger_before, heaviness, bloating, gas, acid, energy_after)
+    SELECT
+      f.id, f.daily_entry_id, f.patient_id,
+      CASE WHEN f.meal_type = 'breakfast' THEN 1 ELSE 2 END,
+      CASE WHEN f.meal_type = 'dinner' AND v_day_offset % 3 = 0 THEN 2 ELSE 0 END,
+      CASE WHEN f.meal_type = 'dinner' AND v_day_offset % 3 = 0 THEN 2 ELSE 0 END,
+      CASE WHEN f.meal_type = 'dinner' THEN 1 ELSE 0 END,
+      0,
+      CASE WHEN f.meal_type = 'dinner' AND v_day_offset % 3 = 0 THEN 1 ELSE 2 END
+    FROM food_events f
+    WHERE f.daily_entry_id = v_daily_entry_id
+      AND f.meal_type IN ('breakfast', 'dinner');
 
     -- Fluid totals
     INSERT INTO daily_fluid_totals (daily_entry_id, patient_id, total_water_oz, total_caffeine_oz, total_other_oz)
@@ -186,14 +232,21 @@ BEGIN
       0
     );
 
-    -- Bowel movement (most days)
+    -- Bowel movement (most days); a little loose the morning after the heavier dinners
     IF v_day_offset % 3 != 2 THEN
-      INSERT INTO bowel_movements (daily_entry_id, patient_id, time, details)
+      INSERT INTO bowel_movements (daily_entry_id, patient_id, time, details, bristol_type, color, ease, urgency, completeness, mucus, undigested_food)
       VALUES (
         v_daily_entry_id,
         '11111111-1111-1111-1111-111111111111',
         v_date + INTERVAL '9 hours',
-        'Normal consistency, no issues'
+        'Normal consistency, no issues',
+        CASE WHEN v_day_offset % 3 = 1 THEN 5 ELSE 4 END,
+        'brown',
+        'easy',
+        CASE WHEN v_day_offset % 3 = 1 THEN 'some' ELSE 'none' END,
+        'complete',
+        FALSE,
+        FALSE
       );
     END IF;
 
@@ -230,7 +283,8 @@ BEGIN
       v_daily_entry_id,
       '11111111-1111-1111-1111-111111111111',
       'early_am_temp',
-      97.8 + (v_day_offset % 10) * 0.1,
+      -- Biphasic: low before ovulation, raised in the luteal phase
+      CASE WHEN v_cycle_day > 14 THEN 98.1 ELSE 97.4 END + (v_day_offset % 3) * 0.1,
       'F',
       v_date + INTERVAL '7 hours'
     );
@@ -255,11 +309,12 @@ BEGIN
     END IF;
 
     -- Cycle log
-    INSERT INTO cycle_logs (daily_entry_id, patient_id, cycle_day, physical_symptom_keys, emotional_symptom_keys, bleeding_quantity, blood_color, clots, mucus)
+    INSERT INTO cycle_logs (daily_entry_id, patient_id, cycle_day, cycle_day_manual, physical_symptom_keys, emotional_symptom_keys, bleeding_quantity, blood_color, clots, mucus)
     VALUES (
       v_daily_entry_id,
       '11111111-1111-1111-1111-111111111111',
-      v_cycle_day,
+      CASE WHEN v_day_offset > 10 THEN v_cycle_day END,
+      v_day_offset > 10,
       CASE
         WHEN v_cycle_day BETWEEN 15 AND 20 THEN ARRAY['bloating', 'breast_tenderness']
         WHEN v_cycle_day BETWEEN 21 AND 28 THEN ARRAY['cramps']
@@ -273,14 +328,44 @@ BEGIN
       CASE WHEN v_cycle_day BETWEEN 1 AND 5 THEN 'Dark red' ELSE NULL END,
       CASE WHEN v_cycle_day BETWEEN 1 AND 5 THEN TRUE ELSE FALSE END,
       CASE WHEN v_cycle_day BETWEEN 12 AND 16 THEN TRUE ELSE FALSE END
-    );
+    )
+    RETURNING id INTO v_cycle_log_id;
+
+    -- Cycle comments: an answered clinician annotation, and a new one the patient has not read
+    IF v_day_offset IN (2, 6) THEN
+      INSERT INTO cycle_comments (cycle_log_id, author_type, author_id, text, read_at)
+      VALUES (
+        v_cycle_log_id,
+        'clinician',
+        '22222222-2222-2222-2222-222222222222',
+        CASE WHEN v_day_offset = 2
+          THEN 'Energy dipping mid-follicular phase - any change in appetite?'
+          ELSE 'Clots again this period, keep an eye on them.'
+        END,
+        CASE WHEN v_day_offset = 2 THEN NULL ELSE NOW() END
+      );
+    END IF;
+
+    IF v_day_offset = 6 THEN
+      INSERT INTO cycle_comments (cycle_log_id, author_type, author_id, text, read_at, created_at)
+      VALUES (
+        v_cycle_log_id,
+        'patient',
+        '11111111-1111-1111-1111-111111111111',
+        'Will do, fewer today than yesterday.',
+        NOW(),
+        NOW() + INTERVAL '1 second'
+      );
+    END IF;
 
     -- Formulation adherence
-    INSERT INTO regimen_formulation_intakes (regimen_formulation_id, daily_entry_id, patient_id, status, notes)
+    INSERT INTO regimen_formulation_intakes (regimen_formulation_id, daily_entry_id, patient_id, slot, status, notes)
     VALUES
-      (v_formulation_id_1, v_daily_entry_id, '11111111-1111-1111-1111-111111111111',
+      (v_formulation_id_1, v_daily_entry_id, '11111111-1111-1111-1111-111111111111', 'morning',
        CASE WHEN v_day_offset % 7 = 0 THEN 'skipped' ELSE 'taken' END, NULL),
-      (v_formulation_id_2, v_daily_entry_id, '11111111-1111-1111-1111-111111111111', 'taken', NULL);
+      (v_formulation_id_1, v_daily_entry_id, '11111111-1111-1111-1111-111111111111', 'evening',
+       CASE WHEN v_day_offset % 4 = 0 THEN 'partial' ELSE 'taken' END, NULL),
+      (v_formulation_id_2, v_daily_entry_id, '11111111-1111-1111-1111-111111111111', 'bedtime', 'taken', NULL);
 
     -- Treatment adherence (3-4 times per week)
     IF v_day_offset % 2 = 0 AND v_day_offset % 7 != 1 THEN
@@ -294,17 +379,74 @@ BEGIN
       );
     END IF;
 
-    -- Regimen notes (occasional)
+    -- Regimen note threads (occasional); the newest note and the clinician reply are unread
     IF v_day_offset % 5 = 0 THEN
-      INSERT INTO regimen_notes (daily_entry_id, patient_id, note, reply, reply_from)
+      INSERT INTO regimen_note_messages (daily_entry_id, patient_id, author_type, author_id, body, read_at)
       VALUES (
         v_daily_entry_id,
         '11111111-1111-1111-1111-111111111111',
+        'patient',
+        '11111111-1111-1111-1111-111111111111',
         'Protocol going well, noticing improved energy',
-        CASE WHEN v_day_offset = 10 THEN 'Great progress! Continue as planned.' ELSE NULL END,
-        CASE WHEN v_day_offset = 10 THEN 'Dr. Johnson' ELSE NULL END
+        CASE WHEN v_day_offset = 0 THEN NULL ELSE NOW() END
+      );
+    END IF;
+
+    IF v_day_offset = 10 THEN
+      INSERT INTO regimen_note_messages (daily_entry_id, patient_id, author_type, author_id, body, created_at)
+      VALUES (
+        v_daily_entry_id,
+        '11111111-1111-1111-1111-111111111111',
+        'clinician',
+        '22222222-2222-2222-2222-222222222222',
+        'Great progress! Continue as planned.',
+        NOW() + INTERVAL '1 second'
       );
     END IF;
 
   END LOOP;
 END $$;
+
+-- ============================================================================
+-- 5. DOSHA ASSESSMENTS (Prakriti intake and two Vikriti check-ins)
+-- ============================================================================
+
+INSERT INTO dosha_assessments (patient_id, kind, answers, completed_by, completed_at)
+VALUES
+  (
+    '11111111-1111-1111-1111-111111111111', 'prakriti',
+    '{"body_frame": "vata", "skin": "vata", "hair": "pitta", "appetite": "pitta", "digestion": "vata",
+      "sleep": "vata", "temperature": "vata", "temperament": "pitta", "memory": "vata", "speech": "pitta",
+      "activity": "kapha"}',
+    '11111111-1111-1111-1111-111111111111', NOW() - INTERVAL '60 days'
+  ),
+  (
+    '11111111-1111-1111-1111-111111111111', 'vikriti',
+    '{"sleep": "vata", "digestion": "vata", "elimination": "vata", "energy": "vata", "mind": "vata",
+      "skin": "pitta", "body": "vata", "cravings": "kapha"}',
+    '11111111-1111-1111-1111-111111111111', NOW() - INTERVAL '45 days'
+  ),
+  (
+    '11111111-1111-1111-1111-111111111111', 'vikriti',
+    '{"sleep": "vata", "digestion": "pitta", "elimination": "vata", "energy": "pitta", "mind": "vata",
+      "skin": "pitta", "body": "kapha", "cravings": "kapha"}',
+    '11111111-1111-1111-1111-111111111111', NOW() - INTERVAL '12 days'
+  );
+
+-- ============================================================================
+-- 6. CLINICAL OBSERVATIONS (tongue and pulse at two visits)
+-- ============================================================================
+
+INSERT INTO clinical_observations (
+  patient_id, clinician_id, observed_on, tongue_coating, tongue_coating_color, tongue_color,
+  tongue_cracks, vata_pulse, pitta_pulse, kapha_pulse, pulse_rate, pulse_strength, notes
+)
+VALUES
+  (
+    '11111111-1111-1111-1111-111111111111', '22222222-2222-2222-2222-222222222222', CURRENT_DATE - 12,
+    'thick', 'white', 'pale', 'few', 3, 1, 0, 78, 'weak', 'Irregular, thready pulse; coating at the back of the tongue'
+  ),
+  (
+    '11111111-1111-1111-1111-111111111111', '22222222-2222-2222-2222-222222222222', CURRENT_DATE - 2,
+    'thin', 'white', 'pink', 'few', 2, 2, 0, 72, 'moderate', 'Coating clearing since starting the formulas'
+  );